@@ -1,27 +1,121 @@
-import React, { useState, useRef, useEffect } from "react";
+import React, { useState, useRef, useEffect, useMemo } from "react";
 import { useToast } from "./hooks/useToast";
-import { PlayState, Song } from "./types";
+import { PlayState, SleepTimer, Song } from "./types";
 import FluidBackground from "./components/FluidBackground";
 import Controls from "./components/Controls";
 import LyricsView from "./components/LyricsView";
 import PlaylistPanel from "./components/PlaylistPanel";
+import PlaybackSettings from "./components/PlaybackSettings";
+import EffectsDialog from "./components/EffectsDialog";
+import SavedPlaylistsDialog from "./components/SavedPlaylistsDialog";
+import StatsDialog from "./components/StatsDialog";
+import BrowseDialog from "./components/BrowseDialog";
+import SettingsDialog from "./components/SettingsDialog";
 import KeyboardShortcuts from "./components/KeyboardShortcuts";
 import TopBar from "./components/TopBar";
 import SearchModal from "./components/SearchModal";
 import { usePlaylist } from "./hooks/usePlaylist";
 import { usePlayer } from "./hooks/usePlayer";
+import { usePlaybackPersistence } from "./hooks/usePlaybackPersistence";
+import { useAudioEffects } from "./hooks/useAudioEffects";
+import { useSavedPlaylists } from "./hooks/useSavedPlaylists";
+import { useFavorites } from "./hooks/useFavorites";
+import { useLocalLibrary } from "./hooks/useLocalLibrary";
+import { useOfflineDownloads } from "./hooks/useOfflineDownloads";
+import { useScrobbleSettings } from "./hooks/useScrobbler";
+import { useEndpointSettings } from "./hooks/useEndpointSettings";
 import { keyboardRegistry } from "./services/keyboardRegistry";
+import { downloadPlaylist } from "./services/playlistFormats";
+import { restoreLocalSongs } from "./services/persistence";
+import {
+  ScannedFile,
+  hasDraggedFiles,
+  scanDataTransfer,
+} from "./services/localFiles";
+import { getSongKey, shuffleArray } from "./services/utils";
+import { BrowseTrack, collectBrowseTracks } from "./services/browse";
+import { SONG_OWNER } from "./services/offline";
 import MediaSessionController from "./components/MediaSessionController";
+import { RefreshIcon } from "./components/Icons";
+
+// Steps of the sleep timer shortcut, after which it turns off again
+const SLEEP_TIMER_CYCLE: (() => SleepTimer)[] = [
+  () => ({ mode: "duration", endsAt: Date.now() + 15 * 60 * 1000 }),
+  () => ({ mode: "duration", endsAt: Date.now() + 30 * 60 * 1000 }),
+  () => ({ mode: "duration", endsAt: Date.now() + 60 * 60 * 1000 }),
+  () => ({ mode: "endOfSong" }),
+];
+
+const describeSleepTimer = (timer: SleepTimer) => {
+  switch (timer.mode) {
+    case "duration":
+      return `in ${Math.round((timer.endsAt - Date.now()) / 60000)} min`;
+    case "endOfSong":
+      return "at the end of this song";
+    case "afterSongs":
+      return timer.remaining === 1
+        ? "after this song"
+        : `after ${timer.remaining} songs`;
+  }
+};
+
+// Imports with more files than this get a heads-up, since scanning takes a while
+const LARGE_IMPORT_FILES = 20;
 
 const App: React.FC = () => {
   const { toast } = useToast();
   const playlist = usePlaylist();
+  const scrobbler = useScrobbleSettings();
+  const endpointSettings = useEndpointSettings();
   const player = usePlayer({
     queue: playlist.queue,
     originalQueue: playlist.originalQueue,
     updateSongInQueue: playlist.updateSongInQueue,
     setQueue: playlist.setQueue,
     setOriginalQueue: playlist.setOriginalQueue,
+    onSleepTimerEnd: () => toast.info("Sleep timer ended, playback stopped"),
+    scrobbleSettings: scrobbler.settings,
+  });
+
+  const sleepCycleIndexRef = useRef(-1);
+
+  const handleStartSleepTimer = (timer: SleepTimer) => {
+    player.startSleepTimer(timer);
+    toast.info(`Playback will stop ${describeSleepTimer(timer)}`);
+  };
+
+  const handleCancelSleepTimer = () => {
+    sleepCycleIndexRef.current = -1;
+    player.cancelSleepTimer();
+    toast.info("Sleep timer off");
+  };
+
+  const handleCycleSleepTimer = () => {
+    const nextIndex = player.sleepTimer ? sleepCycleIndexRef.current + 1 : 0;
+    if (nextIndex >= SLEEP_TIMER_CYCLE.length) {
+      handleCancelSleepTimer();
+      return;
+    }
+    sleepCycleIndexRef.current = nextIndex;
+    handleStartSleepTimer(SLEEP_TIMER_CYCLE[nextIndex]());
+  };
+
+  usePlaybackPersistence({
+    queue: playlist.queue,
+    originalQueue: playlist.originalQueue,
+    restoreQueue: playlist.restoreQueue,
+    currentSong: player.currentSong,
+    playMode: player.playMode,
+    speed: player.speed,
+    preservesPitch: player.preservesPitch,
+    pitch: player.pitch,
+    crossfade: player.crossfade,
+    smartShuffle: player.smartShuffle,
+    normalization: player.normalization,
+    volume: player.volume,
+    isMuted: player.isMuted,
+    currentTime: player.currentTime,
+    restoreSession: player.restoreSession,
   });
 
   const {
@@ -42,17 +136,45 @@ const App: React.FC = () => {
     handleLoadedMetadata,
     handlePlaylistAddition,
     loadLyricsFile,
+    refreshLyrics,
     playIndex,
     addSongAndPlay,
     handleAudioEnded,
     play,
     pause,
-    resolvedAudioSrc,
+    audioSlots,
     isBuffering,
   } = player;
 
   const [showPlaylist, setShowPlaylist] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const [showEffects, setShowEffects] = useState(false);
+  const audioEffects = useAudioEffects();
   const [showSearch, setShowSearch] = useState(false);
+  const [showLibrary, setShowLibrary] = useState(false);
+  const [showStats, setShowStats] = useState(false);
+  const [showBrowse, setShowBrowse] = useState(false);
+  const [showAppSettings, setShowAppSettings] = useState(false);
+  // Songs waiting for the user to pick a saved playlist
+  const [pendingPlaylistSongs, setPendingPlaylistSongs] = useState<Song[] | null>(null);
+  const savedPlaylists = useSavedPlaylists(playlist.queue);
+  const favorites = useFavorites(playlist.queue);
+  const localLibrary = useLocalLibrary(playlist.queue);
+  const offline = useOfflineDownloads();
+  const offlineSongs = useMemo(
+    () => Array.from(offline.records.values(), (record) => record.song),
+    [offline.records],
+  );
+  const browseTracks = useMemo(
+    () =>
+      collectBrowseTracks(
+        playlist.queue,
+        localLibrary.entries,
+        localLibrary.covers,
+      ),
+    [playlist.queue, localLibrary.entries, localLibrary.covers],
+  );
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
 
   const [isMobileLayout, setIsMobileLayout] = useState(false);
   const [activePanel, setActivePanel] = useState<"controls" | "lyrics">(
@@ -122,13 +244,23 @@ const App: React.FC = () => {
     return () => window.removeEventListener("keydown", handleKeyDown);
   }, []);
 
-  const handleFileChange = async (files: FileList) => {
+  const handleFileChange = async (files: FileList | ScannedFile[]) => {
     const wasEmpty = playlist.queue.length === 0;
-    const addedSongs = await playlist.addLocalFiles(files);
+    if (files.length > LARGE_IMPORT_FILES) {
+      toast.info(`Importing ${files.length} files...`);
+    }
+    const { songs: addedSongs, missingEntries, probed } =
+      await playlist.addLocalFiles(files);
     if (addedSongs.length > 0) {
       setTimeout(() => {
         handlePlaylistAddition(addedSongs, wasEmpty);
       }, 0);
+      probed.then(localLibrary.indexSongs);
+    }
+    if (missingEntries > 0) {
+      toast.info(
+        `${missingEntries} playlist entries weren't found. Select the audio files together with the playlist.`,
+      );
     }
   };
 
@@ -174,6 +306,329 @@ const App: React.FC = () => {
     playlist.setOriginalQueue((prev) => [...prev, song]);
   };
 
+  const handlePlayNext = (song: Song) => {
+    // Reuse the queued copy when the song is already there so it moves
+    const existing = playlist.queue.find((s) => {
+      if (song.isNetease && s.isNetease) {
+        return s.neteaseId === song.neteaseId;
+      }
+      return s.id === song.id;
+    });
+    const target = existing ?? song;
+    if (target.id === currentSong?.id) return;
+
+    const wasEmpty = playlist.queue.length === 0;
+    playlist.insertAfterCurrent([target], currentSong?.id ?? null);
+    if (wasEmpty) {
+      setTimeout(() => {
+        handlePlaylistAddition([target], wasEmpty);
+      }, 0);
+    }
+    toast.success(`"${target.title}" will play next`);
+  };
+
+  const handlePlaylistPlayNext = (ids: string[]) => {
+    const idSet = new Set(ids);
+    const songs = playlist.queue.filter(
+      (song) => idSet.has(song.id) && song.id !== currentSong?.id,
+    );
+    if (songs.length === 0) return;
+    playlist.insertAfterCurrent(songs, currentSong?.id ?? null);
+    toast.success(
+      songs.length === 1
+        ? `"${songs[0].title}" will play next`
+        : `${songs.length} songs will play next`,
+    );
+  };
+
+  const openLibrary = (songs: Song[] | null = null) => {
+    setPendingPlaylistSongs(songs);
+    setShowPlaylist(false);
+    setShowLibrary(true);
+  };
+
+  const closeLibrary = () => {
+    setShowLibrary(false);
+    setPendingPlaylistSongs(null);
+  };
+
+  const handleCreatePlaylist = (name: string, songs: Song[]) => {
+    const created = savedPlaylists.createPlaylist(name, songs);
+    if (pendingPlaylistSongs) {
+      closeLibrary();
+      toast.success(`Added ${songs.length} songs to "${created.name}"`);
+    }
+  };
+
+  const handleAddSongsToPlaylist = (id: string, songs: Song[]) => {
+    const target = savedPlaylists.playlists.find((item) => item.id === id);
+    const added = savedPlaylists.addSongsToPlaylist(id, songs);
+    closeLibrary();
+    if (!target) return;
+    if (added === 0) {
+      toast.info(`Already in "${target.name}"`);
+    } else {
+      toast.success(`Added ${added} songs to "${target.name}"`);
+    }
+  };
+
+  const handleLoadPlaylist = (id: string) => {
+    const target = savedPlaylists.playlists.find((item) => item.id === id);
+    if (!target || target.songs.length === 0) return;
+    playlist.replaceQueue(target.songs);
+    setTimeout(() => {
+      handlePlaylistAddition(target.songs, true);
+    }, 0);
+    closeLibrary();
+    toast.success(`Playing "${target.name}"`);
+  };
+
+  const handleAppendPlaylist = (id: string) => {
+    const target = savedPlaylists.playlists.find((item) => item.id === id);
+    if (!target) return;
+    // A song can only be queued once
+    const queuedIds = new Set(playlist.queue.map((song) => song.id));
+    const songs = target.songs.filter((song) => !queuedIds.has(song.id));
+    if (songs.length === 0) {
+      toast.info(`Everything in "${target.name}" is already queued`);
+      return;
+    }
+    const wasEmpty = playlist.queue.length === 0;
+    playlist.appendSongs(songs);
+    setTimeout(() => {
+      handlePlaylistAddition(songs, wasEmpty);
+    }, 0);
+    toast.success(`Added ${songs.length} songs to the queue`);
+  };
+
+  const handleToggleLike = (song: Song) => {
+    const liked = favorites.toggleLike(song);
+    toast.success(
+      liked
+        ? `Added "${song.title}" to Liked Songs`
+        : `Removed "${song.title}" from Liked Songs`,
+    );
+  };
+
+  // Replace the queue with one of the automatic playlists
+  const playAutoPlaylist = (songs: Song[], name: string) => {
+    if (songs.length === 0) {
+      toast.error("These local files are no longer stored");
+      return;
+    }
+    playlist.replaceQueue(songs);
+    setTimeout(() => {
+      handlePlaylistAddition(songs, true);
+    }, 0);
+    toast.success(`Playing "${name}"`);
+  };
+
+  const handleLoadLiked = async () => {
+    playAutoPlaylist(
+      await restoreLocalSongs(favorites.likedSongs),
+      "Liked Songs",
+    );
+    closeLibrary();
+  };
+
+  const handleLoadLibrary = async () => {
+    playAutoPlaylist(
+      await localLibrary.loadSongs(localLibrary.entries),
+      "Local Files",
+    );
+    closeLibrary();
+  };
+
+  const handleLoadOffline = () => {
+    playAutoPlaylist(offlineSongs, "Downloads");
+    closeLibrary();
+  };
+
+  const downloadForOffline = async (
+    songs: Song[],
+    owner: string,
+    name: string,
+  ) => {
+    toast.info(`Downloading ${name} for offline listening...`);
+    const { downloaded, failed } = await offline.download(songs, owner);
+    if (failed > 0) {
+      toast.error(
+        `${failed} of ${downloaded + failed} songs couldn't be downloaded`,
+      );
+    } else {
+      toast.success(`${name} is available offline`);
+    }
+  };
+
+  const describeSongs = (songs: Song[]) =>
+    songs.length === 1 ? `"${songs[0].title}"` : `${songs.length} songs`;
+
+  const handleDownloadSongs = (ids: string[]) => {
+    const songs = playlist.queue.filter((song) => ids.includes(song.id));
+    if (songs.length === 0) return;
+    downloadForOffline(songs, SONG_OWNER, describeSongs(songs));
+  };
+
+  const handleRemoveDownloads = (songs: Song[]) => {
+    if (songs.length === 0) return;
+    offline.release(null, songs);
+    toast.success(`Removed the download of ${describeSongs(songs)}`);
+  };
+
+  const handleDownloadPlaylist = (id: string) => {
+    const target = savedPlaylists.playlists.find((item) => item.id === id);
+    if (!target) return;
+    downloadForOffline(target.songs, target.id, `"${target.name}"`);
+  };
+
+  const handleRemovePlaylistDownload = (id: string) => {
+    const target = savedPlaylists.playlists.find((item) => item.id === id);
+    if (!target) return;
+    offline.release(id);
+    toast.success(`Removed the download of "${target.name}"`);
+  };
+
+  // Downloads made with a playlist go with it
+  const handleDeletePlaylist = (id: string) => {
+    savedPlaylists.deletePlaylist(id);
+    offline.release(id);
+  };
+
+  const handleRemoveSongFromPlaylist = (id: string, songId: string) => {
+    const song = savedPlaylists.playlists
+      .find((item) => item.id === id)
+      ?.songs.find((item) => item.id === songId);
+    savedPlaylists.removeSongsFromPlaylist(id, [songId]);
+    if (song) offline.release(id, [song]);
+  };
+
+  const handleAppendLibrary = async () => {
+    const queuedKeys = new Set(playlist.queue.map(getSongKey));
+    const entries = localLibrary.entries.filter(
+      (entry) => !queuedKeys.has(entry.key),
+    );
+    if (entries.length === 0) {
+      toast.info("Already in the queue");
+      return;
+    }
+    const songs = await localLibrary.loadSongs(entries);
+    const wasEmpty = playlist.queue.length === 0;
+    playlist.appendSongs(songs);
+    setTimeout(() => {
+      handlePlaylistAddition(songs, wasEmpty);
+    }, 0);
+    toast.success(`Added ${songs.length} songs to the queue`);
+  };
+
+  // Songs for browse tracks, in order. Library-only tracks get their stored
+  // bytes loaded; ones whose bytes are gone are dropped.
+  const resolveBrowseTracks = async (tracks: BrowseTrack[]) => {
+    const loaded = await localLibrary.loadSongs(
+      tracks.flatMap((track) =>
+        !track.song && track.libraryEntry ? [track.libraryEntry] : [],
+      ),
+    );
+    const byKey = new Map(loaded.map((song) => [getSongKey(song), song]));
+    return tracks.flatMap((track) => {
+      const song = track.song ?? byKey.get(track.key);
+      return song ? [song] : [];
+    });
+  };
+
+  const handleBrowsePlay = async (
+    tracks: BrowseTrack[],
+    shuffle: boolean,
+    name: string,
+  ) => {
+    const songs = await resolveBrowseTracks(tracks);
+    playAutoPlaylist(shuffle ? shuffleArray(songs) : songs, name);
+    setShowBrowse(false);
+  };
+
+  const handleBrowseQueue = async (tracks: BrowseTrack[]) => {
+    const queuedKeys = new Set(playlist.queue.map(getSongKey));
+    const candidates = tracks.filter((track) => !queuedKeys.has(track.key));
+    if (candidates.length === 0) {
+      toast.info("Already in the queue");
+      return;
+    }
+    const songs = await resolveBrowseTracks(candidates);
+    if (songs.length === 0) {
+      toast.error("These local files are no longer stored");
+      return;
+    }
+    const wasEmpty = playlist.queue.length === 0;
+    playlist.appendSongs(songs);
+    setTimeout(() => {
+      handlePlaylistAddition(songs, wasEmpty);
+    }, 0);
+    toast.success(
+      songs.length === 1
+        ? `Added "${songs[0].title}" to the queue`
+        : `Added ${songs.length} songs to the queue`,
+    );
+  };
+
+  const handleBrowsePlayTrack = async (track: BrowseTrack) => {
+    const [song] = await resolveBrowseTracks([track]);
+    if (!song) {
+      toast.error("This local file is no longer stored");
+      return;
+    }
+    handleImportAndPlay(song);
+  };
+
+  // Dropping files or folders anywhere imports them
+  const handleDragOver = (event: React.DragEvent<HTMLDivElement>) => {
+    if (!hasDraggedFiles(event.dataTransfer)) return;
+    event.preventDefault();
+    event.dataTransfer.dropEffect = "copy";
+    setIsDraggingFiles(true);
+  };
+
+  const handleDragLeave = (event: React.DragEvent<HTMLDivElement>) => {
+    // Moving between children fires leave events too
+    if (event.currentTarget.contains(event.relatedTarget as Node | null)) return;
+    setIsDraggingFiles(false);
+  };
+
+  const handleDrop = async (event: React.DragEvent<HTMLDivElement>) => {
+    if (!hasDraggedFiles(event.dataTransfer)) return;
+    event.preventDefault();
+    setIsDraggingFiles(false);
+    const files = await scanDataTransfer(event.dataTransfer);
+    if (files.length > 0) handleFileChange(files);
+  };
+
+  // Queue songs from the listening history. Local songs need their stored
+  // bytes, which are gone once they left the queue and every playlist.
+  const handleRequeue = async (songs: Song[]) => {
+    const queuedKeys = new Set(playlist.queue.map(getSongKey));
+    const candidates = songs.filter((song) => !queuedKeys.has(getSongKey(song)));
+    if (candidates.length === 0) {
+      toast.info("Already in the queue");
+      return;
+    }
+    const restored = await restoreLocalSongs(candidates);
+    const queuedIds = new Set(playlist.queue.map((song) => song.id));
+    const available = restored.filter((song) => !queuedIds.has(song.id));
+    if (available.length === 0) {
+      toast.error("These local files are no longer stored");
+      return;
+    }
+    const wasEmpty = playlist.queue.length === 0;
+    playlist.appendSongs(available);
+    setTimeout(() => {
+      handlePlaylistAddition(available, wasEmpty);
+    }, 0);
+    const unavailable = candidates.length - available.length;
+    toast.success(
+      unavailable > 0
+        ? `Added ${available.length} songs (${unavailable} local files are no longer stored)`
+        : `Added ${available.length} songs to the queue`,
+    );
+  };
+
   const handleTouchStart = (event: React.TouchEvent<HTMLDivElement>) => {
     if (!isMobileLayout) return;
     setTouchStartX(event.touches[0]?.clientX ?? null);
@@ -246,9 +701,23 @@ const App: React.FC = () => {
           playMode={playMode}
           onToggleMode={toggleMode}
           onTogglePlaylist={() => setShowPlaylist(true)}
+          onToggleSettings={() => setShowSettings(true)}
           accentColor={accentColor}
           coverUrl={currentSong?.coverUrl}
           isBuffering={isBuffering}
+          abLoop={player.abLoop}
+          volume={player.volume}
+          isMuted={player.isMuted}
+          onVolumeChange={player.setVolume}
+          onToggleMute={player.toggleMute}
+          songVolumeOffset={currentSong ? currentSong.volumeOffset ?? 0 : null}
+          onSongVolumeOffsetChange={player.setSongVolumeOffset}
+          isLiked={currentSong ? favorites.isLiked(currentSong) : false}
+          onToggleLike={() => currentSong && handleToggleLike(currentSong)}
+          rating={currentSong ? favorites.getRating(currentSong) : null}
+          onRatingChange={(rating) =>
+            currentSong && favorites.setRating(currentSong, rating)
+          }
         />
 
         {/* Floating Playlist Panel */}
@@ -259,7 +728,132 @@ const App: React.FC = () => {
           currentSongId={currentSong?.id}
           onPlay={playIndex}
           onImport={handleImportUrl}
+          onImportFiles={handleFileChange}
+          onExport={(format) =>
+            downloadPlaylist(playlist.queue, format, "Kael Music Queue")
+          }
           onRemove={playlist.removeSongs}
+          onMove={playlist.moveSongs}
+          onPlayNext={handlePlaylistPlayNext}
+          onOpenLibrary={() => openLibrary()}
+          onAddToPlaylist={(ids) =>
+            openLibrary(playlist.queue.filter((song) => ids.includes(song.id)))
+          }
+          isLiked={favorites.isLiked}
+          onToggleLike={handleToggleLike}
+          isOffline={offline.isOffline}
+          getDownloadProgress={offline.getProgress}
+          onDownload={handleDownloadSongs}
+          onRemoveDownload={(ids) =>
+            handleRemoveDownloads(
+              playlist.queue.filter((song) => ids.includes(song.id)),
+            )
+          }
+          accentColor={accentColor}
+        />
+
+        {/* Floating Playback Settings */}
+        <PlaybackSettings
+          isOpen={showSettings}
+          onClose={() => setShowSettings(false)}
+          speed={player.speed}
+          onSpeedChange={player.setSpeed}
+          preservesPitch={player.preservesPitch}
+          onTogglePreservesPitch={player.togglePreservesPitch}
+          pitch={player.pitch}
+          onPitchChange={player.setPitch}
+          crossfade={player.crossfade}
+          onCrossfadeChange={player.setCrossfade}
+          abLoop={player.abLoop}
+          abLoopPass={player.abLoopPass}
+          abLoopRepeats={player.abLoopRepeats}
+          onAbLoopRepeatsChange={player.setAbLoopRepeats}
+          abLoopSpeedStep={player.abLoopSpeedStep}
+          onAbLoopSpeedStepChange={player.setAbLoopSpeedStep}
+          onClearLoop={player.clearLoop}
+          sleepTimer={player.sleepTimer}
+          onStartSleepTimer={handleStartSleepTimer}
+          onCancelSleepTimer={handleCancelSleepTimer}
+          smartShuffle={player.smartShuffle}
+          onSmartShuffleChange={player.setSmartShuffle}
+          normalization={player.normalization}
+          onNormalizationChange={player.setNormalization}
+          onOpenEffects={() => {
+            setShowSettings(false);
+            setShowEffects(true);
+          }}
+          accentColor={accentColor}
+        />
+        <EffectsDialog
+          isOpen={showEffects}
+          onClose={() => setShowEffects(false)}
+          effects={audioEffects.effects}
+          onToggleEq={audioEffects.setEqEnabled}
+          onApplyPreset={audioEffects.applyPreset}
+          onUpdateBand={audioEffects.updateBand}
+          onPreampChange={audioEffects.setPreamp}
+          onToggleLimiter={audioEffects.setLimiterEnabled}
+          onUpdateReverb={audioEffects.updateReverb}
+          onReset={audioEffects.resetEffects}
+          accentColor={accentColor}
+        />
+        <SettingsDialog
+          isOpen={showAppSettings}
+          onClose={() => setShowAppSettings(false)}
+          scrobbleSettings={scrobbler.settings}
+          onScrobbleSettingsChange={scrobbler.updateSettings}
+          pendingScrobbles={scrobbler.pendingCount}
+          onRetryScrobbles={scrobbler.flush}
+          onOpen={scrobbler.refreshPendingCount}
+          endpoints={endpointSettings.endpoints}
+          onEndpointsChange={endpointSettings.updateEndpoints}
+          onResetEndpoints={endpointSettings.resetEndpoints}
+          accentColor={accentColor}
+        />
+        <StatsDialog
+          isOpen={showStats}
+          onClose={() => setShowStats(false)}
+          onRequeue={handleRequeue}
+          accentColor={accentColor}
+        />
+        <BrowseDialog
+          isOpen={showBrowse}
+          onClose={() => setShowBrowse(false)}
+          tracks={browseTracks}
+          onPlay={handleBrowsePlay}
+          onPlayTrack={handleBrowsePlayTrack}
+          onQueue={handleBrowseQueue}
+          accentColor={accentColor}
+        />
+        <SavedPlaylistsDialog
+          isOpen={showLibrary}
+          onClose={closeLibrary}
+          playlists={savedPlaylists.playlists}
+          pendingSongs={pendingPlaylistSongs}
+          onCreate={handleCreatePlaylist}
+          onRename={savedPlaylists.renamePlaylist}
+          onDuplicate={savedPlaylists.duplicatePlaylist}
+          onDelete={handleDeletePlaylist}
+          onAddSongs={handleAddSongsToPlaylist}
+          onRemoveSong={handleRemoveSongFromPlaylist}
+          onLoad={handleLoadPlaylist}
+          onAppend={handleAppendPlaylist}
+          likedSongs={favorites.likedSongs}
+          onLoadLiked={handleLoadLiked}
+          onAppendLiked={() => handleRequeue(favorites.likedSongs)}
+          onUnlike={favorites.toggleLike}
+          libraryEntries={localLibrary.entries}
+          onLoadLibrary={handleLoadLibrary}
+          onAppendLibrary={handleAppendLibrary}
+          onRemoveFromLibrary={(key) => localLibrary.removeFromLibrary([key])}
+          offlineSongs={offlineSongs}
+          onLoadOffline={handleLoadOffline}
+          onAppendOffline={() => handleRequeue(offlineSongs)}
+          onRemoveOffline={(song) => handleRemoveDownloads([song])}
+          isOffline={offline.isOffline}
+          getDownloadProgress={offline.getProgress}
+          onDownloadPlaylist={handleDownloadPlaylist}
+          onRemovePlaylistDownload={handleRemovePlaylistDownload}
           accentColor={accentColor}
         />
       </div>
@@ -270,7 +864,16 @@ const App: React.FC = () => {
   const lyricsKey = currentSong ? `${currentSong.id}-${lyricsVersion}` : "no-song";
 
   const lyricsSection = (
-    <div className="w-full h-full relative z-20 flex flex-col justify-center px-4 lg:pl-12">
+    <div className="group w-full h-full relative z-20 flex flex-col justify-center px-4 lg:pl-12">
+      {currentSong && matchStatus !== "matching" && (
+        <button
+          onClick={refreshLyrics}
+          className="absolute top-4 right-4 z-10 w-8 h-8 rounded-full flex items-center justify-center text-white/40 bg-white/5 lg:opacity-0 lg:group-hover:opacity-100 focus:opacity-100 hover:text-white hover:bg-white/10 transition-all"
+          title="Refresh lyrics"
+        >
+          <RefreshIcon className="w-4 h-4" />
+        </button>
+      )}
       <LyricsView
         key={lyricsKey}
         lyrics={currentSong?.lyrics || []}
@@ -278,6 +881,7 @@ const App: React.FC = () => {
         isPlaying={playState === PlayState.PLAYING}
         currentTime={currentTime}
         onSeekRequest={handleSeek}
+        onLoopRangeRequest={player.setLoopRange}
         matchStatus={matchStatus}
       />
     </div>
@@ -289,7 +893,12 @@ const App: React.FC = () => {
   const mobileTranslate = baseOffset + dragOffsetX;
 
   return (
-    <div className="relative w-full h-screen flex flex-col overflow-hidden">
+    <div
+      className="relative w-full h-screen flex flex-col overflow-hidden"
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
       <FluidBackground
         key={isMobileLayout ? "mobile" : "desktop"}
         colors={currentSong?.colors || []}
@@ -298,14 +907,19 @@ const App: React.FC = () => {
         isMobileLayout={isMobileLayout}
       />
 
-      <audio
-        ref={audioRef}
-        src={resolvedAudioSrc ?? currentSong?.fileUrl}
-        onTimeUpdate={handleTimeUpdate}
-        onLoadedMetadata={handleLoadedMetadata}
-        onEnded={handleAudioEnded}
-        crossOrigin="anonymous"
-      />
+      {/* Two elements so the next song can be preloaded and overlapped */}
+      {audioSlots.map((slot) => (
+        <audio
+          key={slot.slot}
+          ref={slot.ref}
+          src={slot.src ?? undefined}
+          preload="auto"
+          onTimeUpdate={handleTimeUpdate}
+          onLoadedMetadata={handleLoadedMetadata}
+          onEnded={handleAudioEnded}
+          crossOrigin="anonymous"
+        />
+      ))}
 
       <KeyboardShortcuts
         isPlaying={playState === PlayState.PLAYING}
@@ -317,6 +931,12 @@ const App: React.FC = () => {
         duration={duration}
         onToggleMode={toggleMode}
         onTogglePlaylist={() => setShowPlaylist((prev) => !prev)}
+        onSetLoopStart={() => player.setLoopStart()}
+        onSetLoopEnd={() => player.setLoopEnd()}
+        onClearLoop={player.clearLoop}
+        onCycleSleepTimer={handleCycleSleepTimer}
+        onAdjustVolume={player.adjustVolume}
+        onToggleMute={player.toggleMute}
       />
 
       <MediaSessionController
@@ -324,7 +944,7 @@ const App: React.FC = () => {
         playState={playState}
         currentTime={currentTime}
         duration={duration}
-        playbackRate={player.speed}
+        playbackRate={player.playbackRate}
         onPlay={play}
         onPause={pause}
         onNext={playNext}
@@ -336,6 +956,9 @@ const App: React.FC = () => {
       <TopBar
         onFilesSelected={handleFileChange}
         onSearchClick={() => setShowSearch(true)}
+        onBrowseClick={() => setShowBrowse(true)}
+        onStatsClick={() => setShowStats(true)}
+        onSettingsClick={() => setShowAppSettings(true)}
       />
 
       {/* Search Modal - Always rendered to preserve state, visibility handled internally */}
@@ -346,6 +969,10 @@ const App: React.FC = () => {
         onPlayQueueIndex={playIndex}
         onImportAndPlay={handleImportAndPlay}
         onAddToQueue={handleAddToQueue}
+        onPlayNext={handlePlayNext}
+        onAddToPlaylist={(song) => openLibrary([song])}
+        isLiked={favorites.isLiked}
+        onToggleLike={handleToggleLike}
         currentSong={currentSong}
         isPlaying={playState === PlayState.PLAYING}
         accentColor={accentColor}
@@ -400,6 +1027,15 @@ const App: React.FC = () => {
           {lyricsSection}
         </div>
       )}
+
+      {/* Drop Target */}
+      {isDraggingFiles && (
+        <div className="fixed inset-0 z-[10000] flex items-center justify-center bg-black/40 backdrop-blur-sm pointer-events-none">
+          <div className="px-8 py-6 rounded-[28px] border-2 border-dashed border-white/30 text-white/80 text-lg font-semibold">
+            Drop music files or folders to import
+          </div>
+        </div>
+      )}
     </div>
   );
 };
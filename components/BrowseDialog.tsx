@@ -0,0 +1,333 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { createPortal } from "react-dom";
+import { Song } from "../types";
+import { useKeyboardScope } from "../hooks/useKeyboardScope";
+import {
+  BrowseGroup,
+  BrowseKind,
+  BrowseTrack,
+  groupByAlbum,
+  groupByArtist,
+  mergeRemoteTracks,
+} from "../services/browse";
+import {
+  fetchNeteaseAlbum,
+  fetchNeteaseArtistSongs,
+  neteaseTrackToSong,
+} from "../services/lyricsService";
+import { formatTime } from "../services/utils";
+import { PlayIcon, PlusIcon, ShuffleIcon } from "./Icons";
+import SmartImage from "./SmartImage";
+
+interface BrowseDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  tracks: BrowseTrack[];
+  onPlay: (tracks: BrowseTrack[], shuffle: boolean, name: string) => void;
+  onPlayTrack: (track: BrowseTrack) => void;
+  onQueue: (tracks: BrowseTrack[]) => void;
+  accentColor: string;
+}
+
+const KIND_OPTIONS: { value: BrowseKind; label: string }[] = [
+  { value: "albums", label: "Albums" },
+  { value: "artists", label: "Artists" },
+];
+
+type RemoteState = { status: "loading" } | { status: "done"; songs: Song[] };
+
+const BrowseDialog: React.FC<BrowseDialogProps> = ({
+  isOpen,
+  onClose,
+  tracks,
+  onPlay,
+  onPlayTrack,
+  onQueue,
+  accentColor,
+}) => {
+  const [kind, setKind] = useState<BrowseKind>("albums");
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  // Full Netease track lists, fetched once per group
+  const [remote, setRemote] = useState<Map<string, RemoteState>>(
+    () => new Map(),
+  );
+
+  const groups = useMemo(
+    () => (kind === "albums" ? groupByAlbum(tracks) : groupByArtist(tracks)),
+    [kind, tracks],
+  );
+  const selected = groups.find((group) => group.id === selectedId) ?? null;
+
+  useEffect(() => {
+    if (!isOpen) setSelectedId(null);
+  }, [isOpen]);
+
+  useKeyboardScope(
+    (e: KeyboardEvent) => {
+      if (e.key === "Escape") {
+        e.preventDefault();
+        if (selectedId) setSelectedId(null);
+        else onClose();
+        return true;
+      }
+      return false;
+    },
+    100,
+    isOpen,
+  );
+
+  const openGroup = async (group: BrowseGroup) => {
+    setSelectedId(group.id);
+    const neteaseId = group.neteaseId;
+    if (!neteaseId || remote.has(group.id)) return;
+    setRemote((prev) => new Map(prev).set(group.id, { status: "loading" }));
+    const fetched =
+      kind === "albums"
+        ? await fetchNeteaseAlbum(neteaseId)
+        : await fetchNeteaseArtistSongs(neteaseId);
+    setRemote((prev) =>
+      new Map(prev).set(group.id, {
+        status: "done",
+        songs: fetched.map(neteaseTrackToSong),
+      }),
+    );
+  };
+
+  if (!isOpen) return null;
+
+  const remoteState = selected ? remote.get(selected.id) : undefined;
+  const selectedTracks = selected
+    ? remoteState?.status === "done"
+      ? mergeRemoteTracks(selected.tracks, remoteState.songs)
+      : selected.tracks
+    : [];
+
+  const renderCover = (coverUrl: string | undefined, name: string) =>
+    coverUrl ? (
+      <SmartImage
+        src={coverUrl}
+        alt={name}
+        containerClassName="w-full h-full"
+        imgClassName="w-full h-full object-cover"
+      />
+    ) : (
+      <div className="w-full h-full flex items-center justify-center text-3xl text-white/20">
+        ♪
+      </div>
+    );
+
+  return createPortal(
+    <div className="fixed inset-0 z-[9999] flex items-center justify-center px-4 select-none pointer-events-none">
+      <style>{`
+        @keyframes modal-in {
+            0% { opacity: 0; transform: scale(0.96) translateY(-8px); }
+            100% { opacity: 1; transform: scale(1) translateY(0); }
+        }
+        .dialog-in { animation: modal-in 0.2s cubic-bezier(0.2, 0.8, 0.2, 1) forwards; will-change: transform, opacity; }
+      `}</style>
+
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-black/20 backdrop-blur-sm pointer-events-auto"
+        onClick={onClose}
+      />
+
+      {/* Modal */}
+      <div
+        className="dialog-in relative w-full max-w-[640px] h-[80vh] flex flex-col bg-black/40 backdrop-blur-2xl saturate-150 border border-white/10 rounded-[32px] shadow-[0_30px_80px_rgba(0,0,0,0.45)] overflow-hidden ring-1 ring-white/5 pointer-events-auto text-white"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-6 pt-6 pb-4 border-b border-white/5 flex items-center justify-between gap-4">
+          <div className="min-w-0">
+            {selected ? (
+              <button
+                onClick={() => setSelectedId(null)}
+                className="text-xs font-medium text-white/50 hover:text-white transition-colors"
+              >
+                ‹ All {kind === "albums" ? "Albums" : "Artists"}
+              </button>
+            ) : (
+              <>
+                <h3 className="text-lg font-bold leading-none tracking-tight">
+                  Browse
+                </h3>
+                <span className="text-white/40 text-xs font-medium">
+                  From your queue and local files
+                </span>
+              </>
+            )}
+          </div>
+          <div className="grid grid-cols-2 gap-1 p-1 rounded-full bg-white/5 shrink-0">
+            {KIND_OPTIONS.map((option) => (
+              <button
+                key={option.value}
+                onClick={() => {
+                  setKind(option.value);
+                  setSelectedId(null);
+                }}
+                className={`px-3 py-1.5 rounded-full text-xs font-medium transition-colors ${kind === option.value ? "bg-white/20 text-white" : "text-white/50 hover:text-white"}`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 py-5">
+          {!selected ? (
+            groups.length === 0 ? (
+              <div className="flex flex-col items-center justify-center h-40 text-white/30">
+                <p className="text-xs font-medium">
+                  {kind === "albums"
+                    ? "No songs with album information yet"
+                    : "No songs yet"}
+                </p>
+              </div>
+            ) : (
+              <div className="grid grid-cols-2 sm:grid-cols-3 gap-4">
+                {groups.map((group) => (
+                  <button
+                    key={group.id}
+                    onClick={() => openGroup(group)}
+                    className="group flex flex-col gap-2 text-left"
+                  >
+                    <div
+                      className={`aspect-square w-full overflow-hidden bg-white/10 border border-white/5 shadow-md group-hover:shadow-xl transition-shadow ${kind === "artists" ? "rounded-full" : "rounded-2xl"}`}
+                    >
+                      {renderCover(group.coverUrl, group.name)}
+                    </div>
+                    <div className="min-w-0 px-1">
+                      <div className="text-[13px] font-semibold text-white/90 truncate">
+                        {group.name}
+                      </div>
+                      <div className="text-[11px] text-white/40 truncate">
+                        {group.subtitle}
+                      </div>
+                    </div>
+                  </button>
+                ))}
+              </div>
+            )
+          ) : (
+            <div className="flex flex-col gap-5">
+              {/* Header */}
+              <div className="flex items-center gap-4">
+                <div
+                  className={`w-28 h-28 flex-shrink-0 overflow-hidden bg-white/10 border border-white/5 shadow-lg ${kind === "artists" ? "rounded-full" : "rounded-2xl"}`}
+                >
+                  {renderCover(selected.coverUrl, selected.name)}
+                </div>
+                <div className="flex-1 min-w-0 flex flex-col gap-2">
+                  <div>
+                    <div className="text-xl font-bold truncate">
+                      {selected.name}
+                    </div>
+                    <div className="text-[13px] text-white/50 truncate">
+                      {kind === "albums"
+                        ? selected.subtitle
+                        : `${selectedTracks.length} songs`}
+                      {remoteState?.status === "loading" &&
+                        " · Loading from NetEase..."}
+                    </div>
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    <button
+                      onClick={() =>
+                        onPlay(selectedTracks, kind === "artists", selected.name)
+                      }
+                      className="flex items-center gap-1.5 px-3 py-1.5 rounded-full text-xs font-semibold text-white transition-opacity"
+                      style={{ backgroundColor: accentColor }}
+                    >
+                      {kind === "albums" ? (
+                        <>
+                          <PlayIcon className="w-3 h-3" />
+                          Play Album
+                        </>
+                      ) : (
+                        <>
+                          <ShuffleIcon className="w-3 h-3" />
+                          Shuffle Artist
+                        </>
+                      )}
+                    </button>
+                    <button
+                      onClick={() =>
+                        onPlay(selectedTracks, kind === "albums", selected.name)
+                      }
+                      className="px-3 py-1.5 rounded-full text-xs font-medium bg-white/10 text-white/80 hover:bg-white/20 transition-colors"
+                    >
+                      {kind === "albums" ? "Shuffle" : "Play in Order"}
+                    </button>
+                    <button
+                      onClick={() => onQueue(selectedTracks)}
+                      className="px-3 py-1.5 rounded-full text-xs font-medium bg-white/5 text-white/60 hover:bg-white/10 transition-colors"
+                    >
+                      Add to Queue
+                    </button>
+                  </div>
+                </div>
+              </div>
+
+              {/* Tracks */}
+              <div className="flex flex-col">
+                {selectedTracks.map((track, index) => (
+                  <div
+                    key={track.key}
+                    onClick={() => onPlayTrack(track)}
+                    className="group flex items-center gap-3 px-2 py-2 rounded-xl cursor-pointer hover:bg-white/5"
+                  >
+                    <span className="w-6 text-right text-[12px] font-mono text-white/40">
+                      {index + 1}
+                    </span>
+                    <div className="flex-1 min-w-0">
+                      <div className="text-[13px] text-white/90 truncate">
+                        {track.title}
+                      </div>
+                      <div className="text-[11px] text-white/40 truncate">
+                        {kind === "albums" ? track.artist : track.album ?? ""}
+                      </div>
+                    </div>
+                    {!track.song && !track.libraryEntry ? null : (
+                      <span
+                        className="text-[10px] font-bold px-1.5 py-0.5 rounded border border-white/10 text-white/30 bg-white/5"
+                        title={track.song?.isNetease ? "NetEase" : "On this device"}
+                      >
+                        {track.song?.isNetease ? "Cloud" : "Local"}
+                      </span>
+                    )}
+                    <span className="w-10 text-right text-[12px] font-mono text-white/40">
+                      {track.duration ? formatTime(track.duration) : ""}
+                    </span>
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        onQueue([track]);
+                      }}
+                      className="w-7 h-7 rounded-full flex items-center justify-center text-white/40 opacity-0 group-hover:opacity-100 hover:text-white hover:bg-white/10 transition-all"
+                      title="Add to Queue"
+                    >
+                      <PlusIcon className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="border-t border-white/10 bg-white/5 p-2">
+          <button
+            onClick={onClose}
+            className="w-full py-3.5 rounded-2xl text-[16px] font-semibold text-white/90 hover:bg-white/10 active:scale-[0.98] transition-all duration-200"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body,
+  );
+};
+
+export default BrowseDialog;
@@ -3,6 +3,7 @@ import { useSpring, animated, to } from "@react-spring/web";
 import { formatTime } from "../services/utils";
 import Visualizer from "./visualizer/Visualizer";
 import SmartImage from "./SmartImage";
+import VolumeControl from "./VolumeControl";
 import {
   LoopIcon,
   LoopOneIcon,
@@ -12,8 +13,12 @@ import {
   PrevIcon,
   NextIcon,
   QueueIcon,
+  SlidersIcon,
+  HeartIcon,
+  StarIcon,
 } from "./Icons";
-import { PlayMode } from "../types";
+import { MAX_RATING } from "../services/favorites";
+import { ABLoop, PlayMode } from "../types";
 
 interface ControlsProps {
   isPlaying: boolean;
@@ -29,9 +34,21 @@ interface ControlsProps {
   playMode: PlayMode;
   onToggleMode: () => void;
   onTogglePlaylist: () => void;
+  onToggleSettings: () => void;
   accentColor: string;
   coverUrl?: string;
   isBuffering: boolean;
+  abLoop: ABLoop;
+  volume: number;
+  isMuted: boolean;
+  onVolumeChange: (volume: number) => void;
+  onToggleMute: () => void;
+  songVolumeOffset: number | null; // null when nothing is loaded
+  onSongVolumeOffsetChange: (db: number) => void;
+  isLiked: boolean;
+  onToggleLike: () => void;
+  rating: number | null; // null when nothing is loaded
+  onRatingChange: (rating: number) => void;
 }
 
 const Controls: React.FC<ControlsProps> = ({
@@ -48,10 +65,24 @@ const Controls: React.FC<ControlsProps> = ({
   playMode,
   onToggleMode,
   onTogglePlaylist,
+  onToggleSettings,
   accentColor,
   coverUrl,
   isBuffering,
+  abLoop,
+  volume,
+  isMuted,
+  onVolumeChange,
+  onToggleMute,
+  songVolumeOffset,
+  onSongVolumeOffsetChange,
+  isLiked,
+  onToggleLike,
+  rating,
+  onRatingChange,
 }) => {
+  // Star under the pointer, previewing the rating a click would set
+  const [hoverRating, setHoverRating] = useState<number | null>(null);
 
   // Progress bar seeking state
   const [isSeeking, setIsSeeking] = useState(false);
@@ -120,9 +151,11 @@ const Controls: React.FC<ControlsProps> = ({
     return () => cancelAnimationFrame(animationFrameId);
   }, [currentTime, isPlaying, isSeeking, duration, isWaitingForSeek]);
 
-  // Update buffered time range from audio element
+  // Update buffered time range from audio element. The player swaps the active
+  // element between songs, so re-subscribe whenever it changes.
+  const activeAudio = audioRef.current;
   useEffect(() => {
-    const audio = audioRef.current;
+    const audio = activeAudio;
     if (!audio) return;
 
     const updateBuffered = () => {
@@ -169,7 +202,7 @@ const Controls: React.FC<ControlsProps> = ({
       audio.removeEventListener("emptied", handleEmptied);
       audio.removeEventListener("loadstart", handleEmptied);
     };
-  }, [audioRef]);
+  }, [activeAudio]);
 
   const displayTime = isSeeking ? seekTime : interpolatedTime;
 
@@ -286,6 +319,39 @@ const Controls: React.FC<ControlsProps> = ({
         </p>
       </div>
 
+      {/* Like & Rating */}
+      {rating !== null && (
+        <div className="flex items-center gap-3 -mt-1">
+          <button
+            onClick={onToggleLike}
+            className={`p-1 rounded-full transition-colors active:scale-90 ${isLiked ? "" : "text-white/40 hover:text-white"}`}
+            style={isLiked ? { color: accentColor } : undefined}
+            title={isLiked ? "Remove from Liked Songs" : "Add to Liked Songs"}
+          >
+            <HeartIcon className="w-5 h-5" filled={isLiked} />
+          </button>
+          <div
+            className="flex items-center"
+            onMouseLeave={() => setHoverRating(null)}
+          >
+            {Array.from({ length: MAX_RATING }, (_, i) => i + 1).map((star) => {
+              const shown = hoverRating ?? rating;
+              return (
+                <button
+                  key={star}
+                  onClick={() => onRatingChange(star === rating ? 0 : star)}
+                  onMouseEnter={() => setHoverRating(star)}
+                  className={`p-0.5 transition-colors ${star <= shown ? "text-white/90" : "text-white/25"}`}
+                  title={star === rating ? "Clear rating" : `Rate ${star} of ${MAX_RATING}`}
+                >
+                  <StarIcon className="w-4 h-4" filled={star <= shown} />
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
       {/* Spectrum Visualizer */}
       <div className="w-full flex justify-center h-8 mb-2">
         <Visualizer audioRef={audioRef} isPlaying={isPlaying} />
@@ -319,6 +385,34 @@ const Controls: React.FC<ControlsProps> = ({
             }}
           ></div>
 
+          {/* A-B Loop */}
+          {abLoop.start !== null && abLoop.end !== null && (
+            <div
+              className="absolute h-[3px] rounded-full group-hover:h-[6px] transition-[height] duration-200 ease-out pointer-events-none"
+              style={{
+                left: `${(abLoop.start / (duration || 1)) * 100}%`,
+                width: `${((abLoop.end - abLoop.start) / (duration || 1)) * 100}%`,
+                backgroundColor: accentColor,
+                opacity: 0.6,
+              }}
+            ></div>
+          )}
+          {[abLoop.start, abLoop.end].map(
+            (point, i) =>
+              point !== null && (
+                <div
+                  key={i}
+                  className="absolute top-0 -translate-x-1/2 flex flex-col items-center pointer-events-none"
+                  style={{ left: `${(point / (duration || 1)) * 100}%` }}
+                >
+                  <span className="text-[9px] font-bold leading-none text-white/80">
+                    {i === 0 ? "A" : "B"}
+                  </span>
+                  <div className="w-[2px] h-3 mt-0.5 rounded-full bg-white/80" />
+                </div>
+              ),
+          )}
+
           {/* Input Range */}
           <input
             type="range"
@@ -380,7 +474,16 @@ const Controls: React.FC<ControlsProps> = ({
             {getModeIcon()}
           </button>
 
-
+          {/* 2. Volume */}
+          <VolumeControl
+            volume={volume}
+            isMuted={isMuted}
+            onVolumeChange={onVolumeChange}
+            onToggleMute={onToggleMute}
+            songVolumeOffset={songVolumeOffset}
+            onSongVolumeOffsetChange={onSongVolumeOffsetChange}
+            accentColor={accentColor}
+          />
 
           {/* 3. Previous */}
           <button
@@ -423,7 +526,14 @@ const Controls: React.FC<ControlsProps> = ({
             <NextIcon className="w-9 h-9" />
           </button>
 
-
+          {/* 6. Playback Settings */}
+          <button
+            onClick={onToggleSettings}
+            className="p-2 rounded-full hover:bg-white/10 transition-colors text-white/60 hover:text-white"
+            title="Playback Settings"
+          >
+            <SlidersIcon className="w-5 h-5" />
+          </button>
 
           {/* 7. Playlist/Queue */}
           <button
@@ -0,0 +1,341 @@
+import React, { useState } from "react";
+import { createPortal } from "react-dom";
+import { useKeyboardScope } from "../hooks/useKeyboardScope";
+import {
+  CUSTOM_PRESET_ID,
+  EQ_GAIN_RANGE,
+  EQ_MAX_FREQUENCY,
+  EQ_MAX_Q,
+  EQ_MIN_FREQUENCY,
+  EQ_MIN_Q,
+  EQ_PRESETS,
+  EqBand,
+  EffectsSettings,
+  ReverbSettings,
+} from "../services/effects";
+
+interface EffectsDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  effects: EffectsSettings;
+  onToggleEq: (enabled: boolean) => void;
+  onApplyPreset: (presetId: string) => void;
+  onUpdateBand: (index: number, patch: Partial<EqBand>) => void;
+  onPreampChange: (db: number) => void;
+  onToggleLimiter: (enabled: boolean) => void;
+  onUpdateReverb: (patch: Partial<ReverbSettings>) => void;
+  onReset: () => void;
+  accentColor: string;
+}
+
+const formatFrequency = (hz: number) =>
+  hz >= 1000 ? `${+(hz / 1000).toFixed(1)}k` : `${Math.round(hz)}`;
+
+const formatGain = (db: number) => `${db > 0 ? "+" : ""}${db.toFixed(1)} dB`;
+
+const LOG_MIN_FREQUENCY = Math.log10(EQ_MIN_FREQUENCY);
+const LOG_MAX_FREQUENCY = Math.log10(EQ_MAX_FREQUENCY);
+
+const EffectsDialog: React.FC<EffectsDialogProps> = ({
+  isOpen,
+  onClose,
+  effects,
+  onToggleEq,
+  onApplyPreset,
+  onUpdateBand,
+  onPreampChange,
+  onToggleLimiter,
+  onUpdateReverb,
+  onReset,
+  accentColor,
+}) => {
+  const [selectedBand, setSelectedBand] = useState(0);
+
+  useKeyboardScope(
+    (e: KeyboardEvent) => {
+      if (e.key === "Escape") {
+        e.preventDefault();
+        onClose();
+        return true;
+      }
+      return false;
+    },
+    100,
+    isOpen,
+  );
+
+  if (!isOpen) return null;
+
+  const band = effects.bands[selectedBand] ?? effects.bands[0];
+
+  return createPortal(
+    <div className="fixed inset-0 z-[9999] flex items-center justify-center px-4 select-none pointer-events-none">
+      <style>{`
+        @keyframes modal-in {
+            0% { opacity: 0; transform: scale(0.96) translateY(-8px); }
+            100% { opacity: 1; transform: scale(1) translateY(0); }
+        }
+        .dialog-in { animation: modal-in 0.2s cubic-bezier(0.2, 0.8, 0.2, 1) forwards; will-change: transform, opacity; }
+        .eq-slider { writing-mode: vertical-lr; direction: rtl; }
+      `}</style>
+
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-black/20 backdrop-blur-sm pointer-events-auto"
+        onClick={onClose}
+      />
+
+      {/* Modal */}
+      <div
+        className="dialog-in relative w-full max-w-[560px] max-h-[90vh] flex flex-col bg-black/40 backdrop-blur-2xl saturate-150 border border-white/10 rounded-[32px] shadow-[0_30px_80px_rgba(0,0,0,0.45)] overflow-hidden ring-1 ring-white/5 pointer-events-auto text-white"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-6 pt-6 pb-4 border-b border-white/5 flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-bold leading-none tracking-tight">
+              Equalizer & Effects
+            </h3>
+            <span className="text-white/40 text-xs font-medium">
+              Applied to everything you play
+            </span>
+          </div>
+          <label className="flex items-center gap-2 text-sm text-white/70 cursor-pointer">
+            <span>Equalizer</span>
+            <input
+              type="checkbox"
+              checked={effects.eqEnabled}
+              onChange={(e) => onToggleEq(e.target.checked)}
+              style={{ accentColor }}
+            />
+          </label>
+        </div>
+
+        <div className="px-6 py-5 flex flex-col gap-6 overflow-y-auto">
+          {/* Presets */}
+          <div className="flex flex-wrap gap-2">
+            {EQ_PRESETS.map((preset) => {
+              const isActive = effects.presetId === preset.id;
+              return (
+                <button
+                  key={preset.id}
+                  onClick={() => onApplyPreset(preset.id)}
+                  className={`px-3 py-1.5 rounded-full text-xs font-medium transition-colors ${isActive ? "bg-white/20 text-white" : "bg-white/5 text-white/60 hover:bg-white/10"}`}
+                >
+                  {preset.name}
+                </button>
+              );
+            })}
+            {effects.presetId === CUSTOM_PRESET_ID && (
+              <span className="px-3 py-1.5 rounded-full text-xs font-medium bg-white/20 text-white">
+                Custom
+              </span>
+            )}
+          </div>
+
+          {/* Bands */}
+          <div
+            className={`flex justify-between gap-1 transition-opacity ${effects.eqEnabled ? "" : "opacity-40"}`}
+          >
+            {effects.bands.map((item, index) => (
+              <div
+                key={index}
+                className="flex flex-col items-center gap-2 flex-1 min-w-0"
+              >
+                <span className="text-[10px] font-mono text-white/50">
+                  {item.gain > 0 ? "+" : ""}
+                  {Math.round(item.gain)}
+                </span>
+                <input
+                  type="range"
+                  min={-EQ_GAIN_RANGE}
+                  max={EQ_GAIN_RANGE}
+                  step={0.5}
+                  value={item.gain}
+                  onChange={(e) =>
+                    onUpdateBand(index, { gain: parseFloat(e.target.value) })
+                  }
+                  onFocus={() => setSelectedBand(index)}
+                  className="eq-slider h-32 w-5"
+                  style={{ accentColor }}
+                  aria-label={`${formatFrequency(item.frequency)} Hz gain`}
+                />
+                <button
+                  onClick={() => setSelectedBand(index)}
+                  className={`text-[10px] font-mono px-1 rounded transition-colors ${selectedBand === index ? "bg-white/20 text-white" : "text-white/50 hover:text-white"}`}
+                >
+                  {formatFrequency(item.frequency)}
+                </button>
+              </div>
+            ))}
+          </div>
+
+          {/* Selected band */}
+          {band && (
+            <div className="grid grid-cols-2 gap-4 p-4 rounded-2xl bg-white/5">
+              <div className="flex flex-col gap-2">
+                <div className="flex items-center justify-between text-sm">
+                  <span className="text-white/70 font-medium">Frequency</span>
+                  <span className="font-mono text-white/90">
+                    {formatFrequency(band.frequency)} Hz
+                  </span>
+                </div>
+                <input
+                  type="range"
+                  min={LOG_MIN_FREQUENCY}
+                  max={LOG_MAX_FREQUENCY}
+                  step={0.005}
+                  value={Math.log10(band.frequency)}
+                  onChange={(e) =>
+                    onUpdateBand(selectedBand, {
+                      frequency: Math.round(Math.pow(10, parseFloat(e.target.value))),
+                    })
+                  }
+                  className="w-full"
+                  style={{ accentColor }}
+                />
+              </div>
+              <div className="flex flex-col gap-2">
+                <div className="flex items-center justify-between text-sm">
+                  <span className="text-white/70 font-medium">
+                    {band.type === "peaking" ? "Q" : "Slope"}
+                  </span>
+                  <span className="font-mono text-white/90">
+                    {band.q.toFixed(2)}
+                  </span>
+                </div>
+                <input
+                  type="range"
+                  min={EQ_MIN_Q}
+                  max={EQ_MAX_Q}
+                  step={0.01}
+                  value={band.q}
+                  onChange={(e) =>
+                    onUpdateBand(selectedBand, { q: parseFloat(e.target.value) })
+                  }
+                  className="w-full"
+                  style={{ accentColor }}
+                />
+              </div>
+            </div>
+          )}
+
+          {/* Preamp */}
+          <div className="flex flex-col gap-2">
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-white/70 font-medium">Preamp</span>
+              <button
+                onClick={() => onPreampChange(0)}
+                className="font-mono text-white/90 hover:text-white transition-colors"
+                title="Reset preamp"
+              >
+                {formatGain(effects.preamp)}
+              </button>
+            </div>
+            <input
+              type="range"
+              min={-EQ_GAIN_RANGE}
+              max={EQ_GAIN_RANGE}
+              step={0.5}
+              value={effects.preamp}
+              onChange={(e) => onPreampChange(parseFloat(e.target.value))}
+              className="w-full"
+              style={{ accentColor }}
+            />
+          </div>
+
+          {/* Limiter */}
+          <label className="flex items-center justify-between text-sm cursor-pointer">
+            <div className="flex flex-col">
+              <span className="text-white/70 font-medium">Limiter</span>
+              <span className="text-[12px] text-white/40">
+                Prevents clipping when boosting
+              </span>
+            </div>
+            <input
+              type="checkbox"
+              checked={effects.limiterEnabled}
+              onChange={(e) => onToggleLimiter(e.target.checked)}
+              style={{ accentColor }}
+            />
+          </label>
+
+          {/* Reverb */}
+          <div className="flex flex-col gap-3">
+            <label className="flex items-center justify-between text-sm cursor-pointer">
+              <span className="text-white/70 font-medium">Reverb</span>
+              <input
+                type="checkbox"
+                checked={effects.reverb.enabled}
+                onChange={(e) => onUpdateReverb({ enabled: e.target.checked })}
+                style={{ accentColor }}
+              />
+            </label>
+            <div
+              className={`grid grid-cols-2 gap-4 transition-opacity ${effects.reverb.enabled ? "" : "opacity-40 pointer-events-none"}`}
+            >
+              <div className="flex flex-col gap-2">
+                <div className="flex items-center justify-between text-[13px]">
+                  <span className="text-white/50">Mix</span>
+                  <span className="font-mono text-white/80">
+                    {Math.round(effects.reverb.mix * 100)}%
+                  </span>
+                </div>
+                <input
+                  type="range"
+                  min={0}
+                  max={1}
+                  step={0.01}
+                  value={effects.reverb.mix}
+                  onChange={(e) =>
+                    onUpdateReverb({ mix: parseFloat(e.target.value) })
+                  }
+                  className="w-full"
+                  style={{ accentColor }}
+                />
+              </div>
+              <div className="flex flex-col gap-2">
+                <div className="flex items-center justify-between text-[13px]">
+                  <span className="text-white/50">Decay</span>
+                  <span className="font-mono text-white/80">
+                    {effects.reverb.decay.toFixed(1)}s
+                  </span>
+                </div>
+                <input
+                  type="range"
+                  min={0.3}
+                  max={8}
+                  step={0.1}
+                  value={effects.reverb.decay}
+                  onChange={(e) =>
+                    onUpdateReverb({ decay: parseFloat(e.target.value) })
+                  }
+                  className="w-full"
+                  style={{ accentColor }}
+                />
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="border-t border-white/10 bg-white/5 p-2 grid grid-cols-2 gap-2">
+          <button
+            onClick={onReset}
+            className="py-3.5 rounded-2xl text-[16px] font-semibold text-white/60 hover:bg-white/10 active:scale-[0.98] transition-all duration-200"
+          >
+            Reset
+          </button>
+          <button
+            onClick={onClose}
+            className="py-3.5 rounded-2xl text-[16px] font-semibold text-white/90 hover:bg-white/10 active:scale-[0.98] transition-all duration-200"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body,
+  );
+};
+
+export default EffectsDialog;
@@ -1,19 +1,30 @@
-import React, { useState } from "react";
+import React, { useRef, useState } from "react";
 import { createPortal } from "react-dom";
 import { CloudUploadIcon } from "./Icons";
+import { getProviders } from "../services/providers";
+
+const LINK_LABELS = getProviders().map((provider) => provider.linkLabel);
+const SUPPORTED_LINKS =
+  LINK_LABELS.length > 1
+    ? `${LINK_LABELS.slice(0, -1).join(", ")}, or ${LINK_LABELS[LINK_LABELS.length - 1]}`
+    : LINK_LABELS.join("");
 
 interface ImportMusicDialogProps {
   isOpen: boolean;
   onClose: () => void;
   onImport: (url: string) => Promise<boolean>;
+  // Playlist files (M3U/M3U8, PLS, XSPF) plus any audio files they refer to
+  onImportFiles: (files: FileList) => void;
 }
 
 const ImportMusicDialog: React.FC<ImportMusicDialogProps> = ({
   isOpen,
   onClose,
   onImport,
+  onImportFiles,
 }) => {
   const [importUrl, setImportUrl] = useState("");
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const [isLoading, setIsLoading] = useState(false);
 
   const handleImport = async () => {
@@ -31,6 +42,15 @@ const ImportMusicDialog: React.FC<ImportMusicDialogProps> = ({
     }
   };
 
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = e.target.files;
+    if (files && files.length > 0) {
+      setImportUrl("");
+      onImportFiles(files);
+    }
+    e.target.value = "";
+  };
+
   const handleClose = () => {
     setImportUrl("");
     onClose();
@@ -63,7 +83,7 @@ const ImportMusicDialog: React.FC<ImportMusicDialogProps> = ({
           <p className="text-white/60 text-[15px] mt-2 leading-relaxed px-2">
             Paste a song or playlist link from{" "}
             <span className="text-white/90 font-medium">
-              NetEase, QQ Music, Baidu Music, Kugou Music, or Xiami Music
+              {SUPPORTED_LINKS}
             </span>{" "}
             to add to queue.
           </p>
@@ -82,6 +102,25 @@ const ImportMusicDialog: React.FC<ImportMusicDialogProps> = ({
               }
             }}
           />
+
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isLoading}
+            className="mt-4 text-[13px] text-white/50 hover:text-white/80 transition-colors"
+          >
+            Or open an M3U, PLS or XSPF file
+            <span className="block text-[11px] text-white/30">
+              Select its audio files along with it to play local entries
+            </span>
+          </button>
+          <input
+            type="file"
+            ref={fileInputRef}
+            onChange={handleFileChange}
+            accept=".m3u,.m3u8,.pls,.xspf,audio/*,.lrc"
+            multiple
+            className="hidden"
+          />
         </div>
 
         {/* Action Buttons (iOS Style) */}
@@ -12,6 +12,12 @@ interface KeyboardShortcutsProps {
   duration: number;
   onToggleMode: () => void;
   onTogglePlaylist: () => void;
+  onSetLoopStart: () => void;
+  onSetLoopEnd: () => void;
+  onClearLoop: () => void;
+  onCycleSleepTimer: () => void;
+  onAdjustVolume: (delta: number) => void;
+  onToggleMute: () => void;
 }
 
 const KeyboardShortcuts: React.FC<KeyboardShortcutsProps> = ({
@@ -24,6 +30,12 @@ const KeyboardShortcuts: React.FC<KeyboardShortcutsProps> = ({
   duration,
   onToggleMode,
   onTogglePlaylist,
+  onSetLoopStart,
+  onSetLoopEnd,
+  onClearLoop,
+  onCycleSleepTimer,
+  onAdjustVolume,
+  onToggleMute,
 }) => {
   const [isOpen, setIsOpen] = useState(false);
   const [isVisible, setIsVisible] = useState(false);
@@ -92,12 +104,44 @@ const KeyboardShortcuts: React.FC<KeyboardShortcutsProps> = ({
           }
           return true;
 
+        case "ArrowUp":
+          e.preventDefault();
+          onAdjustVolume(0.05);
+          return true;
+        case "ArrowDown":
+          e.preventDefault();
+          onAdjustVolume(-0.05);
+          return true;
+        case "m":
+        case "M":
+          e.preventDefault();
+          onToggleMute();
+          return true;
+
         case "l":
         case "L":
           e.preventDefault();
           onToggleMode();
           return true;
 
+        case "t":
+        case "T":
+          e.preventDefault();
+          onCycleSleepTimer();
+          return true;
+
+        case "[":
+          e.preventDefault();
+          onSetLoopStart();
+          return true;
+        case "]":
+          e.preventDefault();
+          onSetLoopEnd();
+          return true;
+        case "\\":
+          e.preventDefault();
+          onClearLoop();
+          return true;
       }
 
       return false;
@@ -180,8 +224,14 @@ return createPortal(
           <div className="grid grid-cols-1 md:grid-cols-2 gap-x-12 gap-y-4">
             <ShortcutItem keys={["Space"]} label="Play / Pause" />
             <ShortcutItem keys={["L"]} label="Loop Mode" />
+            <ShortcutItem keys={["T"]} label="Sleep Timer" />
             <ShortcutItem keys={["←", "→"]} label="Seek ±5s" />
             <ShortcutItem keys={["Ctrl", "←/→"]} label="Prev / Next Song" />
+            <ShortcutItem keys={["↑", "↓"]} label="Volume ±5%" />
+            <ShortcutItem keys={["M"]} label="Mute" />
+            <ShortcutItem keys={["[", "]"]} label="Set Loop A / B" />
+            <ShortcutItem keys={["\\"]} label="Clear A-B Loop" />
+            <ShortcutItem keys={["Alt", "Click"]} label="Loop Lyric Line" />
 
             <ShortcutItem keys={["Ctrl", "K"]} label="Search" />
             <ShortcutItem keys={["Ctrl", "P"]} label="Toggle Playlist" />
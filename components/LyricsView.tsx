@@ -12,6 +12,8 @@ interface LyricsViewProps {
   isPlaying: boolean;
   currentTime: number;
   onSeekRequest: (time: number, immediate?: boolean) => void;
+  // Alt-click loops a line; with Shift it extends the current loop instead
+  onLoopRangeRequest?: (start: number, end: number, extend: boolean) => void;
   matchStatus: "idle" | "matching" | "success" | "failed";
 }
 
@@ -21,6 +23,7 @@ const LyricsView: React.FC<LyricsViewProps> = ({
   isPlaying,
   currentTime,
   onSeekRequest,
+  onLoopRangeRequest,
   matchStatus,
 }) => {
   const [isMobile, setIsMobile] = useState(false);
@@ -454,6 +457,15 @@ const LyricsView: React.FC<LyricsViewProps> = ({
 
   const canvasRef = useCanvasRenderer({ onRender: render });
 
+  // A line lasts until the next one starts, or until its last word ends
+  const getLineEndTime = (index: number) => {
+    const next = lyrics.slice(index + 1).find((line) => !line.isMetadata);
+    if (next) return next.time;
+    const words = lyrics[index].words;
+    const lastWord = words && words[words.length - 1];
+    return lastWord ? lastWord.endTime : lyrics[index].time + 5;
+  };
+
   const handleClick = (e: React.MouseEvent) => {
     const rect = e.currentTarget.getBoundingClientRect();
     const clickY = e.clientY - rect.top;
@@ -472,6 +484,12 @@ const LyricsView: React.FC<LyricsViewProps> = ({
       const h = lyricLines[i].getCurrentHeight();
 
       if (clickY >= visualY && clickY <= visualY + h) {
+        if (e.altKey && onLoopRangeRequest) {
+          onLoopRangeRequest(lyrics[i].time, getLineEndTime(i), e.shiftKey);
+          handlers.onClick();
+          matched = true;
+          break;
+        }
         onSeekRequest(lyrics[i].time, true);
         if (isMobile) {
           setMobileHoverIndex(i);
@@ -0,0 +1,432 @@
+import React, { useEffect, useRef, useState } from "react";
+import { useTransition, animated } from "@react-spring/web";
+import { useKeyboardScope } from "../hooks/useKeyboardScope";
+import { ABLoop, NormalizationMode, SleepTimer } from "../types";
+import { formatTime } from "../services/utils";
+
+interface PlaybackSettingsProps {
+  isOpen: boolean;
+  onClose: () => void;
+  speed: number;
+  onSpeedChange: (speed: number) => void;
+  preservesPitch: boolean;
+  onTogglePreservesPitch: () => void;
+  pitch: number;
+  onPitchChange: (semitones: number) => void;
+  crossfade: number;
+  onCrossfadeChange: (seconds: number) => void;
+  smartShuffle: boolean;
+  onSmartShuffleChange: (enabled: boolean) => void;
+  abLoop: ABLoop;
+  abLoopPass: number;
+  abLoopRepeats: number;
+  onAbLoopRepeatsChange: (repeats: number) => void;
+  abLoopSpeedStep: number;
+  onAbLoopSpeedStepChange: (step: number) => void;
+  onClearLoop: () => void;
+  sleepTimer: SleepTimer | null;
+  onStartSleepTimer: (timer: SleepTimer) => void;
+  onCancelSleepTimer: () => void;
+  normalization: NormalizationMode;
+  onNormalizationChange: (mode: NormalizationMode) => void;
+  onOpenEffects: () => void;
+  accentColor: string;
+}
+
+const SPEED_MIN = 0.5;
+const SPEED_MAX = 2;
+const PITCH_RANGE = 12;
+const CROSSFADE_MAX = 12;
+
+const LOOP_REPEAT_OPTIONS = [0, 2, 3, 5, 10, 20]; // 0 = until cleared
+const LOOP_SPEED_STEP_OPTIONS = [0, 0.02, 0.05, 0.1];
+
+const SLEEP_MINUTES_OPTIONS = [15, 30, 45, 60, 90];
+
+const NORMALIZATION_OPTIONS: { value: NormalizationMode; label: string }[] = [
+  { value: "off", label: "Off" },
+  { value: "track", label: "Track" },
+  { value: "album", label: "Album" },
+];
+
+const formatSemitones = (value: number) =>
+  value === 0 ? "0 st" : `${value > 0 ? "+" : ""}${value} st`;
+
+const PlaybackSettings: React.FC<PlaybackSettingsProps> = ({
+  isOpen,
+  onClose,
+  speed,
+  onSpeedChange,
+  preservesPitch,
+  onTogglePreservesPitch,
+  pitch,
+  onPitchChange,
+  crossfade,
+  onCrossfadeChange,
+  smartShuffle,
+  onSmartShuffleChange,
+  abLoop,
+  abLoopPass,
+  abLoopRepeats,
+  onAbLoopRepeatsChange,
+  abLoopSpeedStep,
+  onAbLoopSpeedStepChange,
+  onClearLoop,
+  sleepTimer,
+  onStartSleepTimer,
+  onCancelSleepTimer,
+  normalization,
+  onNormalizationChange,
+  onOpenEffects,
+  accentColor,
+}) => {
+  const panelRef = useRef<HTMLDivElement>(null);
+  const [sleepSongCount, setSleepSongCount] = useState(3);
+  const [now, setNow] = useState(Date.now());
+
+  // Tick the countdown while it is visible
+  const isCountingDown = isOpen && sleepTimer?.mode === "duration";
+  useEffect(() => {
+    if (!isCountingDown) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [isCountingDown]);
+
+  const describeSleepTimer = (timer: SleepTimer) => {
+    switch (timer.mode) {
+      case "duration":
+        return `Stops in ${formatTime(Math.max(0, (timer.endsAt - now) / 1000))}`;
+      case "endOfSong":
+        return "Stops at the end of this song";
+      case "afterSongs":
+        return timer.remaining === 1
+          ? "Stops after this song"
+          : `Stops after ${timer.remaining} songs`;
+    }
+  };
+
+  useKeyboardScope(
+    (e: KeyboardEvent) => {
+      if (e.key === "Escape") {
+        e.preventDefault();
+        onClose();
+        return true;
+      }
+      return false;
+    },
+    100,
+    isOpen,
+  );
+
+  // Close on click outside
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClickOutside = (event: MouseEvent) => {
+      if (panelRef.current && !panelRef.current.contains(event.target as Node)) {
+        onClose();
+      }
+    };
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, [isOpen, onClose]);
+
+  const transitions = useTransition(isOpen, {
+    from: { opacity: 0, transform: "translateY(20px) scale(0.95)" },
+    enter: { opacity: 1, transform: "translateY(0px) scale(1)" },
+    leave: { opacity: 0, transform: "translateY(20px) scale(0.95)" },
+    config: { tension: 280, friction: 24 },
+  });
+
+  return transitions(
+    (style, item) =>
+      item && (
+        <animated.div
+          ref={panelRef}
+          style={style}
+          className="absolute bottom-24 -right-8 z-50 w-[320px] bg-black/10 backdrop-blur-[100px] saturate-150 rounded-[32px] shadow-[0_20px_50px_rgba(0,0,0,0.3)] border border-white/5 flex flex-col overflow-hidden origin-bottom-right text-white"
+          onClick={(e) => e.stopPropagation()}
+        >
+          <div className="px-5 pt-5 pb-3 border-b border-white/5">
+            <h3 className="text-lg font-bold leading-none tracking-tight">
+              Playback
+            </h3>
+            <span className="text-white/40 text-xs font-medium">
+              Speed, pitch and transitions
+            </span>
+          </div>
+
+          <div className="px-5 py-4 flex flex-col gap-5 max-h-[60vh] overflow-y-auto">
+            {/* Speed */}
+            <div className="flex flex-col gap-2">
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-white/70 font-medium">Speed</span>
+                <button
+                  onClick={() => onSpeedChange(1)}
+                  className="font-mono text-white/90 hover:text-white transition-colors"
+                  title="Reset speed"
+                >
+                  {speed.toFixed(2)}x
+                </button>
+              </div>
+              <input
+                type="range"
+                min={SPEED_MIN}
+                max={SPEED_MAX}
+                step={0.05}
+                value={speed}
+                onChange={(e) => onSpeedChange(parseFloat(e.target.value))}
+                className="w-full"
+                style={{ accentColor }}
+              />
+              <label className="flex items-center justify-between text-[13px] text-white/50 cursor-pointer">
+                <span>Keep pitch when changing speed</span>
+                <input
+                  type="checkbox"
+                  checked={preservesPitch}
+                  onChange={onTogglePreservesPitch}
+                  style={{ accentColor }}
+                />
+              </label>
+            </div>
+
+            {/* Pitch */}
+            <div className="flex flex-col gap-2">
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-white/70 font-medium">Pitch</span>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => onPitchChange(pitch - 1)}
+                    disabled={pitch <= -PITCH_RANGE}
+                    className="w-7 h-7 rounded-full bg-white/10 hover:bg-white/20 disabled:opacity-30 transition-colors"
+                    aria-label="Lower pitch"
+                  >
+                    −
+                  </button>
+                  <button
+                    onClick={() => onPitchChange(0)}
+                    className="w-14 font-mono text-white/90 hover:text-white transition-colors"
+                    title="Reset pitch"
+                  >
+                    {formatSemitones(pitch)}
+                  </button>
+                  <button
+                    onClick={() => onPitchChange(pitch + 1)}
+                    disabled={pitch >= PITCH_RANGE}
+                    className="w-7 h-7 rounded-full bg-white/10 hover:bg-white/20 disabled:opacity-30 transition-colors"
+                    aria-label="Raise pitch"
+                  >
+                    +
+                  </button>
+                </div>
+              </div>
+              <input
+                type="range"
+                min={-PITCH_RANGE}
+                max={PITCH_RANGE}
+                step={1}
+                value={pitch}
+                onChange={(e) => onPitchChange(parseInt(e.target.value, 10))}
+                className="w-full"
+                style={{ accentColor }}
+              />
+            </div>
+
+            {/* Crossfade */}
+            <div className="flex flex-col gap-2">
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-white/70 font-medium">Crossfade</span>
+                <span className="font-mono text-white/90">
+                  {crossfade === 0 ? "Gapless" : `${crossfade}s`}
+                </span>
+              </div>
+              <input
+                type="range"
+                min={0}
+                max={CROSSFADE_MAX}
+                step={1}
+                value={crossfade}
+                onChange={(e) => onCrossfadeChange(parseInt(e.target.value, 10))}
+                className="w-full"
+                style={{ accentColor }}
+              />
+            </div>
+
+            {/* Smart shuffle */}
+            <label className="flex items-center justify-between text-sm cursor-pointer">
+              <div className="flex flex-col">
+                <span className="text-white/70 font-medium">Smart Shuffle</span>
+                <span className="text-[12px] text-white/40">
+                  Spreads out songs by the same artist or album
+                </span>
+              </div>
+              <input
+                type="checkbox"
+                checked={smartShuffle}
+                onChange={(e) => onSmartShuffleChange(e.target.checked)}
+                style={{ accentColor }}
+              />
+            </label>
+
+            {/* A-B loop */}
+            <div className="flex flex-col gap-2">
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-white/70 font-medium">A-B Loop</span>
+                {abLoop.start !== null ? (
+                  <button
+                    onClick={onClearLoop}
+                    className="text-xs text-white/50 hover:text-white transition-colors"
+                  >
+                    Clear
+                  </button>
+                ) : null}
+              </div>
+              <div className="text-[13px] font-mono text-white/90">
+                {abLoop.start === null ? (
+                  <span className="font-sans text-white/40">
+                    Press [ and ] to set points, or Alt-click a lyric line
+                  </span>
+                ) : (
+                  <>
+                    A {formatTime(abLoop.start)} · B{" "}
+                    {abLoop.end !== null ? formatTime(abLoop.end) : "--:--"}
+                    {abLoop.end !== null && (
+                      <span className="text-white/40">
+                        {" "}
+                        · pass {abLoopPass + 1}
+                        {abLoopRepeats > 0 ? `/${abLoopRepeats}` : ""}
+                      </span>
+                    )}
+                  </>
+                )}
+              </div>
+              <div className="grid grid-cols-2 gap-2 text-[13px] text-white/50">
+                <label className="flex items-center justify-between gap-2">
+                  <span>Repeat</span>
+                  <select
+                    value={abLoopRepeats}
+                    onChange={(e) => onAbLoopRepeatsChange(parseInt(e.target.value, 10))}
+                    className="bg-white/10 rounded-lg px-2 py-1 text-white outline-none"
+                  >
+                    {LOOP_REPEAT_OPTIONS.map((count) => (
+                      <option key={count} value={count} className="bg-neutral-900">
+                        {count === 0 ? "∞" : `${count}×`}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className="flex items-center justify-between gap-2">
+                  <span>Speed up</span>
+                  <select
+                    value={abLoopSpeedStep}
+                    onChange={(e) => onAbLoopSpeedStepChange(parseFloat(e.target.value))}
+                    className="bg-white/10 rounded-lg px-2 py-1 text-white outline-none"
+                  >
+                    {LOOP_SPEED_STEP_OPTIONS.map((step) => (
+                      <option key={step} value={step} className="bg-neutral-900">
+                        {step === 0 ? "Off" : `+${step}x`}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+            </div>
+
+            {/* Sleep timer */}
+            <div className="flex flex-col gap-2">
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-white/70 font-medium">Sleep Timer</span>
+                {sleepTimer && (
+                  <button
+                    onClick={onCancelSleepTimer}
+                    className="text-xs text-white/50 hover:text-white transition-colors"
+                  >
+                    Cancel
+                  </button>
+                )}
+              </div>
+              {sleepTimer && (
+                <span className="text-[13px] font-mono text-white/90">
+                  {describeSleepTimer(sleepTimer)}
+                </span>
+              )}
+              <div className="flex flex-wrap gap-1.5">
+                {SLEEP_MINUTES_OPTIONS.map((minutes) => (
+                  <button
+                    key={minutes}
+                    onClick={() =>
+                      onStartSleepTimer({
+                        mode: "duration",
+                        endsAt: Date.now() + minutes * 60 * 1000,
+                      })
+                    }
+                    className="px-2.5 py-1 rounded-full text-xs font-medium bg-white/5 text-white/60 hover:bg-white/10 hover:text-white transition-colors"
+                  >
+                    {minutes}m
+                  </button>
+                ))}
+                <button
+                  onClick={() => onStartSleepTimer({ mode: "endOfSong" })}
+                  className="px-2.5 py-1 rounded-full text-xs font-medium bg-white/5 text-white/60 hover:bg-white/10 hover:text-white transition-colors"
+                >
+                  End of song
+                </button>
+              </div>
+              <div className="flex items-center justify-between text-[13px] text-white/50">
+                <span>After</span>
+                <input
+                  type="number"
+                  min={1}
+                  max={99}
+                  value={sleepSongCount}
+                  onChange={(e) =>
+                    setSleepSongCount(
+                      Math.max(1, Math.min(99, parseInt(e.target.value, 10) || 1)),
+                    )
+                  }
+                  className="w-14 bg-white/10 rounded-lg px-2 py-1 text-white text-center outline-none"
+                />
+                <span>songs</span>
+                <button
+                  onClick={() =>
+                    onStartSleepTimer({ mode: "afterSongs", remaining: sleepSongCount })
+                  }
+                  className="px-2.5 py-1 rounded-full text-xs font-medium bg-white/5 text-white/60 hover:bg-white/10 hover:text-white transition-colors"
+                >
+                  Start
+                </button>
+              </div>
+            </div>
+
+            {/* Loudness normalization */}
+            <div className="flex flex-col gap-2">
+              <span className="text-sm text-white/70 font-medium">
+                Normalize loudness
+              </span>
+              <div className="grid grid-cols-3 gap-1 p-1 rounded-full bg-white/5">
+                {NORMALIZATION_OPTIONS.map((option) => (
+                  <button
+                    key={option.value}
+                    onClick={() => onNormalizationChange(option.value)}
+                    className={`py-1.5 rounded-full text-xs font-medium transition-colors ${normalization === option.value ? "bg-white/20 text-white" : "text-white/50 hover:text-white"}`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <button
+              onClick={onOpenEffects}
+              className="flex items-center justify-between px-4 py-3 rounded-2xl border border-white/15 bg-white/5 text-sm font-medium text-white/80 hover:bg-white/10 transition"
+            >
+              <span>Equalizer & Effects</span>
+              <span className="text-[11px] text-white/50">›</span>
+            </button>
+          </div>
+        </animated.div>
+      ),
+  );
+};
+
+export default PlaybackSettings;
@@ -2,7 +2,9 @@
 import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { useTransition, animated } from '@react-spring/web';
 import { Song } from '../types';
-import { CheckIcon, PlusIcon, QueueIcon, TrashIcon, SelectAllIcon } from './Icons';
+import { CheckIcon, PlusIcon, QueueIcon, TrashIcon, SelectAllIcon, NextIcon, LibraryIcon, ExportIcon, HeartIcon, DownloadIcon, DragHandleIcon } from './Icons';
+import { PlaylistFormat } from '../services/playlistFormats';
+import { canDownload } from '../services/offline';
 import { useKeyboardScope } from '../hooks/useKeyboardScope';
 import ImportMusicDialog from './ImportMusicDialog';
 import SmartImage from './SmartImage';
@@ -40,10 +42,41 @@ interface PlaylistPanelProps {
     currentSongId?: string;
     onPlay: (index: number) => void;
     onImport: (url: string) => Promise<boolean>;
+    onImportFiles: (files: FileList) => void;
+    onExport: (format: PlaylistFormat) => void;
     onRemove: (ids: string[]) => void;
+    onMove: (ids: string[], beforeId: string | null) => void;
+    onPlayNext: (ids: string[]) => void;
+    onOpenLibrary: () => void;
+    onAddToPlaylist: (ids: string[]) => void;
+    isLiked: (song: Song) => boolean;
+    onToggleLike: (song: Song) => void;
+    isOffline: (song: Song) => boolean;
+    getDownloadProgress: (song: Song) => number | null;
+    onDownload: (ids: string[]) => void;
+    onRemoveDownload: (ids: string[]) => void;
     accentColor: string;
 }
 
+interface DragState {
+    ids: string[];
+    pointerId: number;
+    startY: number;
+    startScrollTop: number;
+    originIndex: number;
+    offset: number;
+}
+
+const EXPORT_FORMATS: { format: PlaylistFormat; label: string }[] = [
+    { format: 'm3u8', label: 'M3U8 Playlist' },
+    { format: 'pls', label: 'PLS Playlist' },
+    { format: 'xspf', label: 'XSPF Playlist' },
+];
+
+// Distance from the list edge at which dragging starts auto-scrolling
+const DRAG_SCROLL_EDGE = 48;
+const DRAG_SCROLL_SPEED = 12;
+
 const PlaylistPanel: React.FC<PlaylistPanelProps> = ({
     isOpen,
     onClose,
@@ -51,7 +84,19 @@ const PlaylistPanel: React.FC<PlaylistPanelProps> = ({
     currentSongId,
     onPlay,
     onImport,
+    onImportFiles,
+    onExport,
     onRemove,
+    onMove,
+    onPlayNext,
+    onOpenLibrary,
+    onAddToPlaylist,
+    isLiked,
+    onToggleLike,
+    isOffline,
+    getDownloadProgress,
+    onDownload,
+    onRemoveDownload,
     accentColor
 }) => {
     const [isAdding, setIsAdding] = useState(false);
@@ -63,6 +108,8 @@ const PlaylistPanel: React.FC<PlaylistPanelProps> = ({
     const panelRef = useRef<HTMLDivElement>(null);
     const listRef = useRef<HTMLDivElement>(null);
     const [scrollTop, setScrollTop] = useState(0);
+    const [drag, setDrag] = useState<DragState | null>(null);
+    const [showExportMenu, setShowExportMenu] = useState(false);
 
     // Virtualization Constants
     const ITEM_HEIGHT = 74; // Approx height of each item (including margin)
@@ -90,6 +137,7 @@ const PlaylistPanel: React.FC<PlaylistPanelProps> = ({
         config: { tension: 280, friction: 24 }, // Rebound feel
         onRest: () => {
             if (!isOpen) {
+                setShowExportMenu(false);
                 setIsEditing(false);
                 setSelectedIds(new Set());
             }
@@ -153,6 +201,76 @@ const PlaylistPanel: React.FC<PlaylistPanelProps> = ({
         setIsEditing(false);
     };
 
+    // Downloads the selection, or removes it once all of it is downloaded
+    const downloadableSelection = queue.filter(song => selectedIds.has(song.id) && canDownload(song));
+    const isSelectionOffline = downloadableSelection.length > 0 && downloadableSelection.every(isOffline);
+
+    const handleToggleOffline = () => {
+        const ids = downloadableSelection.map(song => song.id);
+        if (isSelectionOffline) onRemoveDownload(ids);
+        else onDownload(ids);
+        setSelectedIds(new Set());
+    };
+
+    const handlePlayNext = () => {
+        // Keep the queue order of the selection
+        onPlayNext(queue.filter(song => selectedIds.has(song.id)).map(song => song.id));
+        setSelectedIds(new Set());
+    };
+
+    // Drag reordering (edit mode). Pointer events cover mouse and touch; the
+    // handle has touch-action: none so touch drags don't scroll the list.
+    const getDropIndex = (state: DragState) => {
+        const scrolled = (listRef.current?.scrollTop ?? 0) - state.startScrollTop;
+        const position = Math.round(state.originIndex + (state.offset + scrolled) / ITEM_HEIGHT);
+        // Moving down lands after the song it hovers over, moving up before it
+        const index = position > state.originIndex ? position + 1 : position;
+        return Math.max(0, Math.min(queue.length, index));
+    };
+
+    const handleDragStart = (e: React.PointerEvent, songId: string, index: number) => {
+        e.preventDefault();
+        e.stopPropagation();
+        // Captured on the list rather than the handle: auto-scroll can
+        // virtualize the dragged row away, which would drop the capture and
+        // lose a pointerup outside the list
+        listRef.current?.setPointerCapture(e.pointerId);
+        // Dragging a selected song carries the whole selection with it
+        const ids = selectedIds.has(songId)
+            ? queue.filter(song => selectedIds.has(song.id)).map(song => song.id)
+            : [songId];
+        setDrag({
+            ids,
+            pointerId: e.pointerId,
+            startY: e.clientY,
+            startScrollTop: listRef.current?.scrollTop ?? 0,
+            originIndex: index,
+            offset: 0,
+        });
+    };
+
+    const handleDragMove = (e: React.PointerEvent) => {
+        if (!drag || e.pointerId !== drag.pointerId) return;
+        const list = listRef.current;
+        if (list) {
+            const rect = list.getBoundingClientRect();
+            if (e.clientY < rect.top + DRAG_SCROLL_EDGE) list.scrollTop -= DRAG_SCROLL_SPEED;
+            else if (e.clientY > rect.bottom - DRAG_SCROLL_EDGE) list.scrollTop += DRAG_SCROLL_SPEED;
+        }
+        setDrag({ ...drag, offset: e.clientY - drag.startY });
+    };
+
+    const handleDragEnd = (e: React.PointerEvent) => {
+        if (!drag || e.pointerId !== drag.pointerId) return;
+        const dropIndex = getDropIndex(drag);
+        const moving = new Set(drag.ids);
+        const before = queue.slice(dropIndex).find(song => !moving.has(song.id));
+        onMove(drag.ids, before ? before.id : null);
+        setDrag(null);
+    };
+
+    const dropIndex = drag ? getDropIndex(drag) : null;
+
     const handleSelectAll = () => {
         if (selectedIds.size === queue.length) {
             setSelectedIds(new Set());
@@ -227,6 +345,30 @@ const PlaylistPanel: React.FC<PlaylistPanelProps> = ({
                                     >
                                         <SelectAllIcon className="w-5 h-5" />
                                     </button>
+                                    <button
+                                        onClick={() => onAddToPlaylist(queue.filter(song => selectedIds.has(song.id)).map(song => song.id))}
+                                        className={`w-8 h-8 rounded-full flex items-center justify-center transition-all ${selectedIds.size > 0 ? 'text-white/70 hover:text-white hover:bg-white/10' : 'text-white/20 cursor-not-allowed'}`}
+                                        title="Add to Playlist"
+                                        disabled={selectedIds.size === 0}
+                                    >
+                                        <LibraryIcon className="w-5 h-5" />
+                                    </button>
+                                    <button
+                                        onClick={handleToggleOffline}
+                                        className={`w-8 h-8 rounded-full flex items-center justify-center transition-all ${downloadableSelection.length > 0 ? 'text-white/70 hover:text-white hover:bg-white/10' : 'text-white/20 cursor-not-allowed'}`}
+                                        title={isSelectionOffline ? 'Remove Download' : 'Make Available Offline'}
+                                        disabled={downloadableSelection.length === 0}
+                                    >
+                                        <DownloadIcon className="w-5 h-5" />
+                                    </button>
+                                    <button
+                                        onClick={handlePlayNext}
+                                        className={`w-8 h-8 rounded-full flex items-center justify-center transition-all ${selectedIds.size > 0 ? 'text-white/70 hover:text-white hover:bg-white/10' : 'text-white/20 cursor-not-allowed'}`}
+                                        title="Play Next"
+                                        disabled={selectedIds.size === 0}
+                                    >
+                                        <NextIcon className="w-5 h-5" />
+                                    </button>
                                     <button
                                         onClick={handleDelete}
                                         className={`w-8 h-8 rounded-full flex items-center justify-center transition-all ${selectedIds.size > 0 ? 'text-red-400 hover:bg-red-500/10' : 'text-white/20 cursor-not-allowed'}`}
@@ -253,6 +395,39 @@ const PlaylistPanel: React.FC<PlaylistPanelProps> = ({
                                     >
                                         <PlusIcon className="w-5 h-5" />
                                     </button>
+                                    <button
+                                        onClick={onOpenLibrary}
+                                        className="w-8 h-8 rounded-full flex items-center justify-center transition-all text-white/50 hover:text-white hover:bg-white/10"
+                                        title="Saved Playlists"
+                                    >
+                                        <LibraryIcon className="w-5 h-5" />
+                                    </button>
+                                    <div className="relative">
+                                        <button
+                                            onClick={() => setShowExportMenu(prev => !prev)}
+                                            disabled={queue.length === 0}
+                                            className="w-8 h-8 rounded-full flex items-center justify-center transition-all text-white/50 hover:text-white hover:bg-white/10 disabled:opacity-30 disabled:cursor-not-allowed"
+                                            title="Export Queue"
+                                        >
+                                            <ExportIcon className="w-5 h-5" />
+                                        </button>
+                                        {showExportMenu && (
+                                            <div className="absolute right-0 top-full mt-2 z-30 w-40 p-1.5 flex flex-col gap-0.5 bg-[#1e1e1e]/80 backdrop-blur-[80px] saturate-150 border border-white/10 rounded-xl shadow-2xl">
+                                                {EXPORT_FORMATS.map(({ format, label }) => (
+                                                    <button
+                                                        key={format}
+                                                        onClick={() => {
+                                                            onExport(format);
+                                                            setShowExportMenu(false);
+                                                        }}
+                                                        className="px-3 py-2 text-left text-[13px] text-white/90 hover:bg-white/10 rounded-lg transition-colors"
+                                                    >
+                                                        {label}
+                                                    </button>
+                                                ))}
+                                            </div>
+                                        )}
+                                    </div>
                                     <button
                                         onClick={() => setIsEditing(true)}
                                         className="w-8 h-8 rounded-full flex items-center justify-center transition-all text-white/50 hover:text-white hover:bg-white/10"
@@ -269,6 +444,11 @@ const PlaylistPanel: React.FC<PlaylistPanelProps> = ({
                     <div
                         ref={listRef}
                         onScroll={handleScroll}
+                        // Drag moves are handled on the list so they keep arriving
+                        // after the dragged row is virtualized away
+                        onPointerMove={handleDragMove}
+                        onPointerUp={handleDragEnd}
+                        onPointerCancel={() => setDrag(null)}
                         className="flex-1 overflow-y-auto playlist-scrollbar px-2 py-2 relative"
                     >
                         {queue.length === 0 ? (
@@ -277,10 +457,20 @@ const PlaylistPanel: React.FC<PlaylistPanelProps> = ({
                             </div>
                         ) : (
                             <div style={{ height: `${totalHeight}px`, position: 'relative' }}>
+                                {/* Drop position while dragging */}
+                                {dropIndex !== null && (
+                                    <div
+                                        className="absolute left-4 right-4 h-[2px] rounded-full pointer-events-none z-20"
+                                        style={{ top: `${dropIndex * ITEM_HEIGHT - 4}px`, backgroundColor: accentColor }}
+                                    />
+                                )}
                                 {virtualItems.map((song) => {
                                     const index = song.index;
                                     const isCurrent = song.id === currentSongId;
                                     const isSelected = selectedIds.has(song.id);
+                                    const isDragged = drag?.ids.includes(song.id) ?? false;
+                                    const liked = isLiked(song);
+                                    const downloadProgress = getDownloadProgress(song);
 
                                     return (
                                         <div
@@ -293,9 +483,11 @@ const PlaylistPanel: React.FC<PlaylistPanelProps> = ({
                                     absolute left-0 right-0 h-[66px]
                                     group flex items-center gap-3 p-2 mx-2 rounded-2xl cursor-pointer transition-all duration-200
                                     ${isEditing ? 'hover:bg-white/10' : isCurrent ? 'bg-white/10 shadow-[inset_0_1px_0_0_rgba(255,255,255,0.05)]' : 'hover:bg-white/5'}
+                                    ${isDragged ? 'z-10 bg-white/15 shadow-lg opacity-80 !transition-none' : ''}
                                 `}
                                             style={{
                                                 top: `${index * ITEM_HEIGHT}px`,
+                                                transform: isDragged && drag ? `translateY(${drag.offset + (listRef.current?.scrollTop ?? 0) - drag.startScrollTop}px)` : undefined,
                                                 // Adjust height within the slot if needed, ITEM_HEIGHT includes gap
                                                 height: '66px'
                                             }}
@@ -353,6 +545,46 @@ const PlaylistPanel: React.FC<PlaylistPanelProps> = ({
                                                     {song.artist}
                                                 </div>
                                             </div>
+
+                                            {/* Offline */}
+                                            {!isEditing && downloadProgress !== null && (
+                                                <span className="w-8 text-center text-[11px] font-mono text-white/50 flex-shrink-0" title="Downloading">
+                                                    {Math.round(downloadProgress * 100)}%
+                                                </span>
+                                            )}
+                                            {!isEditing && downloadProgress === null && isOffline(song) && (
+                                                <span className="flex-shrink-0" style={{ color: accentColor }} title="Available Offline">
+                                                    <DownloadIcon className="w-4 h-4" />
+                                                </span>
+                                            )}
+
+                                            {/* Like */}
+                                            {!isEditing && (
+                                                <button
+                                                    onClick={(e) => {
+                                                        e.stopPropagation();
+                                                        onToggleLike(song);
+                                                    }}
+                                                    className={`w-8 h-8 rounded-full flex items-center justify-center flex-shrink-0 transition-all hover:bg-white/10 ${liked ? '' : 'text-white/30 hover:text-white/70 opacity-0 group-hover:opacity-100'}`}
+                                                    style={liked ? { color: accentColor } : undefined}
+                                                    title={liked ? 'Remove from Liked Songs' : 'Add to Liked Songs'}
+                                                >
+                                                    <HeartIcon className="w-4 h-4" filled={liked} />
+                                                </button>
+                                            )}
+
+                                            {/* Drag Handle */}
+                                            {isEditing && (
+                                                <div
+                                                    onPointerDown={(e) => handleDragStart(e, song.id, index)}
+                                                    onClick={(e) => e.stopPropagation()}
+                                                    className="w-8 h-full flex items-center justify-center text-white/30 hover:text-white/70 cursor-grab active:cursor-grabbing"
+                                                    style={{ touchAction: 'none' }}
+                                                    title="Drag to reorder"
+                                                >
+                                                    <DragHandleIcon className="w-3.5 h-2.5" />
+                                                </div>
+                                            )}
                                         </div>
                                     );
                                 })}
@@ -368,6 +600,10 @@ const PlaylistPanel: React.FC<PlaylistPanelProps> = ({
                 isOpen={isAdding}
                 onClose={() => setIsAdding(false)}
                 onImport={handleImport}
+                onImportFiles={(files) => {
+                    onImportFiles(files);
+                    setIsAdding(false);
+                }}
             />
         </>
     );
@@ -0,0 +1,566 @@
+import React, { useEffect, useState } from "react";
+import { createPortal } from "react-dom";
+import { SavedPlaylist, Song } from "../types";
+import { useKeyboardScope } from "../hooks/useKeyboardScope";
+import {
+  DownloadIcon,
+  FolderIcon,
+  HeartIcon,
+  LibraryIcon,
+  PlayIcon,
+  PlusIcon,
+  TrashIcon,
+} from "./Icons";
+import { LibraryEntry } from "../services/library";
+import { canDownload } from "../services/offline";
+import SmartImage from "./SmartImage";
+
+interface SavedPlaylistsDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  playlists: SavedPlaylist[];
+  // Songs waiting to be filed into a playlist; the dialog acts as a picker
+  // while this is set
+  pendingSongs: Song[] | null;
+  onCreate: (name: string, songs: Song[]) => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+  onAddSongs: (id: string, songs: Song[]) => void;
+  onRemoveSong: (id: string, songId: string) => void;
+  onLoad: (id: string) => void;
+  onAppend: (id: string) => void;
+  // The automatic "Liked Songs" playlist
+  likedSongs: Song[];
+  onLoadLiked: () => void;
+  onAppendLiked: () => void;
+  onUnlike: (song: Song) => void;
+  // Every imported local file
+  libraryEntries: LibraryEntry[];
+  onLoadLibrary: () => void;
+  onAppendLibrary: () => void;
+  onRemoveFromLibrary: (key: string) => void;
+  // Songs made available offline, on their own or with a playlist
+  offlineSongs: Song[];
+  onLoadOffline: () => void;
+  onAppendOffline: () => void;
+  onRemoveOffline: (song: Song) => void;
+  isOffline: (song: Song) => boolean;
+  getDownloadProgress: (song: Song) => number | null;
+  onDownloadPlaylist: (id: string) => void;
+  onRemovePlaylistDownload: (id: string) => void;
+  accentColor: string;
+}
+
+// Expansion keys of the automatic entries; can't clash with playlist ids
+const LIKED_ENTRY_ID = "liked";
+const LIBRARY_ENTRY_ID = "library";
+const OFFLINE_ENTRY_ID = "offline";
+
+const formatCount = (count: number) =>
+  `${count} ${count === 1 ? "song" : "songs"}`;
+
+interface AutoPlaylistEntryProps {
+  title: string;
+  icon: React.ReactNode;
+  tracks: { title: string; artist: string }[];
+  emptyText: string;
+  isExpanded: boolean;
+  onToggle: () => void;
+  onLoad: () => void;
+  onAppend: () => void;
+  // Per-track button, e.g. unlike
+  trackAction: {
+    icon: React.ReactNode;
+    title: string;
+    onClick: (index: number) => void;
+  };
+  accentColor: string;
+}
+
+// A playlist the app maintains by itself; it can be played but not edited
+const AutoPlaylistEntry: React.FC<AutoPlaylistEntryProps> = ({
+  title,
+  icon,
+  tracks,
+  emptyText,
+  isExpanded,
+  onToggle,
+  onLoad,
+  onAppend,
+  trackAction,
+  accentColor,
+}) => (
+  <div className="flex flex-col">
+    <div
+      onClick={onToggle}
+      className={`flex items-center gap-3 p-2 rounded-2xl cursor-pointer transition-colors ${isExpanded ? "bg-white/10" : "hover:bg-white/5"}`}
+    >
+      <div
+        className="w-11 h-11 rounded-lg flex-shrink-0 flex items-center justify-center text-white"
+        style={{ backgroundColor: accentColor }}
+      >
+        {icon}
+      </div>
+      <div className="flex-1 min-w-0 flex flex-col justify-center gap-0.5">
+        <div className="text-[15px] font-semibold truncate leading-tight text-white/90">
+          {title}
+        </div>
+        <div className="text-[13px] text-white/50 truncate font-medium">
+          {formatCount(tracks.length)} · Automatic
+        </div>
+      </div>
+    </div>
+
+    {isExpanded && (
+      <div className="flex flex-col gap-2 px-2 pt-2 pb-3">
+        <div className="flex flex-wrap gap-2">
+          <button
+            onClick={onLoad}
+            disabled={tracks.length === 0}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-full text-xs font-semibold text-white disabled:opacity-40 transition-opacity"
+            style={{ backgroundColor: accentColor }}
+          >
+            <PlayIcon className="w-3 h-3" />
+            Load into Queue
+          </button>
+          <button
+            onClick={onAppend}
+            disabled={tracks.length === 0}
+            className="px-3 py-1.5 rounded-full text-xs font-medium bg-white/10 text-white/80 hover:bg-white/20 disabled:opacity-40 transition-colors"
+          >
+            Append to Queue
+          </button>
+        </div>
+
+        {tracks.length === 0 ? (
+          <p className="text-[12px] text-white/30 px-1">{emptyText}</p>
+        ) : (
+          <div className="flex flex-col">
+            {tracks.map((track, index) => (
+              <div
+                key={index}
+                className="group flex items-center gap-3 px-1 py-1.5 rounded-lg hover:bg-white/5"
+              >
+                <div className="flex-1 min-w-0">
+                  <div className="text-[13px] text-white/80 truncate">
+                    {track.title}
+                  </div>
+                  <div className="text-[11px] text-white/40 truncate">
+                    {track.artist}
+                  </div>
+                </div>
+                <button
+                  onClick={() => trackAction.onClick(index)}
+                  className="w-7 h-7 rounded-full flex items-center justify-center text-white/30 opacity-0 group-hover:opacity-100 hover:text-white hover:bg-white/10 transition-all"
+                  title={trackAction.title}
+                >
+                  {trackAction.icon}
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    )}
+  </div>
+);
+
+const SavedPlaylistsDialog: React.FC<SavedPlaylistsDialogProps> = ({
+  isOpen,
+  onClose,
+  playlists,
+  pendingSongs,
+  onCreate,
+  onRename,
+  onDuplicate,
+  onDelete,
+  onAddSongs,
+  onRemoveSong,
+  onLoad,
+  onAppend,
+  likedSongs,
+  onLoadLiked,
+  onAppendLiked,
+  onUnlike,
+  libraryEntries,
+  onLoadLibrary,
+  onAppendLibrary,
+  onRemoveFromLibrary,
+  offlineSongs,
+  onLoadOffline,
+  onAppendOffline,
+  onRemoveOffline,
+  isOffline,
+  getDownloadProgress,
+  onDownloadPlaylist,
+  onRemovePlaylistDownload,
+  accentColor,
+}) => {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState("");
+  const [isCreating, setIsCreating] = useState(false);
+
+  const isPicking = pendingSongs !== null;
+
+  useEffect(() => {
+    if (!isOpen) {
+      setRenamingId(null);
+      setIsCreating(false);
+    }
+  }, [isOpen]);
+
+  useKeyboardScope(
+    (e: KeyboardEvent) => {
+      if (e.key === "Escape") {
+        e.preventDefault();
+        if (renamingId || isCreating) {
+          setRenamingId(null);
+          setIsCreating(false);
+        } else {
+          onClose();
+        }
+        return true;
+      }
+      return false;
+    },
+    100,
+    isOpen,
+  );
+
+  if (!isOpen) return null;
+
+  const toggleExpanded = (id: string) =>
+    setExpandedId(expandedId === id ? null : id);
+
+  const startCreate = () => {
+    setRenamingId(null);
+    setDraftName("");
+    setIsCreating(true);
+  };
+
+  const startRename = (playlist: SavedPlaylist) => {
+    setIsCreating(false);
+    setDraftName(playlist.name);
+    setRenamingId(playlist.id);
+  };
+
+  const submitDraft = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isCreating) {
+      onCreate(draftName, pendingSongs ?? []);
+      setIsCreating(false);
+    } else if (renamingId) {
+      onRename(renamingId, draftName);
+      setRenamingId(null);
+    }
+  };
+
+  const renderNameInput = (placeholder: string) => (
+    <form onSubmit={submitDraft} className="flex-1 flex items-center gap-2">
+      <input
+        autoFocus
+        value={draftName}
+        onChange={(e) => setDraftName(e.target.value)}
+        placeholder={placeholder}
+        className="flex-1 min-w-0 bg-white/10 rounded-lg px-3 py-1.5 text-sm text-white placeholder-white/30 outline-none focus:ring-1 focus:ring-white/30"
+      />
+      <button
+        type="submit"
+        className="px-3 py-1.5 rounded-lg text-xs font-semibold text-white/90 bg-white/10 hover:bg-white/20 transition-colors"
+      >
+        Save
+      </button>
+    </form>
+  );
+
+  return createPortal(
+    <div className="fixed inset-0 z-[9999] flex items-center justify-center px-4 select-none pointer-events-none">
+      <style>{`
+        @keyframes modal-in {
+            0% { opacity: 0; transform: scale(0.96) translateY(-8px); }
+            100% { opacity: 1; transform: scale(1) translateY(0); }
+        }
+        .dialog-in { animation: modal-in 0.2s cubic-bezier(0.2, 0.8, 0.2, 1) forwards; will-change: transform, opacity; }
+      `}</style>
+
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-black/20 backdrop-blur-sm pointer-events-auto"
+        onClick={onClose}
+      />
+
+      {/* Modal */}
+      <div
+        className="dialog-in relative w-full max-w-[480px] max-h-[80vh] flex flex-col bg-black/40 backdrop-blur-2xl saturate-150 border border-white/10 rounded-[32px] shadow-[0_30px_80px_rgba(0,0,0,0.45)] overflow-hidden ring-1 ring-white/5 pointer-events-auto text-white"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-6 pt-6 pb-4 border-b border-white/5 flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-bold leading-none tracking-tight">
+              {isPicking ? "Add to Playlist" : "Playlists"}
+            </h3>
+            <span className="text-white/40 text-xs font-medium">
+              {isPicking
+                ? `Choose where to add ${formatCount(pendingSongs.length)}`
+                : "Saved separately from the play queue"}
+            </span>
+          </div>
+          <button
+            onClick={startCreate}
+            className="w-8 h-8 rounded-full flex items-center justify-center transition-all text-white/50 hover:text-white hover:bg-white/10"
+            title="New Playlist"
+          >
+            <PlusIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-3 py-3 flex flex-col gap-1">
+          {isCreating && (
+            <div className="flex items-center gap-3 p-2">
+              {renderNameInput("Playlist name")}
+            </div>
+          )}
+
+          {!isPicking && (
+            <>
+              <AutoPlaylistEntry
+                title="Liked Songs"
+                icon={<HeartIcon className="w-5 h-5" filled />}
+                tracks={likedSongs}
+                emptyText="Tap the heart on a song to add it here."
+                isExpanded={expandedId === LIKED_ENTRY_ID}
+                onToggle={() => toggleExpanded(LIKED_ENTRY_ID)}
+                onLoad={onLoadLiked}
+                onAppend={onAppendLiked}
+                trackAction={{
+                  icon: <HeartIcon className="w-4 h-4" filled />,
+                  title: "Remove from Liked Songs",
+                  onClick: (index) => onUnlike(likedSongs[index]),
+                }}
+                accentColor={accentColor}
+              />
+              <AutoPlaylistEntry
+                title="Local Files"
+                icon={<FolderIcon className="w-5 h-5" />}
+                tracks={libraryEntries}
+                emptyText="Files and folders you import are kept here."
+                isExpanded={expandedId === LIBRARY_ENTRY_ID}
+                onToggle={() => toggleExpanded(LIBRARY_ENTRY_ID)}
+                onLoad={onLoadLibrary}
+                onAppend={onAppendLibrary}
+                trackAction={{
+                  icon: <TrashIcon className="w-4 h-4" />,
+                  title: "Remove from Library",
+                  onClick: (index) =>
+                    onRemoveFromLibrary(libraryEntries[index].key),
+                }}
+                accentColor={accentColor}
+              />
+              <AutoPlaylistEntry
+                title="Downloads"
+                icon={<DownloadIcon className="w-5 h-5" />}
+                tracks={offlineSongs}
+                emptyText="Songs and playlists you make available offline are kept here."
+                isExpanded={expandedId === OFFLINE_ENTRY_ID}
+                onToggle={() => toggleExpanded(OFFLINE_ENTRY_ID)}
+                onLoad={onLoadOffline}
+                onAppend={onAppendOffline}
+                trackAction={{
+                  icon: <TrashIcon className="w-4 h-4" />,
+                  title: "Remove Download",
+                  onClick: (index) => onRemoveOffline(offlineSongs[index]),
+                }}
+                accentColor={accentColor}
+              />
+            </>
+          )}
+
+          {playlists.length === 0 && !isCreating && (
+            <div className="flex flex-col items-center justify-center h-32 text-white/30 space-y-2">
+              <p className="text-xs font-medium">No saved playlists yet</p>
+            </div>
+          )}
+
+          {playlists.map((playlist) => {
+            const isExpanded = !isPicking && expandedId === playlist.id;
+            const cover = playlist.songs.find((song) => song.coverUrl)?.coverUrl;
+            const downloadable = playlist.songs.filter(canDownload);
+            const offlineCount = downloadable.filter(isOffline).length;
+            const isDownloading = downloadable.some(
+              (song) => getDownloadProgress(song) !== null,
+            );
+            const isDownloaded =
+              downloadable.length > 0 && offlineCount === downloadable.length;
+            return (
+              <div key={playlist.id} className="flex flex-col">
+                <div
+                  onClick={() => {
+                    if (renamingId === playlist.id) return;
+                    if (isPicking) {
+                      onAddSongs(playlist.id, pendingSongs);
+                    } else {
+                      setExpandedId(isExpanded ? null : playlist.id);
+                    }
+                  }}
+                  className={`flex items-center gap-3 p-2 rounded-2xl cursor-pointer transition-colors ${isExpanded ? "bg-white/10" : "hover:bg-white/5"}`}
+                >
+                  <div className="w-11 h-11 rounded-lg overflow-hidden flex-shrink-0 bg-white/10 border border-white/5 flex items-center justify-center text-white/40">
+                    {cover ? (
+                      <SmartImage
+                        src={cover}
+                        alt={playlist.name}
+                        containerClassName="w-full h-full"
+                        imgClassName="w-full h-full object-cover"
+                      />
+                    ) : (
+                      <LibraryIcon className="w-5 h-5" />
+                    )}
+                  </div>
+                  {renamingId === playlist.id ? (
+                    renderNameInput(playlist.name)
+                  ) : (
+                    <div className="flex-1 min-w-0 flex flex-col justify-center gap-0.5">
+                      <div className="text-[15px] font-semibold truncate leading-tight text-white/90">
+                        {playlist.name}
+                      </div>
+                      <div className="text-[13px] text-white/50 truncate font-medium">
+                        {formatCount(playlist.songs.length)}
+                        {isDownloaded && " · Offline"}
+                      </div>
+                    </div>
+                  )}
+                </div>
+
+                {isExpanded && (
+                  <div className="flex flex-col gap-2 px-2 pt-2 pb-3">
+                    <div className="flex flex-wrap gap-2">
+                      <button
+                        onClick={() => onLoad(playlist.id)}
+                        disabled={playlist.songs.length === 0}
+                        className="flex items-center gap-1.5 px-3 py-1.5 rounded-full text-xs font-semibold text-white disabled:opacity-40 transition-opacity"
+                        style={{ backgroundColor: accentColor }}
+                      >
+                        <PlayIcon className="w-3 h-3" />
+                        Load into Queue
+                      </button>
+                      <button
+                        onClick={() => onAppend(playlist.id)}
+                        disabled={playlist.songs.length === 0}
+                        className="px-3 py-1.5 rounded-full text-xs font-medium bg-white/10 text-white/80 hover:bg-white/20 disabled:opacity-40 transition-colors"
+                      >
+                        Append to Queue
+                      </button>
+                      <button
+                        onClick={() =>
+                          isDownloaded
+                            ? onRemovePlaylistDownload(playlist.id)
+                            : onDownloadPlaylist(playlist.id)
+                        }
+                        disabled={isDownloading || downloadable.length === 0}
+                        className="flex items-center gap-1.5 px-3 py-1.5 rounded-full text-xs font-medium bg-white/10 text-white/80 hover:bg-white/20 disabled:opacity-40 transition-colors"
+                      >
+                        <DownloadIcon className="w-3 h-3" />
+                        {isDownloading
+                          ? `Downloading ${offlineCount}/${downloadable.length}`
+                          : isDownloaded
+                            ? "Remove Download"
+                            : "Make Available Offline"}
+                      </button>
+                      <button
+                        onClick={() => startRename(playlist)}
+                        className="px-3 py-1.5 rounded-full text-xs font-medium bg-white/5 text-white/60 hover:bg-white/10 transition-colors"
+                      >
+                        Rename
+                      </button>
+                      <button
+                        onClick={() => onDuplicate(playlist.id)}
+                        className="px-3 py-1.5 rounded-full text-xs font-medium bg-white/5 text-white/60 hover:bg-white/10 transition-colors"
+                      >
+                        Duplicate
+                      </button>
+                      <button
+                        onClick={() => {
+                          onDelete(playlist.id);
+                          setExpandedId(null);
+                        }}
+                        className="px-3 py-1.5 rounded-full text-xs font-medium bg-white/5 text-red-400/80 hover:bg-red-500/20 hover:text-red-300 transition-colors"
+                      >
+                        Delete
+                      </button>
+                    </div>
+
+                    {playlist.songs.length === 0 ? (
+                      <p className="text-[12px] text-white/30 px-1">
+                        Add songs from the queue or search results.
+                      </p>
+                    ) : (
+                      <div className="flex flex-col">
+                        {playlist.songs.map((song) => {
+                          const downloadProgress = getDownloadProgress(song);
+                          return (
+                            <div
+                              key={song.id}
+                              className="group flex items-center gap-3 px-1 py-1.5 rounded-lg hover:bg-white/5"
+                            >
+                              <div className="flex-1 min-w-0">
+                                <div className="text-[13px] text-white/80 truncate">
+                                  {song.title}
+                                </div>
+                                <div className="text-[11px] text-white/40 truncate">
+                                  {song.artist}
+                                </div>
+                              </div>
+                              {downloadProgress !== null ? (
+                                <span
+                                  className="text-[11px] font-mono text-white/50"
+                                  title="Downloading"
+                                >
+                                  {Math.round(downloadProgress * 100)}%
+                                </span>
+                              ) : (
+                                isOffline(song) && (
+                                  <span
+                                    style={{ color: accentColor }}
+                                    title="Available Offline"
+                                  >
+                                    <DownloadIcon className="w-3.5 h-3.5" />
+                                  </span>
+                                )
+                              )}
+                              <button
+                                onClick={() => onRemoveSong(playlist.id, song.id)}
+                                className="w-7 h-7 rounded-full flex items-center justify-center text-white/30 opacity-0 group-hover:opacity-100 hover:text-red-400 hover:bg-white/10 transition-all"
+                                title="Remove from Playlist"
+                              >
+                                <TrashIcon className="w-4 h-4" />
+                              </button>
+                            </div>
+                          );
+                        })}
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        {/* Footer */}
+        <div className="border-t border-white/10 bg-white/5 p-2">
+          <button
+            onClick={onClose}
+            className="w-full py-3.5 rounded-2xl text-[16px] font-semibold text-white/90 hover:bg-white/10 active:scale-[0.98] transition-all duration-200"
+          >
+            {isPicking ? "Cancel" : "Done"}
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body,
+  );
+};
+
+export default SavedPlaylistsDialog;
@@ -1,12 +1,17 @@
 import React, { useState, useEffect, useRef } from "react";
 import { createPortal } from "react-dom";
-import { SearchIcon, PlayIcon, PlusIcon } from "./Icons";
+import {
+  SearchIcon,
+  PlayIcon,
+  PlusIcon,
+  NextIcon,
+  LibraryIcon,
+  HeartIcon,
+} from "./Icons";
 import SmartImage from "./SmartImage";
 import { Song } from "../types";
-import {
-  getNeteaseAudioUrl,
-  NeteaseTrackInfo,
-} from "../services/lyricsService";
+import { TrackInfo } from "../services/lyricsService";
+import { trackToSong } from "../services/providers";
 import { useKeyboardScope } from "../hooks/useKeyboardScope";
 import { useSearchModal } from "../hooks/useSearchModal";
 
@@ -17,6 +22,10 @@ interface SearchModalProps {
   onPlayQueueIndex: (index: number) => void;
   onImportAndPlay: (song: Song) => void;
   onAddToQueue: (song: Song) => void;
+  onPlayNext: (song: Song) => void;
+  onAddToPlaylist: (song: Song) => void;
+  isLiked: (song: Song) => boolean;
+  onToggleLike: (song: Song) => void;
   currentSong: Song | null;
   isPlaying: boolean;
   accentColor: string;
@@ -76,6 +85,10 @@ const SearchModal: React.FC<SearchModalProps> = ({
   onPlayQueueIndex,
   onImportAndPlay,
   onAddToQueue,
+  onPlayNext,
+  onAddToPlaylist,
+  isLiked,
+  onToggleLike,
   currentSong,
   isPlaying,
   accentColor,
@@ -95,6 +108,7 @@ const SearchModal: React.FC<SearchModalProps> = ({
     currentSong,
     isPlaying,
     isOpen,
+    isLiked,
   });
 
   // --- Animation Handling ---
@@ -159,8 +173,8 @@ const SearchModal: React.FC<SearchModalProps> = ({
           e.preventDefault();
           if (search.selectedIndex >= 0) {
             handleSelection(search.selectedIndex);
-          } else if (search.activeTab === "netease" && search.query.trim()) {
-            search.performNeteaseSearch();
+          } else if (search.onlineProvider && search.query.trim()) {
+            search.performOnlineSearch();
           }
           return true;
         }
@@ -191,44 +205,37 @@ const SearchModal: React.FC<SearchModalProps> = ({
         onClose();
       }
     } else {
-      const track = search.neteaseProvider.results[index];
+      const track = search.onlineProvider?.results[index];
       if (track) {
-        playNeteaseTrack(track);
+        playOnlineTrack(track);
         onClose();
       }
     }
   };
 
-  const playNeteaseTrack = (track: NeteaseTrackInfo) => {
-    const song: Song = {
-      id: track.id,
-      title: track.title,
-      artist: track.artist,
-      coverUrl: track.coverUrl.replace("http:", "https:"),
-      fileUrl: getNeteaseAudioUrl(track.id),
-      isNetease: true,
-      neteaseId: track.neteaseId,
-      album: track.album,
-      lyrics: [],
-      needsLyricsMatch: true,
-    };
-    onImportAndPlay(song);
+  const playOnlineTrack = (track: TrackInfo) => {
+    onImportAndPlay(trackToSong(track));
   };
 
-  const addNeteaseToQueue = (track: NeteaseTrackInfo) => {
-    const song: Song = {
-      id: track.id,
-      title: track.title,
-      artist: track.artist,
-      coverUrl: track.coverUrl.replace("http:", "https:"),
-      fileUrl: getNeteaseAudioUrl(track.id),
-      isNetease: true,
-      neteaseId: track.neteaseId,
-      album: track.album,
-      lyrics: [],
-      needsLyricsMatch: true,
-    };
-    onAddToQueue(song);
+  const addOnlineToQueue = (track: TrackInfo) => {
+    onAddToQueue(trackToSong(track));
+  };
+
+  const renderLikeButton = (song: Song, isSelected: boolean) => {
+    const liked = isLiked(song);
+    return (
+      <button
+        onClick={(e) => {
+          e.stopPropagation();
+          onToggleLike(song);
+        }}
+        className={`w-8 h-8 rounded-full flex items-center justify-center shrink-0 transition-all hover:bg-white/10 ${liked ? "" : `text-white/30 hover:text-white/70 ${isSelected ? "opacity-100" : "opacity-0 group-hover:opacity-100"}`}`}
+        style={liked ? { color: accentColor } : undefined}
+        title={liked ? "Remove from Liked Songs" : "Add to Liked Songs"}
+      >
+        <HeartIcon className="w-4 h-4" filled={liked} />
+      </button>
+    );
   };
 
   // Reset refs
@@ -274,38 +281,30 @@ const SearchModal: React.FC<SearchModalProps> = ({
         {/* Header Area */}
         <div className="flex flex-col px-5 pt-5 pb-3 gap-4 border-b border-white/10 shrink-0 bg-white/5 z-10">
           {/* Animated Tabs */}
-          <div className="relative flex items-center justify-center p-1 rounded-lg self-center w-full max-w-xs mb-1 bg-black/20 backdrop-blur-md shadow-inner">
+          <div className="relative flex items-center justify-center p-1 rounded-lg self-center w-full max-w-xl mb-1 bg-black/20 backdrop-blur-md shadow-inner">
             {/* Gliding Pill */}
             <div
               className="absolute top-1 bottom-1 rounded-[6px] bg-white/15 shadow-[0_1px_2px_rgba(0,0,0,0.1)] transition-all duration-300 ease-[cubic-bezier(0.23,1,0.32,1)]"
               style={{
-                left: search.activeTab === "queue" ? "4px" : "50%",
-                width: "calc(50% - 4px)",
+                left: `calc(4px + (100% - 8px) * ${search.tabs.findIndex((tab) => tab.id === search.activeTab)} / ${search.tabs.length})`,
+                width: `calc((100% - 8px) / ${search.tabs.length})`,
               }}
             />
 
-            <button
-              onClick={() => {
-                search.setActiveTab("queue");
-              }}
-              className={`
-                        relative flex-1 py-1.5 text-[13px] font-medium transition-colors duration-200 z-10
-                        ${search.activeTab === "queue" ? "text-white" : "text-white/50 hover:text-white/70"}
-                    `}
-            >
-              {search.queueProvider.label}
-            </button>
-            <button
-              onClick={() => {
-                search.setActiveTab("netease");
-              }}
-              className={`
-                        relative flex-1 py-1.5 text-[13px] font-medium transition-colors duration-200 z-10
-                        ${search.activeTab === "netease" ? "text-white" : "text-white/50 hover:text-white/70"}
+            {search.tabs.map((tab) => (
+              <button
+                key={tab.id}
+                onClick={() => {
+                  search.setActiveTab(tab.id);
+                }}
+                className={`
+                        relative flex-1 py-1.5 text-[13px] font-medium whitespace-nowrap transition-colors duration-200 z-10
+                        ${search.activeTab === tab.id ? "text-white" : "text-white/50 hover:text-white/70"}
                     `}
-            >
-              {search.neteaseProvider.label}
-            </button>
+              >
+                {tab.label}
+              </button>
+            ))}
           </div>
 
           {/* Search Bar */}
@@ -319,12 +318,12 @@ const SearchModal: React.FC<SearchModalProps> = ({
               value={search.query}
               onChange={(e) => search.setQuery(e.target.value)}
               placeholder={
-                search.activeTab === "netease"
-                  ? "Search online..."
+                search.onlineProvider
+                  ? `Search ${search.onlineProvider.label}...`
                   : "Filter queue..."
               }
-              className="
-                        w-full pl-12 pr-4 py-3.5
+              className={`
+                        w-full pl-12 py-3.5 ${search.activeTab === "queue" ? "pr-24" : "pr-4"}
                         bg-black/20 hover:bg-black/30 focus:bg-black/40
                         border border-white/5 focus:border-white/15
                         rounded-[12px]
@@ -332,8 +331,20 @@ const SearchModal: React.FC<SearchModalProps> = ({
                         outline-none
                         transition-all duration-200
                         shadow-inner
-                    "
+                    `}
             />
+            {search.activeTab === "queue" && (
+              <div className="absolute inset-y-0 right-0 pr-3 flex items-center">
+                <button
+                  onClick={() => search.setLikedOnly(!search.likedOnly)}
+                  className={`flex items-center gap-1.5 px-2.5 py-1 rounded-full text-xs font-medium transition-colors ${search.likedOnly ? "bg-white/20 text-white" : "text-white/40 hover:text-white/70 hover:bg-white/10"}`}
+                  title="Only show liked songs"
+                >
+                  <HeartIcon className="w-3.5 h-3.5" filled={search.likedOnly} />
+                  Liked
+                </button>
+              </div>
+            )}
           </div>
         </div>
 
@@ -348,7 +359,11 @@ const SearchModal: React.FC<SearchModalProps> = ({
             <div className="relative flex flex-col gap-1">
               {search.queueResults.length === 0 ? (
                 <div className="flex flex-col items-center justify-center h-64 text-white/20">
-                  <span className="text-lg">No songs in queue</span>
+                  <span className="text-lg">
+                    {search.likedOnly
+                      ? "No liked songs in queue"
+                      : "No songs in queue"}
+                  </span>
                 </div>
               ) : (
                 <>
@@ -433,6 +448,7 @@ const SearchModal: React.FC<SearchModalProps> = ({
                             {s.artist}
                           </div>
                         </div>
+                        {renderLikeButton(s, search.selectedIndex === idx)}
                         {search.selectedIndex === idx && (
                           <div className="mr-1">
                             <PlayIcon className="w-5 h-5 fill-white/80" />
@@ -446,11 +462,11 @@ const SearchModal: React.FC<SearchModalProps> = ({
             </div>
           )}
 
-          {/* Netease Results */}
-          {search.activeTab === "netease" && (
+          {/* Online Results */}
+          {search.onlineProvider && (
             <div className="relative flex flex-col gap-1 pb-4">
               {/* Prompt to press Enter */}
-              {search.showNeteasePrompt && (
+              {search.showOnlinePrompt && (
                 <div className="flex flex-col items-center justify-center h-64 text-white/30">
                   <SearchIcon className="w-12 h-12 mb-4 opacity-20" />
                   <span className="text-base font-medium">
@@ -464,7 +480,7 @@ const SearchModal: React.FC<SearchModalProps> = ({
               )}
 
               {/* No results after search */}
-              {search.showNeteaseEmpty && (
+              {search.showOnlineEmpty && (
                 <div className="flex flex-col items-center justify-center h-64 text-white/20">
                   <SearchIcon className="w-12 h-12 mb-4 opacity-20" />
                   <span className="text-base font-medium">
@@ -474,7 +490,7 @@ const SearchModal: React.FC<SearchModalProps> = ({
               )}
 
               {/* Loading State */}
-              {search.showNeteaseLoading && (
+              {search.showOnlineLoading && (
                 <div className="flex flex-col items-center justify-center h-64 text-white/20">
                   <div className="w-8 h-8 border-2 border-white/20 border-t-white/60 rounded-full animate-spin mb-4"></div>
                   <span className="text-base font-medium">Searching...</span>
@@ -482,17 +498,17 @@ const SearchModal: React.FC<SearchModalProps> = ({
               )}
 
               {/* Initial empty state */}
-              {search.showNeteaseInitial && (
+              {search.showOnlineInitial && (
                 <div className="flex flex-col items-center justify-center h-64 text-white/20">
                   <SearchIcon className="w-12 h-12 mb-4 opacity-20" />
                   <span className="text-base font-medium">
-                    Search Cloud Music
+                    Search {search.onlineProvider.label}
                   </span>
                 </div>
               )}
 
               {/* Results list */}
-              {search.neteaseProvider.results.length > 0 && (
+              {search.onlineProvider.results.length > 0 && (
                 <>
                   {/* Floating Selection Background */}
                   {search.selectedIndex >= 0 && search.itemRefs.current[search.selectedIndex] && (
@@ -506,7 +522,7 @@ const SearchModal: React.FC<SearchModalProps> = ({
                     />
                   )}
 
-                  {search.neteaseProvider.results.map((track, idx) => {
+                  {search.onlineProvider.results.map((track, idx) => {
                     const nowPlaying = search.isNowPlaying(track);
                     return (
                       <div
@@ -516,7 +532,7 @@ const SearchModal: React.FC<SearchModalProps> = ({
                         }}
                         onClick={() => handleSelection(idx)}
                         onContextMenu={(e) =>
-                          search.openContextMenu(e, track, "netease")
+                          search.openContextMenu(e, track, search.activeTab)
                         }
                         className={`
                                         relative z-10 group flex items-center gap-3 p-3 rounded-[10px] cursor-pointer
@@ -573,6 +589,10 @@ const SearchModal: React.FC<SearchModalProps> = ({
                             {track.album}
                           </div>
                         </div>
+                        {renderLikeButton(
+                          trackToSong(track),
+                          search.selectedIndex === idx,
+                        )}
                         <div className="px-2">
                           <span
                             className={`
@@ -591,9 +611,9 @@ const SearchModal: React.FC<SearchModalProps> = ({
                   })}
 
                   {/* Loading Indicator */}
-                  {search.neteaseProvider.hasMore && (
+                  {search.onlineProvider.hasMore && (
                     <div className="py-6 flex items-center justify-center">
-                      {search.neteaseProvider.isLoading ? (
+                      {search.onlineProvider.isLoading ? (
                         <div className="w-5 h-5 border-2 border-white/20 border-t-white/60 rounded-full animate-spin"></div>
                       ) : (
                         <div className="text-white/20 text-xs">
@@ -624,9 +644,7 @@ const SearchModal: React.FC<SearchModalProps> = ({
                     const idx = queue.findIndex((s) => s.id === qItem.id);
                     onPlayQueueIndex(idx);
                   } else {
-                    playNeteaseTrack(
-                      search.contextMenu!.track as NeteaseTrackInfo,
-                    );
+                    playOnlineTrack(search.contextMenu!.track as TrackInfo);
                   }
                   search.closeContextMenu();
                   onClose();
@@ -637,13 +655,27 @@ const SearchModal: React.FC<SearchModalProps> = ({
                 Play Now
               </button>
 
-              {search.contextMenu.type === "netease" && (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onPlayNext(
+                    search.contextMenu!.type === "queue"
+                      ? (search.contextMenu!.track as Song)
+                      : trackToSong(search.contextMenu!.track as TrackInfo),
+                  );
+                  search.closeContextMenu();
+                }}
+                className="flex items-center gap-3 px-3 py-2 text-left text-[13px] text-white/90 hover:bg-blue-500 hover:text-white rounded-lg transition-colors"
+              >
+                <NextIcon className="w-4 h-4" />
+                Play Next
+              </button>
+
+              {search.contextMenu.type !== "queue" && (
                 <button
                   onClick={(e) => {
                     e.stopPropagation();
-                    addNeteaseToQueue(
-                      search.contextMenu!.track as NeteaseTrackInfo,
-                    );
+                    addOnlineToQueue(search.contextMenu!.track as TrackInfo);
                     search.closeContextMenu();
                   }}
                   className="flex items-center gap-3 px-3 py-2 text-left text-[13px] text-white/90 hover:bg-blue-500 hover:text-white rounded-lg transition-colors"
@@ -652,6 +684,23 @@ const SearchModal: React.FC<SearchModalProps> = ({
                   Add to Queue
                 </button>
               )}
+
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onAddToPlaylist(
+                    search.contextMenu!.type === "queue"
+                      ? (search.contextMenu!.track as Song)
+                      : trackToSong(search.contextMenu!.track as TrackInfo),
+                  );
+                  search.closeContextMenu();
+                  onClose();
+                }}
+                className="flex items-center gap-3 px-3 py-2 text-left text-[13px] text-white/90 hover:bg-blue-500 hover:text-white rounded-lg transition-colors"
+              >
+                <LibraryIcon className="w-4 h-4" />
+                Add to Playlist…
+              </button>
             </div>,
             document.body,
           )}
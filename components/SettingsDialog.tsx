@@ -0,0 +1,443 @@
+import React, { useEffect, useState } from "react";
+import { createPortal } from "react-dom";
+import { useKeyboardScope } from "../hooks/useKeyboardScope";
+import {
+  DEFAULT_SCROBBLE_ENDPOINT,
+  ScrobbleSettings,
+  TokenValidation,
+  validateToken,
+} from "../services/scrobbler";
+import {
+  ENDPOINT_KINDS,
+  EndpointHealth,
+  EndpointKind,
+  EndpointSettings,
+  checkEndpoint,
+  parseEndpointList,
+} from "../services/config";
+import { CacheUsage, clearCaches, getCacheUsage } from "../services/cache";
+import { formatBytes } from "../services/utils";
+
+interface SettingsDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  scrobbleSettings: ScrobbleSettings;
+  onScrobbleSettingsChange: (patch: Partial<ScrobbleSettings>) => void;
+  pendingScrobbles: number;
+  onRetryScrobbles: () => void;
+  onOpen?: () => void;
+  endpoints: EndpointSettings;
+  onEndpointsChange: (patch: Partial<EndpointSettings>) => void;
+  onResetEndpoints: () => void;
+  accentColor: string;
+}
+
+const ENDPOINT_FIELDS: Record<EndpointKind, { label: string; hint: string }> = {
+  neteaseApis: {
+    label: "NeteaseCloudMusicApi",
+    hint: "Base URLs used for search, playlists and lyrics",
+  },
+  metingApis: {
+    label: "Meting",
+    hint: "URL templates with :server, :type and :id",
+  },
+  jsonProxies: {
+    label: "API proxies",
+    hint: "Used when an API blocks the browser; :url is the request",
+  },
+  imageProxies: {
+    label: "Image proxies",
+    hint: "Used for cover art; :url is the image",
+  },
+};
+
+const toDrafts = (endpoints: EndpointSettings) =>
+  Object.fromEntries(
+    ENDPOINT_KINDS.map((kind) => [kind, endpoints[kind].join("\n")]),
+  ) as Record<EndpointKind, string>;
+
+const SettingsDialog: React.FC<SettingsDialogProps> = ({
+  isOpen,
+  onClose,
+  scrobbleSettings,
+  onScrobbleSettingsChange,
+  pendingScrobbles,
+  onRetryScrobbles,
+  onOpen,
+  endpoints,
+  onEndpointsChange,
+  onResetEndpoints,
+  accentColor,
+}) => {
+  // Text fields are committed on blur so typing doesn't hit the server
+  const [endpoint, setEndpoint] = useState(scrobbleSettings.endpoint);
+  const [token, setToken] = useState(scrobbleSettings.token);
+  const [validation, setValidation] = useState<TokenValidation | null>(null);
+  const [isValidating, setIsValidating] = useState(false);
+  // One URL per line, in priority order
+  const [endpointDrafts, setEndpointDrafts] = useState(() =>
+    toDrafts(endpoints),
+  );
+  const [endpointHealth, setEndpointHealth] = useState<
+    Map<string, EndpointHealth>
+  >(() => new Map());
+  const [isCheckingEndpoints, setIsCheckingEndpoints] = useState(false);
+  const [cacheUsage, setCacheUsage] = useState<CacheUsage[] | null>(null);
+  const [isClearingCache, setIsClearingCache] = useState(false);
+
+  useEffect(() => {
+    setEndpointDrafts(toDrafts(endpoints));
+  }, [endpoints]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setEndpoint(scrobbleSettings.endpoint);
+    setToken(scrobbleSettings.token);
+    setValidation(null);
+    setEndpointHealth(new Map());
+    setCacheUsage(null);
+    getCacheUsage().then(setCacheUsage);
+    onOpen?.();
+  }, [isOpen]);
+
+  useKeyboardScope(
+    (e: KeyboardEvent) => {
+      if (e.key === "Escape") {
+        e.preventDefault();
+        onClose();
+        return true;
+      }
+      return false;
+    },
+    100,
+    isOpen,
+  );
+
+  if (!isOpen) return null;
+
+  const commitFields = () => {
+    const patch: Partial<ScrobbleSettings> = {};
+    const trimmedEndpoint = endpoint.trim() || DEFAULT_SCROBBLE_ENDPOINT;
+    if (trimmedEndpoint !== scrobbleSettings.endpoint) patch.endpoint = trimmedEndpoint;
+    if (token.trim() !== scrobbleSettings.token) patch.token = token.trim();
+    if (Object.keys(patch).length > 0) {
+      setValidation(null);
+      onScrobbleSettingsChange(patch);
+    }
+  };
+
+  const commitEndpoints = () => {
+    const patch: Partial<EndpointSettings> = {};
+    ENDPOINT_KINDS.forEach((kind) => {
+      const list = parseEndpointList(endpointDrafts[kind]) ?? [];
+      if (list.join("\n") !== endpoints[kind].join("\n")) patch[kind] = list;
+    });
+    if (Object.keys(patch).length > 0) onEndpointsChange(patch);
+  };
+
+  const handleCheckEndpoints = async () => {
+    commitEndpoints();
+    setIsCheckingEndpoints(true);
+    try {
+      const urls = Array.from(
+        new Set(
+          ENDPOINT_KINDS.flatMap(
+            (kind) => parseEndpointList(endpointDrafts[kind]) ?? [],
+          ),
+        ),
+      );
+      const results = await Promise.all(
+        urls.map(async (url) => [url, await checkEndpoint(url)] as const),
+      );
+      setEndpointHealth(new Map(results));
+    } finally {
+      setIsCheckingEndpoints(false);
+    }
+  };
+
+  const handleClearCache = async () => {
+    setIsClearingCache(true);
+    try {
+      await clearCaches();
+      setCacheUsage(await getCacheUsage());
+    } finally {
+      setIsClearingCache(false);
+    }
+  };
+
+  const handleValidate = async () => {
+    commitFields();
+    setIsValidating(true);
+    try {
+      setValidation(
+        await validateToken({
+          ...scrobbleSettings,
+          endpoint: endpoint.trim() || DEFAULT_SCROBBLE_ENDPOINT,
+          token: token.trim(),
+        }),
+      );
+    } finally {
+      setIsValidating(false);
+    }
+  };
+
+  const handleClose = () => {
+    commitFields();
+    commitEndpoints();
+    onClose();
+  };
+
+  return createPortal(
+    <div className="fixed inset-0 z-[9999] flex items-center justify-center px-4 select-none pointer-events-none">
+      <style>{`
+        @keyframes modal-in {
+            0% { opacity: 0; transform: scale(0.96) translateY(-8px); }
+            100% { opacity: 1; transform: scale(1) translateY(0); }
+        }
+        .dialog-in { animation: modal-in 0.2s cubic-bezier(0.2, 0.8, 0.2, 1) forwards; will-change: transform, opacity; }
+      `}</style>
+
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-black/20 backdrop-blur-sm pointer-events-auto"
+        onClick={handleClose}
+      />
+
+      {/* Modal */}
+      <div
+        className="dialog-in relative w-full max-w-[480px] max-h-[90vh] flex flex-col bg-black/40 backdrop-blur-2xl saturate-150 border border-white/10 rounded-[32px] shadow-[0_30px_80px_rgba(0,0,0,0.45)] overflow-hidden ring-1 ring-white/5 pointer-events-auto text-white"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-6 pt-6 pb-4 border-b border-white/5">
+          <h3 className="text-lg font-bold leading-none tracking-tight">
+            Settings
+          </h3>
+        </div>
+
+        <div className="px-6 py-5 flex flex-col gap-6 overflow-y-auto select-text">
+          {/* Scrobbling */}
+          <div className="flex flex-col gap-3">
+            <label className="flex items-center justify-between text-sm cursor-pointer">
+              <div className="flex flex-col">
+                <span className="text-white/70 font-medium">Scrobbling</span>
+                <span className="text-[12px] text-white/40">
+                  Send what you play to ListenBrainz or a compatible server
+                </span>
+              </div>
+              <input
+                type="checkbox"
+                checked={scrobbleSettings.enabled}
+                onChange={(e) =>
+                  onScrobbleSettingsChange({ enabled: e.target.checked })
+                }
+                style={{ accentColor }}
+              />
+            </label>
+
+            <label className="flex flex-col gap-1.5 text-[13px] text-white/50">
+              <span>Server</span>
+              <input
+                type="url"
+                value={endpoint}
+                onChange={(e) => setEndpoint(e.target.value)}
+                onBlur={commitFields}
+                placeholder={DEFAULT_SCROBBLE_ENDPOINT}
+                className="bg-white/10 rounded-lg px-3 py-2 text-sm text-white placeholder-white/30 outline-none focus:ring-1 focus:ring-white/30"
+              />
+            </label>
+
+            <label className="flex flex-col gap-1.5 text-[13px] text-white/50">
+              <span>User token</span>
+              <input
+                type="password"
+                value={token}
+                onChange={(e) => setToken(e.target.value)}
+                onBlur={commitFields}
+                placeholder="Paste your token"
+                autoComplete="off"
+                className="bg-white/10 rounded-lg px-3 py-2 text-sm text-white placeholder-white/30 outline-none focus:ring-1 focus:ring-white/30"
+              />
+            </label>
+
+            <div className="flex items-center justify-between gap-3 text-[13px]">
+              <span
+                className={
+                  validation
+                    ? validation.valid
+                      ? "text-green-400/90"
+                      : "text-red-400/90"
+                    : "text-white/40"
+                }
+              >
+                {validation
+                  ? validation.valid
+                    ? `Connected as ${validation.userName ?? "unknown user"}`
+                    : validation.message ?? "Token rejected"
+                  : pendingScrobbles > 0
+                    ? `${pendingScrobbles} scrobbles waiting to be sent`
+                    : "Nothing waiting to be sent"}
+              </span>
+              <div className="flex gap-2 shrink-0">
+                {pendingScrobbles > 0 && (
+                  <button
+                    onClick={onRetryScrobbles}
+                    className="px-3 py-1.5 rounded-full text-xs font-medium bg-white/5 text-white/60 hover:bg-white/10 transition-colors"
+                  >
+                    Retry Now
+                  </button>
+                )}
+                <button
+                  onClick={handleValidate}
+                  disabled={!token.trim() || isValidating}
+                  className="px-3 py-1.5 rounded-full text-xs font-medium bg-white/10 text-white/80 hover:bg-white/20 disabled:opacity-40 transition-colors"
+                >
+                  {isValidating ? "Checking..." : "Check Token"}
+                </button>
+              </div>
+            </div>
+          </div>
+
+          {/* Endpoints */}
+          <div className="flex flex-col gap-3">
+            <div className="flex flex-col">
+              <span className="text-sm text-white/70 font-medium">
+                Endpoints
+              </span>
+              <span className="text-[12px] text-white/40">
+                One URL per line. Requests go to the first that works.
+              </span>
+            </div>
+
+            {ENDPOINT_KINDS.map((kind) => (
+              <label
+                key={kind}
+                className="flex flex-col gap-1.5 text-[13px] text-white/50"
+              >
+                <span>
+                  {ENDPOINT_FIELDS[kind].label}
+                  <span className="text-white/30">
+                    {" "}
+                    · {ENDPOINT_FIELDS[kind].hint}
+                  </span>
+                </span>
+                <textarea
+                  value={endpointDrafts[kind]}
+                  onChange={(e) =>
+                    setEndpointDrafts((prev) => ({
+                      ...prev,
+                      [kind]: e.target.value,
+                    }))
+                  }
+                  onBlur={commitEndpoints}
+                  rows={Math.max(2, endpointDrafts[kind].split("\n").length)}
+                  spellCheck={false}
+                  className="bg-white/10 rounded-lg px-3 py-2 text-xs font-mono text-white placeholder-white/30 outline-none focus:ring-1 focus:ring-white/30 resize-none whitespace-pre overflow-x-auto"
+                />
+                {(parseEndpointList(endpointDrafts[kind]) ?? [])
+                  .filter((url) => endpointHealth.has(url))
+                  .map((url) => {
+                    const status = endpointHealth.get(url)!;
+                    return (
+                      <span
+                        key={url}
+                        className="flex items-center gap-2 text-[11px] text-white/40"
+                      >
+                        <span
+                          className={`w-1.5 h-1.5 rounded-full shrink-0 ${status.ok ? "bg-green-400" : "bg-red-400"}`}
+                        />
+                        <span className="truncate">{url}</span>
+                        <span className="shrink-0 ml-auto">
+                          {status.ok
+                            ? `${Math.round(status.latencyMs ?? 0)} ms`
+                            : "Unreachable"}
+                        </span>
+                      </span>
+                    );
+                  })}
+              </label>
+            ))}
+
+            <div className="flex justify-end gap-2">
+              <button
+                onClick={onResetEndpoints}
+                className="px-3 py-1.5 rounded-full text-xs font-medium bg-white/5 text-white/60 hover:bg-white/10 transition-colors"
+              >
+                Reset
+              </button>
+              <button
+                onClick={handleCheckEndpoints}
+                disabled={isCheckingEndpoints}
+                className="px-3 py-1.5 rounded-full text-xs font-medium bg-white/10 text-white/80 hover:bg-white/20 disabled:opacity-40 transition-colors"
+              >
+                {isCheckingEndpoints ? "Checking..." : "Check Endpoints"}
+              </button>
+            </div>
+          </div>
+
+          {/* Cache */}
+          <div className="flex flex-col gap-3">
+            <div className="flex flex-col">
+              <span className="text-sm text-white/70 font-medium">Cache</span>
+              <span className="text-[12px] text-white/40">
+                Songs, covers and lyrics kept on this device so they load
+                without the network. The least recently used go first;
+                offline downloads stay until you remove them.
+              </span>
+            </div>
+
+            {cacheUsage ? (
+              cacheUsage.map((usage) => (
+                <div key={usage.id} className="flex flex-col gap-1.5">
+                  <div className="flex justify-between text-[13px] text-white/50">
+                    <span>{usage.label}</span>
+                    <span className="font-mono text-white/40">
+                      {formatBytes(usage.bytes)}
+                      {usage.limit !== undefined &&
+                        ` / ${formatBytes(usage.limit)}`}
+                    </span>
+                  </div>
+                  {usage.limit !== undefined && (
+                    <div className="h-1 rounded-full bg-white/10 overflow-hidden">
+                      <div
+                        className="h-full rounded-full"
+                        style={{
+                          width: `${Math.min(100, (usage.bytes / usage.limit) * 100)}%`,
+                          backgroundColor: accentColor,
+                        }}
+                      />
+                    </div>
+                  )}
+                </div>
+              ))
+            ) : (
+              <span className="text-[13px] text-white/40">Measuring...</span>
+            )}
+
+            <div className="flex justify-end">
+              <button
+                onClick={handleClearCache}
+                disabled={isClearingCache}
+                className="px-3 py-1.5 rounded-full text-xs font-medium bg-white/10 text-white/80 hover:bg-white/20 disabled:opacity-40 transition-colors"
+              >
+                {isClearingCache ? "Clearing..." : "Clear Cache"}
+              </button>
+            </div>
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="border-t border-white/10 bg-white/5 p-2">
+          <button
+            onClick={handleClose}
+            className="w-full py-3.5 rounded-2xl text-[16px] font-semibold text-white/90 hover:bg-white/10 active:scale-[0.98] transition-all duration-200"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body,
+  );
+};
+
+export default SettingsDialog;
@@ -8,7 +8,7 @@ import React, {
   useRef,
   useState,
 } from "react";
-import { imageResourceCache } from "../services/cache";
+import { imageResourceCache, loadCachedImageBlob } from "../services/cache";
 
 const makeCacheKey = (src: string, width: number, height: number) => {
   const dpr = typeof window === "undefined" ? 1 : window.devicePixelRatio || 1;
@@ -292,14 +292,31 @@ const SmartImage: React.FC<SmartImageProps> = ({
       setFinalUrl(src, false);
     };
     
-    // Start loading the image
-    imageElement.src = src;
+    // Start loading the image, unless it was stored by an earlier session
+    let rawObjectUrl: string | null = null;
+    imageResourceCache.load(effectiveKey).then(async (storedBlob) => {
+      if (canceled) return;
+      if (storedBlob) {
+        setFinalUrl(URL.createObjectURL(storedBlob), true);
+        return;
+      }
+      // The full-size image may be stored (offline downloads); resize that
+      const rawBlob = await loadCachedImageBlob(src);
+      if (canceled) return;
+      if (rawBlob) {
+        rawObjectUrl = URL.createObjectURL(rawBlob);
+        imageElement.src = rawObjectUrl;
+      } else {
+        imageElement.src = src;
+      }
+    });
 
     return () => {
       canceled = true;
       imageElement.onload = null;
       imageElement.onerror = null;
       imageElement.src = "";
+      if (rawObjectUrl) URL.revokeObjectURL(rawObjectUrl);
     };
   }, [effectiveKey, normalizedSize, resetDisplay, setFinalUrl, src, isVisible]);
 
@@ -0,0 +1,292 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { createPortal } from "react-dom";
+import { Song } from "../types";
+import { useKeyboardScope } from "../hooks/useKeyboardScope";
+import {
+  PlayRecord,
+  StatsRange,
+  clearHistory,
+  computeStats,
+  getRecentlyPlayed,
+  loadHistory,
+} from "../services/history";
+import { PlusIcon } from "./Icons";
+import SmartImage from "./SmartImage";
+
+interface StatsDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onRequeue: (songs: Song[]) => void;
+  accentColor: string;
+}
+
+const RANGE_OPTIONS: { value: StatsRange; label: string }[] = [
+  { value: "week", label: "Past 7 Days" },
+  { value: "month", label: "Past 30 Days" },
+];
+
+const formatListeningTime = (seconds: number) => {
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  return `${hours} h ${minutes % 60} min`;
+};
+
+const formatAgo = (timestamp: number) => {
+  const minutes = Math.floor((Date.now() - timestamp) / 60000);
+  if (minutes < 1) return "just now";
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  return `${Math.floor(hours / 24)}d ago`;
+};
+
+const StatsDialog: React.FC<StatsDialogProps> = ({
+  isOpen,
+  onClose,
+  onRequeue,
+  accentColor,
+}) => {
+  const [records, setRecords] = useState<PlayRecord[]>([]);
+  const [range, setRange] = useState<StatsRange>("week");
+
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    loadHistory().then((loaded) => {
+      if (!cancelled) setRecords(loaded);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen]);
+
+  useKeyboardScope(
+    (e: KeyboardEvent) => {
+      if (e.key === "Escape") {
+        e.preventDefault();
+        onClose();
+        return true;
+      }
+      return false;
+    },
+    100,
+    isOpen,
+  );
+
+  const stats = useMemo(() => computeStats(records, range), [records, range]);
+  const recent = useMemo(() => getRecentlyPlayed(records), [records]);
+
+  if (!isOpen) return null;
+
+  const handleClear = async () => {
+    await clearHistory();
+    setRecords([]);
+  };
+
+  const maxTrackPlays = stats.topTracks[0]?.plays ?? 1;
+  const maxArtistPlays = stats.topArtists[0]?.plays ?? 1;
+
+  return createPortal(
+    <div className="fixed inset-0 z-[9999] flex items-center justify-center px-4 select-none pointer-events-none">
+      <style>{`
+        @keyframes modal-in {
+            0% { opacity: 0; transform: scale(0.96) translateY(-8px); }
+            100% { opacity: 1; transform: scale(1) translateY(0); }
+        }
+        .dialog-in { animation: modal-in 0.2s cubic-bezier(0.2, 0.8, 0.2, 1) forwards; will-change: transform, opacity; }
+      `}</style>
+
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-black/20 backdrop-blur-sm pointer-events-auto"
+        onClick={onClose}
+      />
+
+      {/* Modal */}
+      <div
+        className="dialog-in relative w-full max-w-[560px] max-h-[90vh] flex flex-col bg-black/40 backdrop-blur-2xl saturate-150 border border-white/10 rounded-[32px] shadow-[0_30px_80px_rgba(0,0,0,0.45)] overflow-hidden ring-1 ring-white/5 pointer-events-auto text-white"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-6 pt-6 pb-4 border-b border-white/5 flex items-center justify-between gap-4">
+          <div>
+            <h3 className="text-lg font-bold leading-none tracking-tight">
+              Listening Stats
+            </h3>
+            <span className="text-white/40 text-xs font-medium">
+              Stored on this device only
+            </span>
+          </div>
+          <div className="grid grid-cols-2 gap-1 p-1 rounded-full bg-white/5">
+            {RANGE_OPTIONS.map((option) => (
+              <button
+                key={option.value}
+                onClick={() => setRange(option.value)}
+                className={`px-3 py-1.5 rounded-full text-xs font-medium transition-colors ${range === option.value ? "bg-white/20 text-white" : "text-white/50 hover:text-white"}`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="px-6 py-5 flex flex-col gap-6 overflow-y-auto">
+          {/* Summary */}
+          <div className="grid grid-cols-3 gap-2">
+            {[
+              { label: "Listening", value: formatListeningTime(stats.listened) },
+              { label: "Plays", value: `${stats.plays}` },
+              { label: "Skips", value: `${stats.skips}` },
+            ].map((item) => (
+              <div
+                key={item.label}
+                className="flex flex-col gap-1 p-3 rounded-2xl bg-white/5"
+              >
+                <span className="text-[12px] text-white/40">{item.label}</span>
+                <span className="text-[17px] font-semibold">{item.value}</span>
+              </div>
+            ))}
+          </div>
+
+          {/* Top tracks */}
+          <div className="flex flex-col gap-2">
+            <span className="text-sm text-white/70 font-medium">Top Tracks</span>
+            {stats.topTracks.length === 0 ? (
+              <p className="text-[13px] text-white/30">
+                Nothing played in this period yet.
+              </p>
+            ) : (
+              stats.topTracks.map((track, index) => (
+                <div key={index} className="flex items-center gap-3">
+                  <span className="w-5 text-right text-[12px] font-mono text-white/40">
+                    {index + 1}
+                  </span>
+                  <div className="flex-1 min-w-0">
+                    <div className="text-[13px] text-white/90 truncate">
+                      {track.song.title}
+                      <span className="text-white/40"> · {track.song.artist}</span>
+                    </div>
+                    <div className="h-1 mt-1 rounded-full bg-white/5 overflow-hidden">
+                      <div
+                        className="h-full rounded-full"
+                        style={{
+                          width: `${(track.plays / maxTrackPlays) * 100}%`,
+                          backgroundColor: accentColor,
+                        }}
+                      />
+                    </div>
+                  </div>
+                  <span className="w-14 text-right text-[12px] font-mono text-white/60">
+                    {track.plays} {track.plays === 1 ? "play" : "plays"}
+                  </span>
+                </div>
+              ))
+            )}
+          </div>
+
+          {/* Top artists */}
+          {stats.topArtists.length > 0 && (
+            <div className="flex flex-col gap-2">
+              <span className="text-sm text-white/70 font-medium">Top Artists</span>
+              {stats.topArtists.map((artist, index) => (
+                <div key={index} className="flex items-center gap-3">
+                  <span className="w-5 text-right text-[12px] font-mono text-white/40">
+                    {index + 1}
+                  </span>
+                  <div className="flex-1 min-w-0">
+                    <div className="text-[13px] text-white/90 truncate">
+                      {artist.artist}
+                    </div>
+                    <div className="h-1 mt-1 rounded-full bg-white/5 overflow-hidden">
+                      <div
+                        className="h-full rounded-full"
+                        style={{
+                          width: `${(artist.plays / maxArtistPlays) * 100}%`,
+                          backgroundColor: accentColor,
+                        }}
+                      />
+                    </div>
+                  </div>
+                  <span className="w-14 text-right text-[12px] font-mono text-white/60">
+                    {formatListeningTime(artist.listened)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Recently played */}
+          <div className="flex flex-col gap-2">
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-white/70 font-medium">Recently Played</span>
+              {recent.length > 0 && (
+                <button
+                  onClick={() => onRequeue(recent.map((record) => record.song))}
+                  className="text-xs text-white/50 hover:text-white transition-colors"
+                >
+                  Queue All
+                </button>
+              )}
+            </div>
+            {recent.length === 0 ? (
+              <p className="text-[13px] text-white/30">No history yet.</p>
+            ) : (
+              recent.map((record) => (
+                <div
+                  key={record.id}
+                  className="group flex items-center gap-3 p-1.5 rounded-xl hover:bg-white/5"
+                >
+                  <div className="w-9 h-9 rounded-lg overflow-hidden flex-shrink-0 bg-white/10">
+                    {record.song.coverUrl && (
+                      <SmartImage
+                        src={record.song.coverUrl}
+                        alt={record.song.title}
+                        containerClassName="w-full h-full"
+                        imgClassName="w-full h-full object-cover"
+                      />
+                    )}
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <div className="text-[13px] text-white/90 truncate">
+                      {record.song.title}
+                    </div>
+                    <div className="text-[11px] text-white/40 truncate">
+                      {record.song.artist} · {formatAgo(record.startedAt)}
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => onRequeue([record.song])}
+                    className="w-7 h-7 rounded-full flex items-center justify-center text-white/40 hover:text-white hover:bg-white/10 transition-colors"
+                    title="Add to Queue"
+                  >
+                    <PlusIcon className="w-4 h-4" />
+                  </button>
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="border-t border-white/10 bg-white/5 p-2 grid grid-cols-2 gap-2">
+          <button
+            onClick={handleClear}
+            disabled={records.length === 0}
+            className="py-3.5 rounded-2xl text-[16px] font-semibold text-white/60 hover:bg-white/10 disabled:opacity-40 active:scale-[0.98] transition-all duration-200"
+          >
+            Clear History
+          </button>
+          <button
+            onClick={onClose}
+            className="py-3.5 rounded-2xl text-[16px] font-semibold text-white/90 hover:bg-white/10 active:scale-[0.98] transition-all duration-200"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body,
+  );
+};
+
+export default StatsDialog;
@@ -1,19 +1,26 @@
 import React, { useRef, useState } from "react";
-import { KaelLogo, SearchIcon, CloudUploadIcon, InfoIcon, FullscreenIcon } from "./Icons";
+import { KaelLogo, SearchIcon, CloudUploadIcon, InfoIcon, FullscreenIcon, ChartIcon, SettingsIcon, FolderIcon, AlbumIcon } from "./Icons";
 import AboutDialog from "./AboutDialog";
 
 interface TopBarProps {
   onFilesSelected: (files: FileList) => void;
   onSearchClick: () => void;
+  onBrowseClick: () => void;
+  onStatsClick: () => void;
+  onSettingsClick: () => void;
   disabled?: boolean;
 }
 
 const TopBar: React.FC<TopBarProps> = ({
   onFilesSelected,
   onSearchClick,
+  onBrowseClick,
+  onStatsClick,
+  onSettingsClick,
   disabled,
 }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
   const [isAboutOpen, setIsAboutOpen] = useState(false);
   const [isFullscreen, setIsFullscreen] = useState(false);
   const [isTopBarActive, setIsTopBarActive] = useState(false);
@@ -61,6 +68,12 @@ const TopBar: React.FC<TopBarProps> = ({
     activateTopBar();
   };
 
+  // React doesn't know the directory picker attributes
+  React.useEffect(() => {
+    folderInputRef.current?.setAttribute("webkitdirectory", "");
+    folderInputRef.current?.setAttribute("directory", "");
+  }, []);
+
   React.useEffect(() => {
     const handleFullscreenChange = () => {
       setIsFullscreen(!!document.fullscreenElement);
@@ -142,6 +155,43 @@ const TopBar: React.FC<TopBarProps> = ({
             <CloudUploadIcon className="w-5 h-5" />
           </button>
 
+          {/* Import Folder Button */}
+          <button
+            onClick={() => folderInputRef.current?.click()}
+            disabled={disabled}
+            className="w-10 h-10 rounded-full bg-white/10 backdrop-blur-xl border border-white/10 flex items-center justify-center text-white/80 hover:bg-white/20 hover:text-white transition-all shadow-sm disabled:opacity-50 disabled:cursor-not-allowed"
+            title="Import Folder"
+          >
+            <FolderIcon className="w-5 h-5" />
+          </button>
+
+          {/* Browse Button */}
+          <button
+            onClick={onBrowseClick}
+            className="w-10 h-10 rounded-full bg-white/10 backdrop-blur-xl border border-white/10 flex items-center justify-center text-white/80 hover:bg-white/20 hover:text-white transition-all shadow-sm"
+            title="Albums & Artists"
+          >
+            <AlbumIcon className="w-5 h-5" />
+          </button>
+
+          {/* Stats Button */}
+          <button
+            onClick={onStatsClick}
+            className="w-10 h-10 rounded-full bg-white/10 backdrop-blur-xl border border-white/10 flex items-center justify-center text-white/80 hover:bg-white/20 hover:text-white transition-all shadow-sm"
+            title="Listening Stats"
+          >
+            <ChartIcon className="w-5 h-5" />
+          </button>
+
+          {/* Settings Button */}
+          <button
+            onClick={onSettingsClick}
+            className="w-10 h-10 rounded-full bg-white/10 backdrop-blur-xl border border-white/10 flex items-center justify-center text-white/80 hover:bg-white/20 hover:text-white transition-all shadow-sm"
+            title="Settings"
+          >
+            <SettingsIcon className="w-5 h-5" />
+          </button>
+
           {/* About Button */}
           <button
             onClick={() => setIsAboutOpen(true)}
@@ -164,10 +214,16 @@ const TopBar: React.FC<TopBarProps> = ({
             type="file"
             ref={fileInputRef}
             onChange={handleFileChange}
-            accept="audio/*,.lrc,.txt"
+            accept="audio/*,.lrc,.txt,.m3u,.m3u8,.pls,.xspf"
             multiple
             className="hidden"
           />
+          <input
+            type="file"
+            ref={folderInputRef}
+            onChange={handleFileChange}
+            className="hidden"
+          />
         </div>
       </div>
       <AboutDialog isOpen={isAboutOpen} onClose={() => setIsAboutOpen(false)} />
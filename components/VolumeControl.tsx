@@ -0,0 +1,134 @@
+import React, { useEffect, useRef, useState } from "react";
+import { VolumeIcon } from "./Icons";
+
+interface VolumeControlProps {
+  volume: number;
+  isMuted: boolean;
+  onVolumeChange: (volume: number) => void;
+  onToggleMute: () => void;
+  songVolumeOffset: number | null; // null hides the per-song control
+  onSongVolumeOffsetChange: (db: number) => void;
+  accentColor: string;
+}
+
+const WHEEL_STEP = 0.05;
+const HIDE_DELAY_MS = 300;
+
+const formatOffset = (db: number) =>
+  db === 0 ? "0 dB" : `${db > 0 ? "+" : ""}${db} dB`;
+
+const VolumeControl: React.FC<VolumeControlProps> = ({
+  volume,
+  isMuted,
+  onVolumeChange,
+  onToggleMute,
+  songVolumeOffset,
+  onSongVolumeOffsetChange,
+  accentColor,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const hideTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const show = () => {
+    if (hideTimerRef.current) clearTimeout(hideTimerRef.current);
+    setIsOpen(true);
+  };
+
+  const scheduleHide = () => {
+    if (hideTimerRef.current) clearTimeout(hideTimerRef.current);
+    hideTimerRef.current = setTimeout(() => setIsOpen(false), HIDE_DELAY_MS);
+  };
+
+  useEffect(() => {
+    return () => {
+      if (hideTimerRef.current) clearTimeout(hideTimerRef.current);
+    };
+  }, []);
+
+  // React registers wheel listeners as passive, so preventDefault needs a
+  // native listener
+  const volumeRef = useRef(volume);
+  volumeRef.current = volume;
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const direction = e.deltaY < 0 ? 1 : -1;
+      onVolumeChange(volumeRef.current + direction * WHEEL_STEP);
+    };
+    container.addEventListener("wheel", handleWheel, { passive: false });
+    return () => container.removeEventListener("wheel", handleWheel);
+  }, [onVolumeChange]);
+
+  const displayVolume = isMuted ? 0 : volume;
+
+  return (
+    <div
+      ref={containerRef}
+      className="relative"
+      onMouseEnter={show}
+      onMouseLeave={scheduleHide}
+    >
+      <button
+        onClick={onToggleMute}
+        className="p-2 rounded-full hover:bg-white/10 transition-colors text-white/60 hover:text-white"
+        title={isMuted ? "Unmute" : "Mute"}
+      >
+        <VolumeIcon className="w-5 h-5" level={volume} muted={isMuted} />
+      </button>
+
+      {isOpen && (
+        <div className="absolute bottom-full left-1/2 -translate-x-1/2 mb-2 z-50 w-[200px] px-4 py-3 bg-black/20 backdrop-blur-[100px] saturate-150 rounded-2xl shadow-[0_20px_50px_rgba(0,0,0,0.3)] border border-white/5 flex flex-col gap-3">
+          <div className="flex items-center gap-3">
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.01}
+              value={displayVolume}
+              onChange={(e) => onVolumeChange(parseFloat(e.target.value))}
+              className="flex-1"
+              style={{ accentColor }}
+              aria-label="Volume"
+            />
+            <span className="w-8 text-right text-xs font-mono text-white/70">
+              {Math.round(displayVolume * 100)}
+            </span>
+          </div>
+          {songVolumeOffset !== null && (
+            <div className="flex items-center justify-between text-[12px] text-white/50">
+              <span>This song</span>
+              <div className="flex items-center gap-1">
+                <button
+                  onClick={() => onSongVolumeOffsetChange(songVolumeOffset - 1)}
+                  className="w-6 h-6 rounded-full bg-white/10 hover:bg-white/20 transition-colors"
+                  aria-label="Quieter for this song"
+                >
+                  −
+                </button>
+                <button
+                  onClick={() => onSongVolumeOffsetChange(0)}
+                  className="w-14 font-mono text-white/80 hover:text-white transition-colors"
+                  title="Reset song volume"
+                >
+                  {formatOffset(songVolumeOffset)}
+                </button>
+                <button
+                  onClick={() => onSongVolumeOffsetChange(songVolumeOffset + 1)}
+                  className="w-6 h-6 rounded-full bg-white/10 hover:bg-white/20 transition-colors"
+                  aria-label="Louder for this song"
+                >
+                  +
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VolumeControl;
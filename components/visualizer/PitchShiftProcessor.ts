@@ -0,0 +1,124 @@
+// PitchShiftProcessor.ts (AudioWorklet)
+//
+// Granular pitch shifter: two read taps sweep through a short delay line at a
+// rate set by the pitch ratio, each faded with a sin² window half a grain apart
+// so their gains always sum to one. Tempo is untouched, so it composes with
+// the element's playbackRate.
+
+interface AudioWorkletProcessor {
+    readonly port: MessagePort;
+    process(inputs: Float32Array[][], outputs: Float32Array[][], parameters: Record<string, Float32Array>): boolean;
+}
+
+declare var AudioWorkletProcessor: {
+    prototype: AudioWorkletProcessor;
+    new(options?: any): AudioWorkletProcessor;
+};
+
+declare const sampleRate: number;
+
+declare function registerProcessor(name: string, processorCtor: (new (options?: any) => AudioWorkletProcessor)): void;
+
+const GRAIN_SECONDS = 0.05;
+
+class PitchShiftProcessor extends AudioWorkletProcessor {
+    static get parameterDescriptors() {
+        return [
+            { name: 'pitchRatio', defaultValue: 1, minValue: 0.25, maxValue: 4, automationRate: 'k-rate' },
+        ];
+    }
+
+    private grainSize: number;
+    private bufferSize: number;
+    private buffers: Float32Array[] = [];
+    private writeIndex = 0;
+    // Position of the first tap within the grain, 0..1
+    private phase = 0;
+
+    constructor() {
+        super();
+        this.grainSize = Math.max(256, Math.round(GRAIN_SECONDS * sampleRate));
+        this.bufferSize = this.grainSize * 2;
+    }
+
+    private ensureBuffers(channelCount: number) {
+        while (this.buffers.length < channelCount) {
+            this.buffers.push(new Float32Array(this.bufferSize));
+        }
+    }
+
+    private readAt(buffer: Float32Array, delay: number): number {
+        let position = this.writeIndex - delay;
+        while (position < 0) position += this.bufferSize;
+        const index = Math.floor(position);
+        const frac = position - index;
+        const a = buffer[index % this.bufferSize];
+        const b = buffer[(index + 1) % this.bufferSize];
+        return a + (b - a) * frac;
+    }
+
+    // The node always outputs stereo; a mono input is copied to both sides
+    // rather than leaving the right channel silent
+    private upmix(output: Float32Array[], channelCount: number) {
+        for (let ch = channelCount; ch < output.length; ch++) {
+            output[ch].set(output[channelCount - 1]);
+        }
+    }
+
+    process(inputs: Float32Array[][], outputs: Float32Array[][], parameters: Record<string, Float32Array>): boolean {
+        const input = inputs[0];
+        const output = outputs[0];
+        if (!input || input.length === 0 || !output) return true;
+
+        const ratio = parameters.pitchRatio[0];
+        const channelCount = Math.min(input.length, output.length);
+        const frames = input[0].length;
+        this.ensureBuffers(channelCount);
+
+        // Bypass: keep filling the delay line so engaging the shifter is seamless
+        if (Math.abs(ratio - 1) < 1e-4) {
+            for (let ch = 0; ch < channelCount; ch++) {
+                output[ch].set(input[ch]);
+                const buffer = this.buffers[ch];
+                for (let i = 0; i < frames; i++) {
+                    buffer[(this.writeIndex + i) % this.bufferSize] = input[ch][i];
+                }
+            }
+            this.writeIndex = (this.writeIndex + frames) % this.bufferSize;
+            this.upmix(output, channelCount);
+            return true;
+        }
+
+        const phaseStep = (1 - ratio) / this.grainSize;
+
+        for (let i = 0; i < frames; i++) {
+            for (let ch = 0; ch < channelCount; ch++) {
+                this.buffers[ch][this.writeIndex] = input[ch][i];
+            }
+
+            const phaseA = this.phase;
+            const phaseB = (this.phase + 0.5) % 1;
+            const gainA = Math.sin(Math.PI * phaseA) ** 2;
+            const gainB = Math.sin(Math.PI * phaseB) ** 2;
+            const delayA = 1 + phaseA * this.grainSize;
+            const delayB = 1 + phaseB * this.grainSize;
+
+            for (let ch = 0; ch < channelCount; ch++) {
+                const buffer = this.buffers[ch];
+                output[ch][i] =
+                    this.readAt(buffer, delayA) * gainA +
+                    this.readAt(buffer, delayB) * gainB;
+            }
+
+            this.writeIndex = (this.writeIndex + 1) % this.bufferSize;
+            this.phase += phaseStep;
+            if (this.phase >= 1) this.phase -= 1;
+            else if (this.phase < 0) this.phase += 1;
+        }
+
+        this.upmix(output, channelCount);
+        return true;
+    }
+}
+
+registerProcessor('pitch-shift-processor', PitchShiftProcessor);
@@ -1,15 +1,12 @@
 import React, { useEffect, useRef } from 'react';
 import audioProcessorUrl from './AudioProcessor.ts?worker&url';
+import { audioGraph } from '../../services/audioGraph';
 
 interface VisualizerProps {
     audioRef: React.RefObject<HTMLAudioElement>;
     isPlaying: boolean;
 }
 
-// Global map to store source nodes to prevent "MediaElementAudioSourceNode" double-connection errors
-const sourceMap = new WeakMap<HTMLAudioElement, MediaElementAudioSourceNode>();
-const contextMap = new WeakMap<HTMLAudioElement, AudioContext>();
-
 const Visualizer: React.FC<VisualizerProps> = ({ audioRef, isPlaying }) => {
     const canvasRef = useRef<HTMLCanvasElement>(null);
     const workerRef = useRef<Worker | null>(null);
@@ -22,15 +19,12 @@ const Visualizer: React.FC<VisualizerProps> = ({ audioRef, isPlaying }) => {
             if (!audioRef.current) return;
             const audioEl = audioRef.current;
 
-            let ctx = contextMap.get(audioEl);
-            if (!ctx) {
-                ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
-                contextMap.set(audioEl, ctx);
-            }
+            // The shared graph owns the context and the element's source node
+            const ctx = audioGraph.attach(audioEl);
             audioContextRef.current = ctx;
 
             if (ctx.state === 'suspended' && isPlaying) {
-                await ctx.resume();
+                await audioGraph.resume();
             }
 
             // Load AudioWorklet
@@ -46,19 +40,8 @@ const Visualizer: React.FC<VisualizerProps> = ({ audioRef, isPlaying }) => {
                     workletNodeRef.current = workletNode;
 
 
-                    // Connect Source -> Worklet -> Destination
-                    if (!sourceMap.has(audioEl)) {
-                        const source = ctx.createMediaElementSource(audioEl);
-                        source.connect(ctx.destination); // Output to speakers
-                        source.connect(workletNode);     // Output to visualizer
-                        sourceMap.set(audioEl, source);
-                    } else {
-                        const source = sourceMap.get(audioEl);
-                        if (source) {
-                            // Ensure connection
-                            try { source.connect(workletNode); } catch (e) { }
-                        }
-                    }
+                    // Tap the end of the processing chain for visualization
+                    audioGraph.getOutput().connect(workletNode);
 
                 } catch (e) {
                     // Silent error handling
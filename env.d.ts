@@ -2,3 +2,18 @@ declare module "*?worker&url" {
   const url: string;
   export default url;
 }
+
+interface ImportMetaEnv {
+  readonly BASE_URL: string;
+  readonly PROD: boolean;
+  // Endpoint lists, comma separated (see services/config.ts)
+  readonly VITE_NETEASE_APIS?: string;
+  readonly VITE_METING_APIS?: string;
+  readonly VITE_JSON_PROXIES?: string;
+  readonly VITE_IMAGE_PROXIES?: string;
+  readonly VITE_ENDPOINTS_FILE?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
@@ -0,0 +1,96 @@
+import { useCallback, useEffect, useState } from "react";
+import { audioGraph } from "../services/audioGraph";
+import {
+  CUSTOM_PRESET_ID,
+  DEFAULT_EFFECTS,
+  EQ_PRESETS,
+  EqBand,
+  EffectsSettings,
+  ReverbSettings,
+  clampBand,
+  createDefaultBands,
+  loadEffects,
+  saveEffects,
+} from "../services/effects";
+
+const SAVE_DELAY_MS = 300;
+
+export const useAudioEffects = () => {
+  const [effects, setEffects] = useState<EffectsSettings>(DEFAULT_EFFECTS);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadEffects().then((saved) => {
+      if (cancelled) return;
+      setEffects(saved);
+      setIsLoaded(true);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    audioGraph.setEffects(effects);
+  }, [effects]);
+
+  // Slider drags produce a burst of updates; only persist the settled value
+  useEffect(() => {
+    if (!isLoaded) return;
+    const timer = setTimeout(() => saveEffects(effects), SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [effects, isLoaded]);
+
+  const setEqEnabled = useCallback((enabled: boolean) => {
+    setEffects((prev) => ({ ...prev, eqEnabled: enabled }));
+  }, []);
+
+  const applyPreset = useCallback((presetId: string) => {
+    const preset = EQ_PRESETS.find((item) => item.id === presetId);
+    if (!preset) return;
+    setEffects((prev) => ({
+      ...prev,
+      eqEnabled: true,
+      presetId,
+      bands: createDefaultBands(preset.gains),
+    }));
+  }, []);
+
+  const updateBand = useCallback((index: number, patch: Partial<EqBand>) => {
+    setEffects((prev) => {
+      const band = prev.bands[index];
+      if (!band) return prev;
+      const bands = [...prev.bands];
+      bands[index] = clampBand({ ...band, ...patch });
+      return { ...prev, bands, presetId: CUSTOM_PRESET_ID };
+    });
+  }, []);
+
+  const setPreamp = useCallback((db: number) => {
+    setEffects((prev) => ({ ...prev, preamp: db }));
+  }, []);
+
+  const setLimiterEnabled = useCallback((enabled: boolean) => {
+    setEffects((prev) => ({ ...prev, limiterEnabled: enabled }));
+  }, []);
+
+  const updateReverb = useCallback((patch: Partial<ReverbSettings>) => {
+    setEffects((prev) => ({ ...prev, reverb: { ...prev.reverb, ...patch } }));
+  }, []);
+
+  const resetEffects = useCallback(() => {
+    setEffects(DEFAULT_EFFECTS);
+  }, []);
+
+  return {
+    effects,
+    setEqEnabled,
+    applyPreset,
+    updateBand,
+    setPreamp,
+    setLimiterEnabled,
+    updateReverb,
+    resetEffects,
+  };
+};
@@ -0,0 +1,31 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  EndpointSettings,
+  getBaseEndpoints,
+  getEndpoints,
+  loadEndpointConfig,
+  saveEndpointSettings,
+  subscribeEndpoints,
+} from "../services/config";
+
+// The endpoint lists in effect, kept in sync with services/config.ts
+export const useEndpointSettings = () => {
+  const [endpoints, setEndpoints] = useState<EndpointSettings>(getEndpoints);
+
+  useEffect(() => {
+    const unsubscribe = subscribeEndpoints(() => setEndpoints(getEndpoints()));
+    loadEndpointConfig();
+    return unsubscribe;
+  }, []);
+
+  const updateEndpoints = useCallback((patch: Partial<EndpointSettings>) => {
+    saveEndpointSettings({ ...getEndpoints(), ...patch });
+  }, []);
+
+  // Back to the deployment's configuration
+  const resetEndpoints = useCallback(() => {
+    saveEndpointSettings(getBaseEndpoints());
+  }, []);
+
+  return { endpoints, updateEndpoints, resetEndpoints };
+};
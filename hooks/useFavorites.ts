@@ -0,0 +1,130 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { Song } from "../types";
+import { getSongKey } from "../services/utils";
+import { pruneLocalFiles } from "../services/playlists";
+import {
+  FavoriteRecord,
+  MAX_RATING,
+  deleteFavorite,
+  isEmptyFavorite,
+  loadFavorites,
+  saveFavorite,
+  toFavoriteSnapshot,
+} from "../services/favorites";
+
+// Likes and star ratings, keyed by getSongKey() so they follow a song across
+// re-imports. `queue` is only used to keep the stored bytes of local songs
+// that are still queued when their record goes away.
+export const useFavorites = (queue: Song[]) => {
+  const [records, setRecords] = useState<Map<string, FavoriteRecord>>(
+    () => new Map(),
+  );
+  const recordsRef = useRef(records);
+  const queueRef = useRef(queue);
+  queueRef.current = queue;
+
+  useEffect(() => {
+    let cancelled = false;
+    loadFavorites().then((loaded) => {
+      if (cancelled) return;
+      // Changes made while loading win over what was stored
+      const merged = new Map(loaded.map((record) => [record.key, record]));
+      recordsRef.current.forEach((record, key) => merged.set(key, record));
+      recordsRef.current = merged;
+      setRecords(merged);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const updateRecord = useCallback(
+    async (
+      song: Song,
+      update: (record: FavoriteRecord) => Partial<FavoriteRecord>,
+    ) => {
+      const key = getSongKey(song);
+      const current: FavoriteRecord = recordsRef.current.get(key) ?? {
+        key,
+        song: toFavoriteSnapshot(song),
+        liked: false,
+        likedAt: null,
+        rating: 0,
+        updatedAt: 0,
+      };
+      const updated: FavoriteRecord = {
+        ...current,
+        // Keep the snapshot's metadata current
+        song: toFavoriteSnapshot(song),
+        ...update(current),
+        updatedAt: Date.now(),
+      };
+
+      const next = new Map(recordsRef.current);
+      if (isEmptyFavorite(updated)) {
+        next.delete(key);
+      } else {
+        next.set(key, updated);
+      }
+      recordsRef.current = next;
+      setRecords(next);
+
+      if (isEmptyFavorite(updated)) {
+        await deleteFavorite(key);
+      } else {
+        await saveFavorite(updated);
+      }
+      // A re-imported copy replaces the snapshot, so the old bytes may be free
+      if (isEmptyFavorite(updated) || current.song.id !== updated.song.id) {
+        pruneLocalFiles(
+          [current.song.id],
+          queueRef.current.map((item) => item.id),
+        );
+      }
+    },
+    [],
+  );
+
+  const isLiked = useCallback(
+    (song: Song) => !!records.get(getSongKey(song))?.liked,
+    [records],
+  );
+
+  const getRating = useCallback(
+    (song: Song) => records.get(getSongKey(song))?.rating ?? 0,
+    [records],
+  );
+
+  const toggleLike = useCallback(
+    (song: Song) => {
+      const liked = !recordsRef.current.get(getSongKey(song))?.liked;
+      updateRecord(song, () => ({
+        liked,
+        likedAt: liked ? Date.now() : null,
+      }));
+      return liked;
+    },
+    [updateRecord],
+  );
+
+  // 0 clears the rating
+  const setRating = useCallback(
+    (song: Song, rating: number) => {
+      const clamped = Math.max(0, Math.min(MAX_RATING, Math.round(rating)));
+      updateRecord(song, () => ({ rating: clamped }));
+    },
+    [updateRecord],
+  );
+
+  // The "Liked Songs" auto-playlist, most recently liked first
+  const likedSongs = useMemo(
+    () =>
+      Array.from(records.values())
+        .filter((record) => record.liked)
+        .sort((a, b) => (b.likedAt ?? 0) - (a.likedAt ?? 0))
+        .map((record) => record.song),
+    [records],
+  );
+
+  return { isLiked, getRating, toggleLike, setRating, likedSongs };
+};
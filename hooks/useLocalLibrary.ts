@@ -0,0 +1,140 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Song } from "../types";
+import { pruneLocalFiles } from "../services/playlists";
+import {
+  LibraryEntry,
+  deleteLibraryEntry,
+  isLibrarySong,
+  loadCovers,
+  loadLibrary,
+  loadLibrarySongs,
+  pruneCovers,
+  saveCover,
+  saveLibraryEntry,
+  toLibraryEntry,
+} from "../services/library";
+
+// Index of every imported local file. `queue` is only used to keep the
+// stored bytes of songs that are still queued when the library lets go of
+// them.
+export const useLocalLibrary = (queue: Song[]) => {
+  const [entries, setEntries] = useState<LibraryEntry[]>([]);
+  const [covers, setCovers] = useState<Map<string, string>>(() => new Map());
+  const entriesRef = useRef(entries);
+  const coversRef = useRef(covers);
+  const queueRef = useRef(queue);
+  queueRef.current = queue;
+
+  const commit = useCallback(
+    (next: LibraryEntry[], nextCovers: Map<string, string>) => {
+      entriesRef.current = next;
+      coversRef.current = nextCovers;
+      setEntries(next);
+      setCovers(nextCovers);
+    },
+    [],
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      const loaded = await loadLibrary();
+      const loadedCovers = await loadCovers(
+        loaded.flatMap((entry) => (entry.coverHash ? [entry.coverHash] : [])),
+      );
+      if (cancelled) return;
+      // Songs indexed while loading win over what was stored
+      const indexed = new Set(entriesRef.current.map((entry) => entry.key));
+      commit(
+        [
+          ...loaded.filter((entry) => !indexed.has(entry.key)),
+          ...entriesRef.current,
+        ],
+        new Map([...loadedCovers, ...coversRef.current]),
+      );
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [commit]);
+
+  // Add freshly imported local songs. Re-importing a file updates its entry.
+  const indexSongs = useCallback(
+    async (songs: Song[]) => {
+      const local = songs.filter(isLibrarySong);
+      if (local.length === 0) return;
+
+      const byKey = new Map(
+        entriesRef.current.map((entry) => [entry.key, entry]),
+      );
+      const nextCovers = new Map(coversRef.current);
+      const replacedIds: string[] = [];
+
+      for (const song of local) {
+        const coverHash = song.coverUrl
+          ? await saveCover(song.coverUrl)
+          : undefined;
+        if (coverHash && song.coverUrl) nextCovers.set(coverHash, song.coverUrl);
+
+        const entry = toLibraryEntry(song, coverHash);
+        const existing = byKey.get(entry.key);
+        if (existing) {
+          entry.addedAt = existing.addedAt;
+          if (existing.songId !== entry.songId) {
+            replacedIds.push(existing.songId);
+          }
+        }
+        byKey.set(entry.key, entry);
+        await saveLibraryEntry(entry);
+      }
+
+      commit(
+        Array.from(byKey.values()).sort((a, b) => a.addedAt - b.addedAt),
+        nextCovers,
+      );
+      // The previous copy of a re-imported file is no longer indexed
+      pruneLocalFiles(
+        replacedIds,
+        queueRef.current.map((song) => song.id),
+      );
+    },
+    [commit],
+  );
+
+  const removeFromLibrary = useCallback(
+    async (keys: string[]) => {
+      const keySet = new Set(keys);
+      const removed = entriesRef.current.filter((entry) =>
+        keySet.has(entry.key),
+      );
+      if (removed.length === 0) return;
+      const remaining = entriesRef.current.filter(
+        (entry) => !keySet.has(entry.key),
+      );
+      const usedCovers = new Set(
+        remaining.flatMap((entry) => (entry.coverHash ? [entry.coverHash] : [])),
+      );
+      commit(
+        remaining,
+        new Map(
+          Array.from(coversRef.current).filter(([hash]) => usedCovers.has(hash)),
+        ),
+      );
+      await Promise.all(removed.map((entry) => deleteLibraryEntry(entry.key)));
+      pruneLocalFiles(
+        removed.map((entry) => entry.songId),
+        queueRef.current.map((song) => song.id),
+      );
+      pruneCovers(usedCovers);
+    },
+    [commit],
+  );
+
+  // Songs for `selected` entries, ready to queue
+  const loadSongs = useCallback(
+    (selected: LibraryEntry[]) => loadLibrarySongs(selected, coversRef.current),
+    [],
+  );
+
+  return { entries, covers, indexSongs, removeFromLibrary, loadSongs };
+};
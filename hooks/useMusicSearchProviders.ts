@@ -0,0 +1,138 @@
+import { useState, useCallback, useRef } from "react";
+import { OnlineSearchProvider, SearchResultItem } from "./useSearchProvider";
+import { TrackInfo } from "../services/lyricsService";
+import { MusicProvider } from "../services/providers";
+
+const LIMIT = 30;
+
+interface SearchState {
+  results: TrackInfo[];
+  isLoading: boolean;
+  hasMore: boolean;
+  hasSearched: boolean;
+}
+
+const INITIAL_STATE: SearchState = {
+  results: [],
+  isLoading: false,
+  hasMore: true,
+  hasSearched: false,
+};
+
+// One search provider per registered music source, each keeping its own
+// results. `providers` must not change between renders.
+export const useMusicSearchProviders = (
+  providers: MusicProvider[],
+): OnlineSearchProvider[] => {
+  const [states, setStates] = useState<Record<string, SearchState>>({});
+  const statesRef = useRef(states);
+  statesRef.current = states;
+  // In-flight search per provider; a new search cancels the previous one
+  const controllersRef = useRef(new Map<string, AbortController>());
+
+  const update = useCallback(
+    (id: string, patch: (state: SearchState) => Partial<SearchState>) => {
+      setStates((prev) => {
+        const state = prev[id] ?? INITIAL_STATE;
+        return { ...prev, [id]: { ...state, ...patch(state) } };
+      });
+    },
+    [],
+  );
+
+  const performSearch = useCallback(
+    async (provider: MusicProvider, query: string) => {
+      controllersRef.current.get(provider.id)?.abort();
+      if (!query.trim()) {
+        update(provider.id, () => ({ results: [], hasSearched: false }));
+        return;
+      }
+
+      update(provider.id, () => ({
+        isLoading: true,
+        hasSearched: true,
+        results: [],
+        hasMore: provider.pagedSearch,
+      }));
+
+      const controller = new AbortController();
+      controllersRef.current.set(provider.id, controller);
+      try {
+        const searchResults = await provider.search(query, {
+          limit: LIMIT,
+          offset: 0,
+          signal: controller.signal,
+        });
+        if (controller.signal.aborted) return;
+        update(provider.id, () => ({
+          results: searchResults,
+          hasMore: provider.pagedSearch && searchResults.length >= LIMIT,
+        }));
+      } catch (e) {
+        if (controller.signal.aborted) return;
+        update(provider.id, () => ({ hasMore: false }));
+      } finally {
+        if (!controller.signal.aborted) {
+          update(provider.id, () => ({ isLoading: false }));
+        }
+      }
+    },
+    [update],
+  );
+
+  const loadMore = useCallback(
+    async (
+      provider: MusicProvider,
+      query: string,
+      offset: number,
+      limit: number,
+    ): Promise<SearchResultItem[]> => {
+      const state = statesRef.current[provider.id] ?? INITIAL_STATE;
+      if (!provider.pagedSearch || state.isLoading || !state.hasMore) return [];
+
+      update(provider.id, () => ({ isLoading: true }));
+      const signal = controllersRef.current.get(provider.id)?.signal;
+      try {
+        const searchResults = await provider.search(query, {
+          limit,
+          offset,
+          signal,
+        });
+        if (signal?.aborted) return [];
+        update(provider.id, (current) =>
+          searchResults.length === 0
+            ? { hasMore: false }
+            : { results: [...current.results, ...searchResults] },
+        );
+        return searchResults;
+      } catch (e) {
+        if (!signal?.aborted) update(provider.id, () => ({ hasMore: false }));
+        return [];
+      } finally {
+        if (!signal?.aborted) update(provider.id, () => ({ isLoading: false }));
+      }
+    },
+    [update],
+  );
+
+  return providers.map((provider) => {
+    const state = states[provider.id] ?? INITIAL_STATE;
+    return {
+      id: provider.id,
+      label: provider.label,
+      requiresExplicitSearch: true,
+      isLoading: state.isLoading,
+      hasMore: state.hasMore,
+      hasSearched: state.hasSearched,
+      results: state.results,
+
+      // For explicit search providers, this returns current results
+      // Actual search is triggered by performSearch
+      search: async (): Promise<SearchResultItem[]> => state.results,
+
+      loadMore: (query: string, offset: number, limit: number) =>
+        loadMore(provider, query, offset, limit),
+      performSearch: (query: string) => performSearch(provider, query),
+    };
+  });
+};
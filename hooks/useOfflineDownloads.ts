@@ -0,0 +1,171 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Song } from "../types";
+import { getSongKey } from "../services/utils";
+import {
+  OfflineRecord,
+  canDownload,
+  createOfflineRecord,
+  downloadSong,
+  loadOfflineRecords,
+  releaseDownload,
+  saveOfflineRecord,
+} from "../services/offline";
+
+export interface DownloadResult {
+  downloaded: number;
+  failed: number;
+}
+
+// Songs available offline, keyed by getSongKey(), and the progress (0..1)
+// of downloads waiting or in flight. Downloads run one at a time.
+export const useOfflineDownloads = () => {
+  const [records, setRecords] = useState<Map<string, OfflineRecord>>(
+    () => new Map(),
+  );
+  const [progress, setProgress] = useState<Map<string, number>>(
+    () => new Map(),
+  );
+  const recordsRef = useRef(records);
+  const chainRef = useRef<Promise<unknown>>(Promise.resolve());
+  // Aborts whatever is downloading when the app unmounts
+  const controllerRef = useRef(new AbortController());
+
+  const commit = useCallback((next: Map<string, OfflineRecord>) => {
+    recordsRef.current = next;
+    setRecords(next);
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadOfflineRecords().then((loaded) => {
+      if (cancelled) return;
+      // Downloads finished while loading win over what was stored
+      const merged = new Map(loaded.map((record) => [record.key, record]));
+      recordsRef.current.forEach((record, key) => merged.set(key, record));
+      commit(merged);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [commit]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    return () => controller.abort();
+  }, []);
+
+  const setSongProgress = useCallback((key: string, value: number | null) => {
+    setProgress((prev) => {
+      const next = new Map(prev);
+      if (value === null) next.delete(key);
+      else next.set(key, value);
+      return next;
+    });
+  }, []);
+
+  const run = useCallback(
+    async (songs: Song[], owner: string): Promise<DownloadResult> => {
+      const result: DownloadResult = { downloaded: 0, failed: 0 };
+      const { signal } = controllerRef.current;
+      for (const song of songs) {
+        const key = getSongKey(song);
+        if (signal.aborted) {
+          setSongProgress(key, null);
+          continue;
+        }
+        const existing = recordsRef.current.get(key);
+        if (existing) {
+          if (!existing.owners.includes(owner)) {
+            const updated = { ...existing, owners: [...existing.owners, owner] };
+            commit(new Map(recordsRef.current).set(key, updated));
+            await saveOfflineRecord(updated);
+          }
+          setSongProgress(key, null);
+          result.downloaded += 1;
+          continue;
+        }
+        try {
+          const size = await downloadSong(
+            song,
+            (fraction) => setSongProgress(key, fraction),
+            signal,
+          );
+          const record = createOfflineRecord(song, owner, size);
+          commit(new Map(recordsRef.current).set(key, record));
+          await saveOfflineRecord(record);
+          result.downloaded += 1;
+        } catch {
+          result.failed += 1;
+        } finally {
+          setSongProgress(key, null);
+        }
+      }
+      return result;
+    },
+    [commit, setSongProgress],
+  );
+
+  // Make `songs` available offline on behalf of `owner`
+  const download = useCallback(
+    (songs: Song[], owner: string): Promise<DownloadResult> => {
+      const downloadable = songs.filter(canDownload);
+      // Shown as waiting until their turn comes
+      downloadable.forEach((song) => {
+        const key = getSongKey(song);
+        if (!recordsRef.current.has(key)) setSongProgress(key, 0);
+      });
+      const next = chainRef.current.then(() => run(downloadable, owner));
+      chainRef.current = next.catch(() => {});
+      return next;
+    },
+    [run, setSongProgress],
+  );
+
+  // Drop `owner`'s hold on `songs` (all of its songs when omitted; every
+  // owner's when `owner` is null); songs no one holds any more are released
+  const release = useCallback(
+    async (owner: string | null, songs?: Song[]) => {
+      const keys = songs
+        ? new Set(songs.map(getSongKey))
+        : new Set(recordsRef.current.keys());
+      const next = new Map(recordsRef.current);
+      const released: OfflineRecord[] = [];
+      const updated: OfflineRecord[] = [];
+      recordsRef.current.forEach((record, key) => {
+        if (!keys.has(key)) return;
+        if (owner !== null && !record.owners.includes(owner)) return;
+        const owners =
+          owner === null ? [] : record.owners.filter((id) => id !== owner);
+        if (owners.length === 0) {
+          next.delete(key);
+          released.push(record);
+        } else {
+          const kept = { ...record, owners };
+          next.set(key, kept);
+          updated.push(kept);
+        }
+      });
+      if (released.length === 0 && updated.length === 0) return;
+      commit(next);
+      await Promise.all([
+        ...released.map(releaseDownload),
+        ...updated.map(saveOfflineRecord),
+      ]);
+    },
+    [commit],
+  );
+
+  const isOffline = useCallback(
+    (song: Song) => records.has(getSongKey(song)),
+    [records],
+  );
+
+  // 0..1 while waiting or downloading, null otherwise
+  const getProgress = useCallback(
+    (song: Song) => progress.get(getSongKey(song)) ?? null,
+    [progress],
+  );
+
+  return { records, isOffline, getProgress, download, release };
+};
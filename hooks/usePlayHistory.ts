@@ -0,0 +1,103 @@
+import { useEffect, useRef } from "react";
+import { Song } from "../types";
+import { recordPlay } from "../services/history";
+
+interface ListeningSession {
+  song: Song;
+  playthrough: number;
+  startedAt: number;
+  listened: number; // Seconds accumulated so far
+  resumedAt: number | null; // Epoch ms while playing
+}
+
+const pauseSession = (session: ListeningSession) => {
+  if (session.resumedAt === null) return;
+  session.listened += (Date.now() - session.resumedAt) / 1000;
+  session.resumedAt = null;
+};
+
+const finishSession = (session: ListeningSession, interrupted: boolean) => {
+  pauseSession(session);
+  recordPlay(session.song, session.startedAt, session.listened, interrupted);
+};
+
+// Logs one history record per song listened to, and one per repeat:
+// `playthrough` changes each time the current song starts over. Listening
+// time is wall-clock time spent playing, so seeking doesn't inflate it.
+export const usePlayHistory = (
+  currentSong: Song | null,
+  isPlaying: boolean,
+  playthrough: number,
+) => {
+  const sessionRef = useRef<ListeningSession | null>(null);
+
+  // A new song or a repeat closes the previous session; only moving on to
+  // another song counts as interrupting it
+  useEffect(() => {
+    const previous = sessionRef.current;
+    if (previous) {
+      const songChanged = previous.song.id !== currentSong?.id;
+      if (songChanged || previous.playthrough !== playthrough) {
+        const wasPlaying = previous.resumedAt !== null;
+        finishSession(previous, songChanged);
+        sessionRef.current = null;
+        if (!songChanged && currentSong) {
+          sessionRef.current = {
+            song: currentSong,
+            playthrough,
+            startedAt: Date.now(),
+            listened: 0,
+            resumedAt: wasPlaying ? Date.now() : null,
+          };
+        }
+      }
+    }
+    if (currentSong && !sessionRef.current) {
+      sessionRef.current = {
+        song: currentSong,
+        playthrough,
+        startedAt: Date.now(),
+        listened: 0,
+        resumedAt: null,
+      };
+    }
+  }, [currentSong?.id, playthrough]);
+
+  // Keep the snapshot current (duration and metadata arrive later)
+  useEffect(() => {
+    const session = sessionRef.current;
+    if (session && currentSong && session.song.id === currentSong.id) {
+      session.song = currentSong;
+    }
+  }, [currentSong]);
+
+  useEffect(() => {
+    const session = sessionRef.current;
+    if (!isPlaying || !session) return;
+    session.resumedAt = Date.now();
+    return () => {
+      // The page-hide handler may have swapped the session in the meantime
+      if (sessionRef.current) pauseSession(sessionRef.current);
+    };
+  }, [isPlaying, currentSong?.id]);
+
+  // Closing the page ends the session without counting it as a skip
+  useEffect(() => {
+    const handlePageHide = () => {
+      const session = sessionRef.current;
+      if (!session) return;
+      const wasPlaying = session.resumedAt !== null;
+      finishSession(session, false);
+      // The page may come back from the back/forward cache
+      sessionRef.current = {
+        song: session.song,
+        playthrough: session.playthrough,
+        startedAt: Date.now(),
+        listened: 0,
+        resumedAt: wasPlaying ? Date.now() : null,
+      };
+    };
+    window.addEventListener("pagehide", handlePageHide);
+    return () => window.removeEventListener("pagehide", handlePageHide);
+  }, []);
+};
@@ -0,0 +1,166 @@
+import { useEffect, useRef, useState } from "react";
+import { NormalizationMode, PlayMode, Song } from "../types";
+import {
+  PersistedPlayback,
+  loadSession,
+  savePlayback,
+  saveQueue,
+} from "../services/persistence";
+import { loadEndpointConfig } from "../services/config";
+
+const QUEUE_SAVE_DELAY_MS = 500;
+const POSITION_SAVE_INTERVAL_MS = 5000;
+
+interface UsePlaybackPersistenceParams {
+  queue: Song[];
+  originalQueue: Song[];
+  restoreQueue: (originalQueue: Song[], queue: Song[]) => void;
+  currentSong: Song | null;
+  playMode: PlayMode;
+  speed: number;
+  preservesPitch: boolean;
+  pitch: number;
+  crossfade: number;
+  smartShuffle: boolean;
+  normalization: NormalizationMode;
+  volume: number;
+  isMuted: boolean;
+  currentTime: number;
+  restoreSession: (session: {
+    currentIndex: number;
+    playMode: PlayMode;
+    speed: number;
+    preservesPitch: boolean;
+    pitch: number;
+    crossfade: number;
+    smartShuffle: boolean;
+    normalization: NormalizationMode;
+    volume: number;
+    isMuted: boolean;
+    currentTime: number;
+  }) => void;
+}
+
+export const usePlaybackPersistence = ({
+  queue,
+  originalQueue,
+  restoreQueue,
+  currentSong,
+  playMode,
+  speed,
+  preservesPitch,
+  pitch,
+  crossfade,
+  smartShuffle,
+  normalization,
+  volume,
+  isMuted,
+  currentTime,
+  restoreSession,
+}: UsePlaybackPersistenceParams) => {
+  const [isRestored, setIsRestored] = useState(false);
+
+  // Latest values for the periodic / unload saves
+  const queueLengthRef = useRef(queue.length);
+  const playbackRef = useRef<PersistedPlayback>({
+    currentSongId: null,
+    playMode,
+    speed,
+    preservesPitch,
+    pitch,
+    crossfade,
+    smartShuffle,
+    normalization,
+    volume,
+    isMuted,
+    currentTime,
+  });
+  queueLengthRef.current = queue.length;
+  playbackRef.current = {
+    currentSongId: currentSong?.id ?? null,
+    playMode,
+    speed,
+    preservesPitch,
+    pitch,
+    crossfade,
+    smartShuffle,
+    normalization,
+    volume,
+    isMuted,
+    currentTime,
+  };
+
+  // Restore once on startup
+  useEffect(() => {
+    let cancelled = false;
+
+    // The restored song streams through the configured endpoints
+    Promise.all([loadSession(), loadEndpointConfig()]).then(([session]) => {
+      if (cancelled) return;
+      // Don't clobber anything imported while the session was loading
+      if (session && queueLengthRef.current === 0) {
+        restoreQueue(session.originalQueue, session.queue);
+        const playback = session.playback;
+        const index = playback?.currentSongId
+          ? session.queue.findIndex((song) => song.id === playback.currentSongId)
+          : -1;
+        restoreSession({
+          currentIndex: index !== -1 ? index : 0,
+          playMode: playback?.playMode ?? PlayMode.LOOP_ALL,
+          speed: playback?.speed ?? 1,
+          preservesPitch: playback?.preservesPitch ?? true,
+          pitch: playback?.pitch ?? 0,
+          crossfade: playback?.crossfade ?? 0,
+          smartShuffle: playback?.smartShuffle ?? false,
+          normalization: playback?.normalization ?? "track",
+          volume: playback?.volume ?? 1,
+          isMuted: playback?.isMuted ?? false,
+          currentTime: index !== -1 ? playback?.currentTime ?? 0 : 0,
+        });
+      }
+      setIsRestored(true);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Save the queue whenever it changes (debounced)
+  useEffect(() => {
+    if (!isRestored) return;
+    const timer = setTimeout(() => {
+      saveQueue(originalQueue, queue);
+    }, QUEUE_SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [queue, originalQueue, isRestored]);
+
+  // Save playback settings as soon as they change
+  useEffect(() => {
+    if (!isRestored) return;
+    savePlayback(playbackRef.current);
+  }, [currentSong?.id, playMode, speed, preservesPitch, pitch, crossfade, smartShuffle, normalization, volume, isMuted, isRestored]);
+
+  // Save the position periodically and when the page goes away
+  useEffect(() => {
+    if (!isRestored) return;
+
+    const persist = () => {
+      savePlayback(playbackRef.current);
+    };
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "hidden") persist();
+    };
+
+    const interval = setInterval(persist, POSITION_SAVE_INTERVAL_MS);
+    window.addEventListener("pagehide", persist);
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener("pagehide", persist);
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+    };
+  }, [isRestored]);
+
+  return { isRestored };
+};
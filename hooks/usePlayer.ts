@@ -1,19 +1,52 @@
 import {
   Dispatch,
   SetStateAction,
+  SyntheticEvent,
   useCallback,
   useEffect,
+  useMemo,
   useRef,
   useState,
 } from "react";
-import { Song, PlayState, PlayMode } from "../types";
-import { extractColors, shuffleArray } from "../services/utils";
+import {
+  ABLoop,
+  Song,
+  PlayState,
+  PlayMode,
+  NormalizationMode,
+  SleepTimer,
+} from "../types";
+import {
+  balancedShuffle,
+  extractColors,
+  getSongKey,
+  shuffleArray,
+} from "../services/utils";
 import { parseLyrics } from "../services/lyrics";
+import { findLyrics } from "../services/providers";
+import { invalidateCache } from "../services/http";
 import {
-  fetchLyricsById,
-  searchAndMatchLyrics,
-} from "../services/lyricsService";
+  LYRICS_PARSER_VERSION,
+  deleteCachedLyrics,
+  getLyricsCacheKey,
+  loadCachedLyrics,
+  saveCachedLyrics,
+  toLyricLines,
+} from "../services/lyricsCache";
 import { audioResourceCache } from "../services/cache";
+import { reportEndpointFailure } from "../services/config";
+import { StreamSource, getStreamSources } from "../services/lyricsService";
+import { audioGraph, clampPitch } from "../services/audioGraph";
+import {
+  analyzeLoudness,
+  getNormalizationGain,
+  loadLoudness,
+  recordToReplayGain,
+} from "../services/loudness";
+import { usePlayHistory } from "./usePlayHistory";
+import { usePrefetch } from "./usePrefetch";
+import { useScrobbler } from "./useScrobbler";
+import { ScrobbleSettings } from "../services/scrobbler";
 
 type MatchStatus = "idle" | "matching" | "success" | "failed";
 
@@ -23,26 +56,43 @@ interface UsePlayerParams {
   updateSongInQueue: (id: string, updates: Partial<Song>) => void;
   setQueue: Dispatch<SetStateAction<Song[]>>;
   setOriginalQueue: Dispatch<SetStateAction<Song[]>>;
+  onSleepTimerEnd?: () => void;
+  scrobbleSettings: ScrobbleSettings;
 }
 
 const MATCH_TIMEOUT_MS = 8000;
 
-const withTimeout = <T>(promise: Promise<T>, timeoutMs: number): Promise<T> => {
-  return new Promise<T>((resolve, reject) => {
-    const timer = setTimeout(() => {
-      reject(new Error("Lyrics request timed out"));
-    }, timeoutMs);
-    promise
-      .then((value) => {
-        clearTimeout(timer);
-        resolve(value);
-      })
-      .catch((error) => {
-        clearTimeout(timer);
-        reject(error);
-      });
-  });
-};
+// Transport timing (seconds unless noted)
+const PRELOAD_LEAD_SECONDS = 30; // Start loading the next song this long before the end
+const GAPLESS_SCHEDULE_WINDOW = 0.5; // Switch to a precise timer inside this window
+const GAPLESS_LEAD_SECONDS = 0.04; // Start the next element slightly early to hide its start-up latency
+const MONITOR_INTERVAL_MS = 100;
+const MAX_CROSSFADE_SECONDS = 12;
+const SHUFFLE_HISTORY_LIMIT = 200;
+
+// Sleep timer: length of the fade-out before stopping, and check interval
+const SLEEP_FADE_SECONDS = 10;
+const SLEEP_CHECK_MS = 250;
+
+// Jumping back to within this much of the start of the same song, from
+// further in, plays it again (repeat-one, an A-B loop from the top)
+const RESTART_SECONDS = 1;
+
+// A-B loop: how often the end point is checked, and the speed-up ceiling
+const AB_LOOP_CHECK_MS = 25;
+const AB_LOOP_MAX_SPEED = 2;
+
+// Minimum readyState (HAVE_FUTURE_DATA) before the standby element may take over
+const STANDBY_READY_STATE = 3;
+
+const MAX_SONG_VOLUME_OFFSET = 12; // dB
+
+const clampVolume = (value: number) => Math.max(0, Math.min(1, value));
+
+export const clampCrossfade = (seconds: number) =>
+  Math.max(0, Math.min(MAX_CROSSFADE_SECONDS, seconds));
+
+type TransitionMode = "cut" | "gapless" | "crossfade";
 
 export const usePlayer = ({
   queue,
@@ -50,6 +100,8 @@ export const usePlayer = ({
   updateSongInQueue,
   setQueue,
   setOriginalQueue,
+  onSleepTimerEnd,
+  scrobbleSettings,
 }: UsePlayerParams) => {
   const [currentIndex, setCurrentIndex] = useState(-1);
   const [playState, setPlayState] = useState<PlayState>(PlayState.PAUSED);
@@ -57,23 +109,198 @@ export const usePlayer = ({
   const [duration, setDuration] = useState(0);
   const [playMode, setPlayMode] = useState<PlayMode>(PlayMode.LOOP_ALL);
   const [matchStatus, setMatchStatus] = useState<MatchStatus>("idle");
-  const audioRef = useRef<HTMLAudioElement>(null);
+  // Bumped to rerun lyrics matching for the current song
+  const [lyricsRefreshToken, setLyricsRefreshToken] = useState(0);
+  const bypassLyricsCacheRef = useRef<string | null>(null);
+  const [crossfade, setCrossfade] = useState(0); // 0 = gapless
+  const [smartShuffle, setSmartShuffle] = useState(false); // Balanced by artist/album
+  const [normalization, setNormalization] = useState<NormalizationMode>("track");
+  const [volume, setVolume] = useState(1); // Slider position, 0..1
+  const [isMuted, setIsMuted] = useState(false);
+  const [sleepTimer, setSleepTimer] = useState<SleepTimer | null>(null);
+  // The timer ends with the current song, so it must not hand over to the next
+  const sleepStopsAfterSong =
+    sleepTimer?.mode === "endOfSong" ||
+    (sleepTimer?.mode === "afterSongs" && sleepTimer.remaining <= 1);
+  const sleepFadingRef = useRef(false);
   const isSeekingRef = useRef(false);
+  // Position restored from a saved session, applied once the audio has metadata
+  const pendingSeekRef = useRef<number | null>(null);
+
+  // Two <audio> elements take turns being the active one, so the next song can
+  // be preloaded in the standby element and started before the current one
+  // ends. audioRef always points at the active element.
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const slotElementsRef = useRef<(HTMLAudioElement | null)[]>([null, null]);
+  const slotSongIdsRef = useRef<(string | null)[]>([null, null]);
+  const slotSourcesRef = useRef<(string | null)[]>([null, null]);
+  const slotObjectUrlsRef = useRef<(string | null)[]>([null, null]);
+  // Where each slot's song can be streamed from, for failing over when the
+  // element can't load the current source
+  const slotStreamsRef = useRef<
+    ({ songId: string; sources: StreamSource[]; index: number } | null)[]
+  >([null, null]);
+  const activeSlotRef = useRef(0);
+  const [activeSlot, setActiveSlot] = useState(0);
+  const [slotSources, setSlotSources] = useState<(string | null)[]>([null, null]);
+  // Element still fading out after a crossfade, and the timer that stops it
+  const outgoingElementRef = useRef<HTMLAudioElement | null>(null);
+  const transitionTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const slotRefCallbacks = useMemo(
+    () =>
+      [0, 1].map((slot) => (element: HTMLAudioElement | null) => {
+        slotElementsRef.current[slot] = element;
+        if (slot === activeSlotRef.current) {
+          audioRef.current = element;
+        }
+      }),
+    [],
+  );
+
+  // Point a slot at a source. Object URLs created for cached blobs are owned by
+  // the slot and revoked once it moves on.
+  const setSlotSource = useCallback(
+    (
+      slot: number,
+      songId: string | null,
+      src: string | null,
+      ownsObjectUrl: boolean = false,
+    ) => {
+      const previousUrl = slotObjectUrlsRef.current[slot];
+      if (previousUrl && previousUrl !== src) {
+        URL.revokeObjectURL(previousUrl);
+      }
+      slotObjectUrlsRef.current[slot] = ownsObjectUrl ? src : null;
+      slotSongIdsRef.current[slot] = songId;
+      slotSourcesRef.current[slot] = src;
+      setSlotSources((prev) => {
+        if (prev[slot] === src) return prev;
+        const next = [...prev];
+        next[slot] = src;
+        return next;
+      });
+    },
+    [],
+  );
+
+  // Stream `fileUrl` in a slot from the first of its sources and return
+  // that URL; the others are tried in turn if it fails to load
+  const setSlotStream = useCallback(
+    (slot: number, songId: string, fileUrl: string) => {
+      const sources = getStreamSources(fileUrl);
+      slotStreamsRef.current[slot] = { songId, sources, index: 0 };
+      setSlotSource(slot, songId, sources[0].url);
+      return sources[0].url;
+    },
+    [setSlotSource],
+  );
+
+  // Whether `slot` still holds `src` for `songId` and hasn't loaded any of it,
+  // so it can switch to another copy without interrupting playback
+  const isSlotUnstarted = useCallback(
+    (slot: number, songId: string, src: string) => {
+      const element = slotElementsRef.current[slot];
+      return (
+        slotSongIdsRef.current[slot] === songId &&
+        slotSourcesRef.current[slot] === src &&
+        (!element ||
+          element.getAttribute("src") !== src ||
+          element.readyState === HTMLMediaElement.HAVE_NOTHING)
+      );
+    },
+    [],
+  );
+
+  const isStandbyReady = useCallback((songId: string) => {
+    const standby = 1 - activeSlotRef.current;
+    const element = slotElementsRef.current[standby];
+    return (
+      !!element &&
+      slotSongIdsRef.current[standby] === songId &&
+      element.getAttribute("src") === slotSourcesRef.current[standby] &&
+      element.readyState >= STANDBY_READY_STATE
+    );
+  }, []);
+
+  // Stop a crossfade in progress: silence the outgoing element and bring the
+  // active one to full level.
+  const cancelTransition = useCallback(() => {
+    if (transitionTimerRef.current) {
+      clearTimeout(transitionTimerRef.current);
+      transitionTimerRef.current = null;
+    }
+    const outgoing = outgoingElementRef.current;
+    if (outgoing) {
+      outgoing.pause();
+      audioGraph.setElementGain(outgoing, 1);
+      outgoingElementRef.current = null;
+    }
+    if (audioRef.current) {
+      audioGraph.setElementGain(audioRef.current, 1);
+    }
+  }, []);
 
   const pauseAndResetCurrentAudio = useCallback(() => {
+    cancelTransition();
     if (!audioRef.current) return;
     audioRef.current.pause();
     audioRef.current.currentTime = 0;
+  }, [cancelTransition]);
+
+  // Sleep timer. The fade-out runs on the graph's output level, which is
+  // restored whenever the timer is replaced, cancelled or has stopped playback.
+  const onSleepTimerEndRef = useRef(onSleepTimerEnd);
+  onSleepTimerEndRef.current = onSleepTimerEnd;
+
+  const resetSleepFade = useCallback(() => {
+    if (!sleepFadingRef.current) return;
+    sleepFadingRef.current = false;
+    audioGraph.fadeOutput(1, 0.3);
   }, []);
 
+  const startSleepTimer = useCallback(
+    (timer: SleepTimer) => {
+      resetSleepFade();
+      setSleepTimer(timer);
+    },
+    [resetSleepFade],
+  );
+
+  const cancelSleepTimer = useCallback(() => {
+    resetSleepFade();
+    setSleepTimer(null);
+  }, [resetSleepFade]);
+
+  const expireSleepTimer = useCallback(() => {
+    cancelTransition();
+    audioRef.current?.pause();
+    setPlayState(PlayState.PAUSED);
+    setSleepTimer(null);
+    // Playback is stopped, so the level can snap back for the next play
+    sleepFadingRef.current = false;
+    audioGraph.fadeOutput(1, 0.01);
+    onSleepTimerEndRef.current?.();
+  }, [cancelTransition]);
+
   const currentSong = queue[currentIndex] ?? null;
   const accentColor = currentSong?.colors?.[0] || "#a855f7";
 
-  const reorderForShuffle = useCallback(() => {
+  // Times the current song has started over without changing
+  const [playthrough, setPlaythrough] = useState(0);
+  const lastPositionRef = useRef<{ songId: string | null; time: number }>({
+    songId: null,
+    time: 0,
+  });
+
+  usePlayHistory(currentSong, playState === PlayState.PLAYING, playthrough);
+  useScrobbler(currentSong, playState === PlayState.PLAYING, scrobbleSettings);
+
+  const reorderForShuffle = useCallback((smart: boolean = smartShuffle) => {
     if (originalQueue.length === 0) return;
     const currentId = currentSong?.id;
     const pool = originalQueue.filter((song) => song.id !== currentId);
-    const shuffled = shuffleArray([...pool]);
+    const shuffled = smart ? balancedShuffle(pool) : shuffleArray(pool);
     if (currentId) {
       const current = originalQueue.find((song) => song.id === currentId);
       if (current) {
@@ -84,7 +311,28 @@ export const usePlayer = ({
     }
     setQueue(shuffled);
     setCurrentIndex(0);
-  }, [currentSong, originalQueue, setQueue]);
+  }, [currentSong, originalQueue, setQueue, smartShuffle]);
+
+  // Songs actually played while shuffling, most recent last, so playPrev can
+  // retrace them even after a jump or a reshuffle
+  const shuffleHistoryRef = useRef<string[]>([]);
+  const lastPlayedIdRef = useRef<string | null>(null);
+  const isRetracingRef = useRef(false);
+
+  useEffect(() => {
+    const previousId = lastPlayedIdRef.current;
+    const currentId = currentSong?.id ?? null;
+    lastPlayedIdRef.current = currentId;
+    if (!previousId || previousId === currentId) return;
+    if (isRetracingRef.current) {
+      isRetracingRef.current = false;
+      return;
+    }
+    if (playMode !== PlayMode.SHUFFLE) return;
+    const history = shuffleHistoryRef.current;
+    history.push(previousId);
+    if (history.length > SHUFFLE_HISTORY_LIMIT) history.shift();
+  }, [currentSong?.id, playMode]);
 
   const toggleMode = useCallback(() => {
     let nextMode: PlayMode;
@@ -98,6 +346,7 @@ export const usePlayer = ({
     if (nextMode === PlayMode.SHUFFLE) {
       reorderForShuffle();
     } else {
+      shuffleHistoryRef.current = [];
       setQueue(originalQueue);
       if (currentSong) {
         const idx = originalQueue.findIndex(
@@ -110,9 +359,19 @@ export const usePlayer = ({
     }
   }, [playMode, reorderForShuffle, originalQueue, currentSong, setQueue]);
 
+  const handleSetSmartShuffle = useCallback(
+    (enabled: boolean) => {
+      setSmartShuffle(enabled);
+      // Reshuffle what's left so the choice applies right away
+      if (playMode === PlayMode.SHUFFLE) reorderForShuffle(enabled);
+    },
+    [playMode, reorderForShuffle],
+  );
+
   const togglePlay = useCallback(() => {
     if (!audioRef.current) return;
     if (playState === PlayState.PLAYING) {
+      cancelTransition();
       audioRef.current.pause();
       setPlayState(PlayState.PAUSED);
     } else {
@@ -126,7 +385,7 @@ export const usePlayer = ({
       audioRef.current.play().catch(() => {});
       setPlayState(PlayState.PLAYING);
     }
-  }, [playState]);
+  }, [playState, cancelTransition]);
 
   const play = useCallback(() => {
     if (!audioRef.current) return;
@@ -138,9 +397,10 @@ export const usePlayer = ({
 
   const pause = useCallback(() => {
     if (!audioRef.current) return;
+    cancelTransition();
     audioRef.current.pause();
     setPlayState(PlayState.PAUSED);
-  }, []);
+  }, [cancelTransition]);
 
   const handleSeek = useCallback(
     (
@@ -170,16 +430,30 @@ export const usePlayer = ({
     [],
   );
 
-  const handleTimeUpdate = useCallback(() => {
+  // Media events from the standby element are ignored
+  const isFromInactiveSlot = (event?: SyntheticEvent<HTMLAudioElement>) =>
+    !!event && event.currentTarget !== audioRef.current;
+
+  const handleTimeUpdate = useCallback((event?: SyntheticEvent<HTMLAudioElement>) => {
+    if (isFromInactiveSlot(event)) return;
     if (!audioRef.current || isSeekingRef.current) return;
     const value = audioRef.current.currentTime;
     setCurrentTime(Number.isFinite(value) ? value : 0);
   }, []);
 
-  const handleLoadedMetadata = useCallback(() => {
+  const handleLoadedMetadata = useCallback((event?: SyntheticEvent<HTMLAudioElement>) => {
+    if (isFromInactiveSlot(event)) return;
     if (!audioRef.current) return;
     const value = audioRef.current.duration;
     setDuration(Number.isFinite(value) ? value : 0);
+    if (pendingSeekRef.current !== null) {
+      const target = pendingSeekRef.current;
+      pendingSeekRef.current = null;
+      if (Number.isFinite(value) && target < value) {
+        audioRef.current.currentTime = target;
+        setCurrentTime(target);
+      }
+    }
     if (playState === PlayState.PLAYING) {
       audioRef.current
         .play()
@@ -187,6 +461,77 @@ export const usePlayer = ({
     }
   }, [playState]);
 
+  // Hand playback over to the standby element, which must already hold
+  // queue[index]. "cut" stops the current element at once, "gapless" lets its
+  // last few milliseconds finish, "crossfade" fades both over fadeSeconds.
+  const startStandby = useCallback(
+    (index: number, mode: TransitionMode, fadeSeconds: number = 0) => {
+      const from = activeSlotRef.current;
+      const to = 1 - from;
+      const outgoing = slotElementsRef.current[from];
+      const incoming = slotElementsRef.current[to];
+      if (!incoming) return false;
+
+      cancelTransition();
+      incoming.currentTime = 0;
+
+      const fadingIn =
+        mode === "crossfade" && audioGraph.fadeElement(incoming, "in", fadeSeconds);
+      if (!fadingIn) {
+        audioGraph.setElementGain(incoming, 1);
+      }
+      incoming.play().catch(() => {});
+
+      if (outgoing) {
+        if (mode === "cut") {
+          outgoing.pause();
+          outgoing.currentTime = 0;
+        } else if (fadingIn && audioGraph.fadeElement(outgoing, "out", fadeSeconds)) {
+          outgoingElementRef.current = outgoing;
+          transitionTimerRef.current = setTimeout(() => {
+            transitionTimerRef.current = null;
+            outgoingElementRef.current = null;
+            outgoing.pause();
+            audioGraph.setElementGain(outgoing, 1);
+          }, fadeSeconds * 1000);
+        }
+        // Gapless: the outgoing element simply plays out its tail
+      }
+
+      activeSlotRef.current = to;
+      audioRef.current = incoming;
+      setActiveSlot(to);
+      setCurrentIndex(index);
+      setMatchStatus("idle");
+      setPlayState(PlayState.PLAYING);
+      setCurrentTime(0);
+      setDuration(Number.isFinite(incoming.duration) ? incoming.duration : 0);
+      return true;
+    },
+    [cancelTransition],
+  );
+
+  // Jump to a queue index, reusing the preloaded standby element when it
+  // already holds that song.
+  const skipTo = useCallback(
+    (index: number) => {
+      const target = queue[index];
+      if (
+        target &&
+        index !== currentIndex &&
+        isStandbyReady(target.id) &&
+        startStandby(index, "cut")
+      ) {
+        return;
+      }
+      pauseAndResetCurrentAudio();
+      setCurrentIndex(index);
+      setMatchStatus("idle");
+      setPlayState(PlayState.PLAYING);
+    },
+    [queue, currentIndex, isStandbyReady, startStandby, pauseAndResetCurrentAudio],
+  );
+
   const playNext = useCallback(() => {
     if (queue.length === 0) return;
 
@@ -198,34 +543,42 @@ export const usePlayer = ({
       return;
     }
 
-    pauseAndResetCurrentAudio();
-    const next = (currentIndex + 1) % queue.length;
-    setCurrentIndex(next);
-    setMatchStatus("idle");
-    setPlayState(PlayState.PLAYING);
-  }, [queue.length, playMode, currentIndex, pauseAndResetCurrentAudio]);
+    skipTo((currentIndex + 1) % queue.length);
+  }, [queue.length, playMode, currentIndex, skipTo]);
 
   const playPrev = useCallback(() => {
     if (queue.length === 0) return;
-    pauseAndResetCurrentAudio();
-    const prev = (currentIndex - 1 + queue.length) % queue.length;
-    setCurrentIndex(prev);
-    setMatchStatus("idle");
-    setPlayState(PlayState.PLAYING);
-  }, [queue.length, currentIndex, pauseAndResetCurrentAudio]);
+
+    if (playMode === PlayMode.SHUFFLE) {
+      const history = shuffleHistoryRef.current;
+      while (history.length > 0) {
+        const id = history.pop()!;
+        const index = queue.findIndex((song) => song.id === id);
+        if (index !== -1 && index !== currentIndex) {
+          isRetracingRef.current = true;
+          skipTo(index);
+          return;
+        }
+      }
+    }
+
+    skipTo((currentIndex - 1 + queue.length) % queue.length);
+  }, [queue, playMode, currentIndex, skipTo]);
 
   const playIndex = useCallback(
     (index: number) => {
       if (index < 0 || index >= queue.length) return;
-      pauseAndResetCurrentAudio();
-      setCurrentIndex(index);
-      setPlayState(PlayState.PLAYING);
-      setMatchStatus("idle");
+      skipTo(index);
     },
-    [queue.length, pauseAndResetCurrentAudio],
+    [queue.length, skipTo],
   );
 
-  const handleAudioEnded = useCallback(() => {
+  const handleAudioEnded = useCallback((event?: SyntheticEvent<HTMLAudioElement>) => {
+    if (isFromInactiveSlot(event)) return;
+    if (sleepStopsAfterSong) {
+      expireSleepTimer();
+      return;
+    }
     if (playMode === PlayMode.LOOP_ONE) {
       if (audioRef.current) {
         audioRef.current.currentTime = 0;
@@ -243,7 +596,7 @@ export const usePlayer = ({
     }
 
     playNext();
-  }, [playMode, queue.length, playNext]);
+  }, [playMode, queue.length, playNext, sleepStopsAfterSong, expireSleepTimer]);
 
   const addSongAndPlay = useCallback(
     (song: Song) => {
@@ -280,22 +633,6 @@ export const usePlayer = ({
     [currentIndex, playMode, reorderForShuffle],
   );
 
-  const mergeLyricsWithMetadata = useCallback(
-    (result: { lrc: string; yrc?: string; tLrc?: string; metadata: string[] }) => {
-      const parsed = parseLyrics(result.lrc, result.tLrc, {
-        yrcContent: result.yrc,
-      });
-      const metadataCount = result.metadata.length;
-      const metadataLines = result.metadata.map((text, idx) => ({
-        time: -0.1 * (metadataCount - idx),
-        text,
-        isMetadata: true,
-      }));
-      return [...metadataLines, ...parsed].sort((a, b) => a.time - b.time);
-    },
-    [],
-  );
-
   const loadLyricsFile = useCallback(
     (file?: File) => {
       if (!file || !currentSong) return;
@@ -321,13 +658,10 @@ export const usePlayer = ({
       return;
     }
 
+    const song = currentSong;
     const songId = currentSong.id;
-    const songTitle = currentSong.title;
-    const songArtist = currentSong.artist;
     const needsLyricsMatch = currentSong.needsLyricsMatch;
     const existingLyrics = currentSong.lyrics ?? [];
-    const isNeteaseSong = currentSong.isNetease;
-    const songNeteaseId = currentSong.neteaseId;
 
     let cancelled = false;
 
@@ -354,43 +688,50 @@ export const usePlayer = ({
       return;
     }
 
+    // Aborted when the song changes or matching takes too long
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), MATCH_TIMEOUT_MS);
+
+    const cacheKey = getLyricsCacheKey(song);
+    // A refresh goes past the stored copy
+    const useStored = bypassLyricsCacheRef.current !== songId;
+    bypassLyricsCacheRef.current = null;
+
     const fetchLyrics = async () => {
       setMatchStatus("matching");
       try {
-        if (isNeteaseSong && songNeteaseId) {
-          const raw = await withTimeout(
-            fetchLyricsById(songNeteaseId),
-            MATCH_TIMEOUT_MS,
-          );
-          if (cancelled) return;
-          if (raw) {
-            updateSongInQueue(songId, {
-              lyrics: mergeLyricsWithMetadata(raw),
-              needsLyricsMatch: false,
-            });
-            markMatchSuccess();
-          } else {
-            markMatchFailed();
-          }
+        const cached = useStored ? await loadCachedLyrics(cacheKey) : null;
+        if (cancelled) return;
+        if (cached) {
+          updateSongInQueue(songId, {
+            lyrics:
+              cached.parserVersion === LYRICS_PARSER_VERSION
+                ? cached.lines
+                : toLyricLines(cached.raw),
+            needsLyricsMatch: false,
+          });
+          markMatchSuccess();
+          return;
+        }
+
+        const raw = await findLyrics(song, { signal: controller.signal });
+        if (cancelled) return;
+        if (raw) {
+          const lines = toLyricLines(raw);
+          updateSongInQueue(songId, {
+            lyrics: lines,
+            needsLyricsMatch: false,
+          });
+          markMatchSuccess();
+          saveCachedLyrics(cacheKey, raw, lines);
         } else {
-          const result = await withTimeout(
-            searchAndMatchLyrics(songTitle, songArtist),
-            MATCH_TIMEOUT_MS,
-          );
-          if (cancelled) return;
-          if (result) {
-            updateSongInQueue(songId, {
-              lyrics: mergeLyricsWithMetadata(result),
-              needsLyricsMatch: false,
-            });
-            markMatchSuccess();
-          } else {
-            markMatchFailed();
-          }
+          markMatchFailed();
         }
       } catch (error) {
 
         markMatchFailed();
+      } finally {
+        clearTimeout(timeout);
       }
     };
 
@@ -398,57 +739,96 @@ export const usePlayer = ({
 
     return () => {
       cancelled = true;
+      clearTimeout(timeout);
+      controller.abort();
     };
-  }, [currentSong?.id, mergeLyricsWithMetadata, updateSongInQueue]);
-
-  useEffect(() => {
-    const audio = audioRef.current;
-    if (!audio) return;
-
-    const handleAudioError = () => {
-      audio.pause();
-      audio.currentTime = 0;
-      setPlayState(PlayState.PAUSED);
-      setCurrentTime(0);
-    };
-
-    audio.addEventListener("error", handleAudioError);
-    return () => {
-      audio.removeEventListener("error", handleAudioError);
-    };
-  }, [audioRef]);
+  }, [currentSong?.id, lyricsRefreshToken, updateSongInQueue]);
+
+  // Throw away the current song's stored lyrics and look them up again,
+  // for when the cached or matched version is wrong
+  const refreshLyrics = useCallback(async () => {
+    if (!currentSong) return;
+    const song = currentSong;
+    await deleteCachedLyrics(getLyricsCacheKey(song));
+    if (song.isNetease && song.neteaseId) {
+      invalidateCache(`netease:/lyric/new?id=${song.neteaseId}`);
+    }
+    bypassLyricsCacheRef.current = song.id;
+    updateSongInQueue(song.id, { lyrics: [], needsLyricsMatch: true });
+    setLyricsRefreshToken((token) => token + 1);
+  }, [currentSong, updateSongInQueue]);
 
-  // Provide high-precision time updates directly from the native audio element
+  // Native listeners on both slots; only the active element updates state.
+  // Provides high-precision time updates directly from the audio element.
   useEffect(() => {
-    const audio = audioRef.current;
-    if (!audio) return;
+    const cleanups = slotElementsRef.current.map((audio, slot) => {
+      if (!audio) return () => {};
+
+      // Move on to the song's next source, keeping the position
+      const tryNextSource = () => {
+        const stream = slotStreamsRef.current[slot];
+        if (
+          !stream ||
+          stream.songId !== slotSongIdsRef.current[slot] ||
+          audio.getAttribute("src") !== stream.sources[stream.index].url ||
+          stream.index + 1 >= stream.sources.length
+        ) {
+          return false;
+        }
+        const failed = stream.sources[stream.index];
+        if (failed.endpoint) reportEndpointFailure(failed.endpoint);
+        stream.index += 1;
+        if (audio === audioRef.current && audio.currentTime > 0) {
+          pendingSeekRef.current = audio.currentTime;
+        }
+        setSlotSource(slot, stream.songId, stream.sources[stream.index].url);
+        return true;
+      };
 
-    const handleNativeTimeUpdate = () => {
-      if (isSeekingRef.current) return;
-      const value = audio.currentTime;
-      setCurrentTime(Number.isFinite(value) ? value : 0);
-    };
+      const handleAudioError = () => {
+        if (tryNextSource()) return;
+        if (audio !== audioRef.current) return;
+        audio.pause();
+        audio.currentTime = 0;
+        setPlayState(PlayState.PAUSED);
+        setCurrentTime(0);
+      };
 
-    audio.addEventListener("timeupdate", handleNativeTimeUpdate);
-    return () => {
-      audio.removeEventListener("timeupdate", handleNativeTimeUpdate);
-    };
-  }, [audioRef]);
+      const handleNativeTimeUpdate = () => {
+        if (audio !== audioRef.current || isSeekingRef.current) return;
+        const value = audio.currentTime;
+        setCurrentTime(Number.isFinite(value) ? value : 0);
+
+        const songId = slotSongIdsRef.current[slot];
+        const last = lastPositionRef.current;
+        if (
+          songId === last.songId &&
+          value < RESTART_SECONDS &&
+          last.time > value + RESTART_SECONDS
+        ) {
+          setPlaythrough((count) => count + 1);
+        }
+        lastPositionRef.current = { songId, time: value };
+      };
 
-  useEffect(() => {
-    const audio = audioRef.current;
-    if (!audio) return;
+      const handleDurationChange = () => {
+        if (audio !== audioRef.current) return;
+        const value = audio.duration;
+        setDuration(Number.isFinite(value) ? value : 0);
+      };
 
-    const handleDurationChange = () => {
-      const value = audio.duration;
-      setDuration(Number.isFinite(value) ? value : 0);
-    };
+      audio.addEventListener("error", handleAudioError);
+      audio.addEventListener("timeupdate", handleNativeTimeUpdate);
+      audio.addEventListener("durationchange", handleDurationChange);
+      return () => {
+        audio.removeEventListener("error", handleAudioError);
+        audio.removeEventListener("timeupdate", handleNativeTimeUpdate);
+        audio.removeEventListener("durationchange", handleDurationChange);
+      };
+    });
 
-    audio.addEventListener("durationchange", handleDurationChange);
-    return () => {
-      audio.removeEventListener("durationchange", handleDurationChange);
-    };
-  }, [audioRef]);
+    return () => cleanups.forEach((cleanup) => cleanup());
+  }, []);
 
   useEffect(() => {
     if (
@@ -468,9 +848,22 @@ export const usePlayer = ({
       .catch(() => {});
   }, [currentSong, updateSongInQueue]);
 
+  // Remember the duration so playlist exports can include it. The state can
+  // still hold the previous song's value, so read the element that has this
+  // song loaded.
+  useEffect(() => {
+    if (!currentSong || currentSong.duration || duration <= 0) return;
+    const slot = activeSlotRef.current;
+    const element = slotElementsRef.current[slot];
+    if (slotSongIdsRef.current[slot] !== currentSong.id || !element) return;
+    if (!Number.isFinite(element.duration) || element.duration <= 0) return;
+    updateSongInQueue(currentSong.id, { duration: element.duration });
+  }, [currentSong, duration, updateSongInQueue]);
+
   useEffect(() => {
     if (queue.length === 0) {
       if (currentIndex === -1) return;
+      cancelTransition();
       audioRef.current?.pause();
       if (audioRef.current) audioRef.current.currentTime = 0;
       setPlayState(PlayState.PAUSED);
@@ -486,14 +879,43 @@ export const usePlayer = ({
       setCurrentIndex(nextIndex);
       setMatchStatus("idle");
     }
+  }, [queue, currentIndex, cancelTransition]);
+
+  // Reordering, inserting or removing other songs shifts the current one;
+  // follow it by id so playback isn't redirected to whatever took its place
+  const queueSyncRef = useRef({ queue, currentIndex, songId: currentSong?.id });
+  useEffect(() => {
+    const previous = queueSyncRef.current;
+    queueSyncRef.current = { queue, currentIndex, songId: queue[currentIndex]?.id };
+    if (
+      previous.queue === queue ||
+      previous.currentIndex !== currentIndex ||
+      !previous.songId ||
+      queue[currentIndex]?.id === previous.songId
+    ) {
+      return;
+    }
+    const movedIndex = queue.findIndex((song) => song.id === previous.songId);
+    if (movedIndex !== -1) {
+      queueSyncRef.current = { queue, currentIndex: movedIndex, songId: previous.songId };
+      setCurrentIndex(movedIndex);
+    }
   }, [queue, currentIndex]);
 
   const [speed, setSpeed] = useState(1);
   const [preservesPitch, setPreservesPitch] = useState(true);
-  const [resolvedAudioSrc, setResolvedAudioSrc] = useState<string | null>(null);
+  const [pitch, setPitch] = useState(0); // Transposition in semitones
   const [isBuffering, setIsBuffering] = useState(false);
   const [bufferProgress, setBufferProgress] = useState(0);
 
+  usePrefetch({
+    queue,
+    currentIndex,
+    playMode,
+    isCurrentLoading: isBuffering,
+    updateSongInQueue,
+  });
+
   const handleSetSpeed = useCallback((newSpeed: number) => {
     setSpeed(newSpeed);
   }, []);
@@ -502,44 +924,473 @@ export const usePlayer = ({
     setPreservesPitch((prev) => !prev);
   }, []);
 
-  // Ensure playback rate is applied when song changes or play state changes
+  const handleSetPitch = useCallback((semitones: number) => {
+    setPitch(clampPitch(Math.round(semitones)));
+  }, []);
+
+  const handleSetCrossfade = useCallback((seconds: number) => {
+    setCrossfade(clampCrossfade(seconds));
+  }, []);
+
+  // Squared so the slider feels even across its range. Elements that aren't
+  // routed through the graph (before the first play, or without Web Audio)
+  // take the volume directly.
   useEffect(() => {
-    if (audioRef.current) {
-      audioRef.current.preservesPitch = preservesPitch;
-      audioRef.current.playbackRate = speed;
+    const gain = volume * volume;
+    audioGraph.setVolume(isMuted ? 0 : gain);
+    slotElementsRef.current.forEach((element) => {
+      if (!element || audioGraph.isAttached(element)) return;
+      element.volume = gain;
+      element.muted = isMuted;
+    });
+  }, [volume, isMuted]);
+
+  const handleSetVolume = useCallback((value: number) => {
+    setVolume(clampVolume(value));
+    setIsMuted(false);
+  }, []);
+
+  const adjustVolume = useCallback((delta: number) => {
+    setVolume((prev) => clampVolume(prev + delta));
+    setIsMuted(false);
+  }, []);
+
+  const toggleMute = useCallback(() => {
+    setIsMuted((prev) => !prev);
+  }, []);
+
+  const setSongVolumeOffset = useCallback(
+    (db: number) => {
+      if (!currentSong) return;
+      const offset = Math.max(
+        -MAX_SONG_VOLUME_OFFSET,
+        Math.min(MAX_SONG_VOLUME_OFFSET, Math.round(db * 2) / 2),
+      );
+      updateSongInQueue(currentSong.id, {
+        volumeOffset: offset === 0 ? undefined : offset,
+      });
+    },
+    [currentSong, updateSongInQueue],
+  );
+
+  // A-B loop. Each completed pass counts towards abLoopRepeats (0 = until
+  // cleared) and raises the playback rate by abLoopSpeedStep on top of the
+  // user's speed. The boost lives only as long as the loop, so the saved
+  // speed is never touched.
+  const [abLoop, setAbLoop] = useState<ABLoop>({ start: null, end: null });
+  const [abLoopPass, setAbLoopPass] = useState(0);
+  const [abLoopRepeats, setAbLoopRepeats] = useState(0);
+  const [abLoopSpeedStep, setAbLoopSpeedStep] = useState(0);
+  const isAbLooping = abLoop.start !== null && abLoop.end !== null;
+  const playbackRate =
+    isAbLooping && abLoopSpeedStep > 0 && abLoopPass > 0
+      ? Math.max(speed, Math.min(AB_LOOP_MAX_SPEED, speed + abLoopSpeedStep * abLoopPass))
+      : speed;
+
+  const clearLoop = useCallback(() => {
+    setAbLoop({ start: null, end: null });
+    setAbLoopPass(0);
+  }, []);
+
+  const getLoopPointTime = (time?: number) =>
+    time ?? audioRef.current?.currentTime ?? 0;
+
+  const setLoopStart = useCallback((time?: number) => {
+    const start = getLoopPointTime(time);
+    setAbLoop((prev) => ({
+      start,
+      end: prev.end !== null && prev.end > start ? prev.end : null,
+    }));
+    setAbLoopPass(0);
+  }, []);
+
+  const setLoopEnd = useCallback((time?: number) => {
+    const end = getLoopPointTime(time);
+    setAbLoop((prev) => {
+      if (prev.start === null) return { start: 0, end };
+      // Setting B before A swaps them
+      if (end <= prev.start) return { start: end, end: prev.start };
+      return { start: prev.start, end };
+    });
+    setAbLoopPass(0);
+  }, []);
+
+  // Loop [start, end]; with extend, grow the current loop to cover it instead
+  const setLoopRange = useCallback(
+    (start: number, end: number, extend: boolean = false) => {
+      setAbLoop((prev) =>
+        extend && prev.start !== null && prev.end !== null
+          ? { start: Math.min(prev.start, start), end: Math.max(prev.end, end) }
+          : { start, end },
+      );
+      setAbLoopPass(0);
+      if (!extend && audioRef.current) {
+        audioRef.current.currentTime = start;
+        setCurrentTime(start);
+      }
+    },
+    [],
+  );
+
+  // "After N songs" counts down each time a new song starts
+  const sleepSongIdRef = useRef(currentSong?.id);
+  useEffect(() => {
+    const previousId = sleepSongIdRef.current;
+    sleepSongIdRef.current = currentSong?.id;
+    if (previousId === undefined || previousId === currentSong?.id) return;
+    setSleepTimer((timer) =>
+      timer?.mode === "afterSongs"
+        ? { ...timer, remaining: Math.max(1, timer.remaining - 1) }
+        : timer,
+    );
+  }, [currentSong?.id]);
+
+  // Fade out over the last seconds, and stop once a fixed duration is up.
+  // Song-based timers stop in handleAudioEnded.
+  useEffect(() => {
+    if (!sleepTimer) return;
+
+    const check = () => {
+      let remaining: number | null = null;
+      if (sleepTimer.mode === "duration") {
+        remaining = (sleepTimer.endsAt - Date.now()) / 1000;
+        if (remaining <= 0) {
+          expireSleepTimer();
+          return;
+        }
+      } else if (sleepStopsAfterSong) {
+        const audio = audioRef.current;
+        if (audio && Number.isFinite(audio.duration) && !isSeekingRef.current) {
+          remaining =
+            (audio.duration - audio.currentTime) / (audio.playbackRate || 1);
+        }
+      }
+
+      const shouldFade =
+        playState === PlayState.PLAYING &&
+        remaining !== null &&
+        remaining <= SLEEP_FADE_SECONDS;
+      if (shouldFade && !sleepFadingRef.current) {
+        sleepFadingRef.current = true;
+        audioGraph.fadeOutput(0, remaining!);
+      } else if (!shouldFade && sleepFadingRef.current) {
+        // Seeked back or paused mid-fade
+        resetSleepFade();
+      }
+    };
+
+    check();
+    const interval = setInterval(check, SLEEP_CHECK_MS);
+    return () => clearInterval(interval);
+  }, [sleepTimer, sleepStopsAfterSong, playState, expireSleepTimer, resetSleepFade]);
+
+  // Points belong to one song
+  useEffect(() => {
+    clearLoop();
+  }, [currentSong?.id, clearLoop]);
+
+  useEffect(() => {
+    const { start, end } = abLoop;
+    if (playState !== PlayState.PLAYING || start === null || end === null) {
+      return;
     }
-  }, [currentSong, playState, speed, preservesPitch]);
 
+    const interval = setInterval(() => {
+      const audio = audioRef.current;
+      if (!audio || isSeekingRef.current || audio.currentTime < end) return;
+
+      const completed = abLoopPass + 1;
+      if (abLoopRepeats > 0 && completed >= abLoopRepeats) {
+        // Done practising - carry on past B at the original speed
+        clearLoop();
+        return;
+      }
+
+      audio.currentTime = start;
+      setCurrentTime(start);
+      setAbLoopPass(completed);
+    }, AB_LOOP_CHECK_MS);
+
+    return () => clearInterval(interval);
+  }, [abLoop, abLoopPass, abLoopRepeats, playState, clearLoop]);
+
+  // Route both slots through the shared audio graph once the user starts
+  // playing (AudioContext needs a gesture), so they can be faded and shifted.
   useEffect(() => {
-    let canceled = false;
-    let currentObjectUrl: string | null = null;
-    let controller: AbortController | null = null;
+    if (playState !== PlayState.PLAYING) return;
+    try {
+      slotElementsRef.current.forEach((element) => {
+        if (!element) return;
+        audioGraph.attach(element);
+        // The graph's volume node takes over from the element fallback
+        element.volume = 1;
+        element.muted = false;
+      });
+      audioGraph.resume();
+    } catch {
+      // Web Audio unavailable - elements play directly and transitions cut
+    }
+  }, [playState]);
+
+  useEffect(() => {
+    audioGraph.setPitch(pitch);
+  }, [pitch]);
+
+  // Apply a saved session. The queue must already have been restored;
+  // playback stays paused at the saved position.
+  const restoreSession = useCallback(
+    (session: {
+      currentIndex: number;
+      playMode: PlayMode;
+      speed: number;
+      preservesPitch: boolean;
+      pitch: number;
+      crossfade: number;
+      smartShuffle: boolean;
+      normalization: NormalizationMode;
+      volume: number;
+      isMuted: boolean;
+      currentTime: number;
+    }) => {
+      setCurrentIndex(session.currentIndex);
+      setPlayMode(session.playMode);
+      setSpeed(session.speed);
+      setPreservesPitch(session.preservesPitch);
+      setPitch(clampPitch(session.pitch));
+      setCrossfade(clampCrossfade(session.crossfade));
+      setSmartShuffle(session.smartShuffle);
+      setNormalization(session.normalization);
+      setVolume(clampVolume(session.volume));
+      setIsMuted(session.isMuted);
+      setPlayState(PlayState.PAUSED);
+      setCurrentTime(session.currentTime);
+      pendingSeekRef.current = session.currentTime > 0 ? session.currentTime : null;
+    },
+    [],
+  );
+
+  // Ensure playback rate is applied when song changes or play state changes.
+  // Both slots get it so a preloaded song starts at the right speed.
+  useEffect(() => {
+    slotElementsRef.current.forEach((element) => {
+      if (!element) return;
+      element.preservesPitch = preservesPitch;
+      element.playbackRate = playbackRate;
+    });
+  }, [currentSong, playState, playbackRate, preservesPitch]);
+
+  // Single-song repeat loops natively on the active element, which is gapless
+  useEffect(() => {
+    slotElementsRef.current.forEach((element, slot) => {
+      if (!element) return;
+      element.loop =
+        slot === activeSlot &&
+        playMode === PlayMode.LOOP_ONE &&
+        !sleepStopsAfterSong;
+    });
+  }, [activeSlot, playMode, sleepStopsAfterSong]);
+
+  // Index of the song that follows the current one without user action
+  const getUpcomingIndex = useCallback(() => {
+    if (playMode === PlayMode.LOOP_ONE) return -1;
+    if (queue.length < 2 || currentIndex < 0) return -1;
+    return (currentIndex + 1) % queue.length;
+  }, [playMode, queue.length, currentIndex]);
+
+  // Load a song into the standby slot, from the audio cache when possible
+  const preloadStandby = useCallback(
+    (song: Song) => {
+      const standby = 1 - activeSlotRef.current;
+      if (slotSongIdsRef.current[standby] === song.id) return;
+      const fileUrl = song.fileUrl;
+      const isInline = fileUrl.startsWith("blob:") || fileUrl.startsWith("data:");
+      if (isInline) {
+        setSlotSource(standby, song.id, fileUrl);
+        return;
+      }
+      // Start from the network; a stored copy takes over if it turns up
+      // before the element has loaded anything
+      const streamUrl = setSlotStream(standby, song.id, fileUrl);
+      audioResourceCache.load(fileUrl).then((cachedBlob) => {
+        if (!cachedBlob || !isSlotUnstarted(standby, song.id, streamUrl)) {
+          return;
+        }
+        setSlotSource(standby, song.id, URL.createObjectURL(cachedBlob), true);
+      });
+    },
+    [setSlotSource, setSlotStream, isSlotUnstarted],
+  );
 
-    const releaseObjectUrl = () => {
-      if (currentObjectUrl) {
-        URL.revokeObjectURL(currentObjectUrl);
-        currentObjectUrl = null;
+  // Watch the active element while playing: preload the next song ahead of
+  // time, then either crossfade into it or start it right as this one ends.
+  useEffect(() => {
+    // An A-B loop keeps playback inside the current song, and a sleep timer
+    // may be about to stop it
+    if (playState !== PlayState.PLAYING || isAbLooping || sleepStopsAfterSong) {
+      return;
+    }
+    const upcomingIndex = getUpcomingIndex();
+    const upcoming = upcomingIndex !== -1 ? queue[upcomingIndex] : null;
+    if (!upcoming) return;
+
+    let gaplessTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const getRemaining = (audio: HTMLAudioElement) =>
+      (audio.duration - audio.currentTime) / (audio.playbackRate || 1);
+
+    const tick = () => {
+      const audio = audioRef.current;
+      if (!audio || isSeekingRef.current || outgoingElementRef.current) return;
+      const total = audio.duration;
+      if (!Number.isFinite(total) || total <= 0) return;
+
+      const remaining = getRemaining(audio);
+      // Very short songs would spend most of their length fading
+      const fade = crossfade > 0 && total > crossfade * 2 ? crossfade : 0;
+
+      if (remaining <= PRELOAD_LEAD_SECONDS + fade) {
+        preloadStandby(upcoming);
+      }
+      if (!isStandbyReady(upcoming.id)) return;
+
+      if (fade > 0) {
+        if (remaining <= fade) {
+          startStandby(upcomingIndex, "crossfade", Math.max(remaining, 0.1));
+        }
+      } else if (remaining <= GAPLESS_SCHEDULE_WINDOW && !gaplessTimer) {
+        gaplessTimer = setTimeout(
+          () => {
+            gaplessTimer = null;
+            // The user may have seeked away in the meantime
+            if (getRemaining(audio) > GAPLESS_SCHEDULE_WINDOW) return;
+            startStandby(upcomingIndex, "gapless");
+          },
+          Math.max(0, (remaining - GAPLESS_LEAD_SECONDS) * 1000),
+        );
+      }
+    };
+
+    const interval = setInterval(tick, MONITOR_INTERVAL_MS);
+    return () => {
+      clearInterval(interval);
+      if (gaplessTimer) clearTimeout(gaplessTimer);
+    };
+  }, [
+    playState,
+    isAbLooping,
+    sleepStopsAfterSong,
+    queue,
+    crossfade,
+    getUpcomingIndex,
+    preloadStandby,
+    isStandbyReady,
+    startStandby,
+  ]);
+
+  // Apply loudness normalization to whatever song each slot holds
+  useEffect(() => {
+    slotElementsRef.current.forEach((element, slot) => {
+      if (!element) return;
+      const songId = slotSongIdsRef.current[slot];
+      const song = songId ? queue.find((item) => item.id === songId) : undefined;
+      const gain = song
+        ? getNormalizationGain(song, normalization, queue) + (song.volumeOffset ?? 0)
+        : 0;
+      audioGraph.setElementNormalization(element, gain);
+    });
+  }, [slotSources, queue, normalization]);
+
+  // Songs without ReplayGain tags get measured once their bytes are available
+  // locally; results are remembered per song across sessions
+  const isFullyBuffered = bufferProgress >= 1;
+  useEffect(() => {
+    if (normalization === "off" || !currentSong || currentSong.replayGain) return;
+    const song = currentSong;
+    const songKey = getSongKey(song);
+    let cancelled = false;
+
+    const getSongBlob = async (): Promise<Blob | null> => {
+      if (song.fileUrl.startsWith("blob:")) {
+        try {
+          return await (await fetch(song.fileUrl)).blob();
+        } catch {
+          return null;
+        }
+      }
+      return audioResourceCache.load(song.fileUrl);
+    };
+
+    const resolveLoudness = async () => {
+      const stored = await loadLoudness(songKey);
+      if (cancelled) return;
+      if (stored) {
+        updateSongInQueue(song.id, { replayGain: recordToReplayGain(stored) });
+        return;
+      }
+      const blob = await getSongBlob();
+      if (!blob || cancelled) return;
+      // Finish even if the song changes meanwhile - the result is still useful
+      const record = await analyzeLoudness(songKey, blob);
+      if (record) {
+        updateSongInQueue(song.id, { replayGain: recordToReplayGain(record) });
       }
     };
 
+    resolveLoudness();
+    return () => {
+      cancelled = true;
+    };
+  }, [
+    currentSong?.id,
+    currentSong?.replayGain,
+    normalization,
+    isFullyBuffered,
+    updateSongInQueue,
+  ]);
+
+  // Release slot object URLs on unmount
+  useEffect(() => {
+    return () => {
+      slotObjectUrlsRef.current.forEach((url) => {
+        if (url) URL.revokeObjectURL(url);
+      });
+    };
+  }, []);
+
+  useEffect(() => {
+    let canceled = false;
+    let controller: AbortController | null = null;
+    const slot = activeSlotRef.current;
+
     if (!currentSong?.fileUrl) {
-      releaseObjectUrl();
-      setResolvedAudioSrc(null);
+      setSlotSource(0, null, null);
+      setSlotSource(1, null, null);
       setIsBuffering(false);
       setBufferProgress(0);
       return () => {
         canceled = true;
         controller?.abort();
-        releaseObjectUrl();
       };
     }
 
+    const songId = currentSong.id;
     const fileUrl = currentSong.fileUrl;
 
+    // Handed over from the standby slot - it is already loaded and playing
+    if (
+      slotSongIdsRef.current[slot] === songId &&
+      slotSourcesRef.current[slot]
+    ) {
+      setIsBuffering(false);
+      setBufferProgress(1);
+      return () => {
+        canceled = true;
+      };
+    }
+
     // Already a blob or data URL - use directly
     if (fileUrl.startsWith("blob:") || fileUrl.startsWith("data:")) {
-      releaseObjectUrl();
-      setResolvedAudioSrc(fileUrl);
+      setSlotSource(slot, songId, fileUrl);
       setIsBuffering(false);
       setBufferProgress(1);
       return () => {
@@ -550,31 +1401,21 @@ export const usePlayer = ({
     // Check cache first
     const cachedBlob = audioResourceCache.get(fileUrl);
     if (cachedBlob) {
-      releaseObjectUrl();
-      currentObjectUrl = URL.createObjectURL(cachedBlob);
-      setResolvedAudioSrc(currentObjectUrl);
+      setSlotSource(slot, songId, URL.createObjectURL(cachedBlob), true);
       setIsBuffering(false);
       setBufferProgress(1);
       return () => {
         canceled = true;
-        releaseObjectUrl();
       };
     }
 
-    // Use the original URL directly - let browser handle native buffering
-    // This is the most reliable approach and works for any file size
-    releaseObjectUrl();
-    setResolvedAudioSrc(null); // Use original fileUrl via fallback in audio element
-    setIsBuffering(true);
-    setBufferProgress(0);
-
     // Download in background for caching (does not affect playback)
     const cacheInBackground = async () => {
       if (typeof fetch !== "function") return;
 
       controller = new AbortController();
       try {
-        const response = await fetch(fileUrl, { signal: controller.signal });
+        const response = await fetch(streamUrl, { signal: controller.signal });
         if (!response.ok) {
           throw new Error("Failed to load audio: " + response.status);
         }
@@ -631,14 +1472,46 @@ export const usePlayer = ({
       }
     };
 
-    cacheInBackground();
+    setIsBuffering(true);
+    setBufferProgress(0);
+
+    // Use the original URL directly - let browser handle native buffering
+    // This is the most reliable approach and works for any file size
+    const streamUrl = setSlotStream(slot, songId, fileUrl);
+
+    // Stored by an earlier session? Switch to it only if the stream hasn't
+    // started, otherwise the cached copy serves the next play
+    audioResourceCache.load(fileUrl).then((storedBlob) => {
+      if (canceled) return;
+      if (storedBlob) {
+        if (isSlotUnstarted(slot, songId, streamUrl)) {
+          setSlotSource(slot, songId, URL.createObjectURL(storedBlob), true);
+        }
+        setIsBuffering(false);
+        setBufferProgress(1);
+        return;
+      }
+      cacheInBackground();
+    });
 
     return () => {
       canceled = true;
       controller?.abort();
-      releaseObjectUrl();
     };
-  }, [currentSong?.fileUrl]);
+  }, [
+    currentSong?.id,
+    currentSong?.fileUrl,
+    setSlotSource,
+    setSlotStream,
+    isSlotUnstarted,
+  ]);
+
+  const audioSlots = [0, 1].map((slot) => ({
+    slot,
+    ref: slotRefCallbacks[slot],
+    src: slotSources[slot],
+    isActive: slot === activeSlot,
+  }));
 
   return {
     audioRef,
@@ -651,6 +1524,7 @@ export const usePlayer = ({
     matchStatus,
     accentColor,
     speed,
+    playbackRate,
     preservesPitch,
     togglePlay,
     toggleMode,
@@ -662,15 +1536,42 @@ export const usePlayer = ({
     handleLoadedMetadata,
     handlePlaylistAddition,
     loadLyricsFile,
+    refreshLyrics,
     addSongAndPlay,
     handleAudioEnded,
     setSpeed: handleSetSpeed,
     togglePreservesPitch: handleTogglePreservesPitch,
-    pitch: 0, // Default pitch
-    setPitch: (pitch: number) => { }, // Placeholder
+    restoreSession,
+    pitch,
+    setPitch: handleSetPitch,
     play,
     pause,
-    resolvedAudioSrc,
+    crossfade,
+    setCrossfade: handleSetCrossfade,
+    normalization,
+    setNormalization,
+    smartShuffle,
+    setSmartShuffle: handleSetSmartShuffle,
+    volume,
+    isMuted,
+    setVolume: handleSetVolume,
+    adjustVolume,
+    toggleMute,
+    setSongVolumeOffset,
+    sleepTimer,
+    startSleepTimer,
+    cancelSleepTimer,
+    abLoop,
+    abLoopPass,
+    abLoopRepeats,
+    setAbLoopRepeats,
+    abLoopSpeedStep,
+    setAbLoopSpeedStep,
+    setLoopStart,
+    setLoopEnd,
+    setLoopRange,
+    clearLoop,
+    audioSlots,
     isBuffering,
     bufferProgress,
   };
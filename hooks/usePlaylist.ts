@@ -1,20 +1,67 @@
-import { useCallback, useState } from "react";
+import { useCallback, useRef, useState } from "react";
 import { Song } from "../types";
 import {
   extractColors,
+  hashFile,
+  mapWithLimit,
   parseAudioMetadata,
-  parseMusicLink,
+  readAudioDuration,
 } from "../services/utils";
 import { parseLyrics } from "../services/lyrics";
 import {
-  fetchNeteasePlaylist,
-  fetchNeteaseSong,
-  getNeteaseAudioUrl,
-  fetchTracksFromPlatform,
-  getAudioUrl,
-  TrackInfo,
-} from "../services/lyricsService";
+  getProvider,
+  getProviders,
+  resolveMusicLink,
+  trackToSong,
+} from "../services/providers";
 import { audioResourceCache } from "../services/cache";
+import { saveLocalFile } from "../services/persistence";
+import { findStoredSongId } from "../services/library";
+import { pruneLocalFiles } from "../services/playlists";
+import {
+  isPlaylistFile,
+  parsePlaylistFile,
+  resolvePlaylistEntries,
+} from "../services/playlistFormats";
+import {
+  ScannedFile,
+  fromFileList,
+  getDirectory,
+  getExtension,
+  isAudioFile,
+  isFolderCover,
+  stripExtension,
+} from "../services/localFiles";
+
+// Take `songs` out of `list` (matching by id) and put them back directly
+// before `beforeId`, or at the end when it is null or not in the list
+const placeBefore = (list: Song[], songs: Song[], beforeId: string | null) => {
+  const ids = new Set(songs.map((song) => song.id));
+  const rest = list.filter((song) => !ids.has(song.id));
+  const at = beforeId ? rest.findIndex((song) => song.id === beforeId) : -1;
+  const insertAt = at === -1 ? rest.length : at;
+  return [...rest.slice(0, insertAt), ...songs, ...rest.slice(insertAt)];
+};
+
+// Same, but directly after `afterId`
+const placeAfter = (list: Song[], songs: Song[], afterId: string | null) => {
+  const ids = new Set(songs.map((song) => song.id));
+  const rest = list.filter((song) => !ids.has(song.id));
+  const at = afterId ? rest.findIndex((song) => song.id === afterId) : -1;
+  const insertAt = at === -1 ? rest.length : at + 1;
+  return [...rest.slice(0, insertAt), ...songs, ...rest.slice(insertAt)];
+};
+
+// Files read, hashed and stored at once during an import
+const IMPORT_CONCURRENCY = 4;
+
+const readAsDataUrl = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
 
 // Levenshtein distance for fuzzy matching
 const levenshteinDistance = (str1: string, str2: string): number => {
@@ -57,9 +104,21 @@ export interface ImportResult {
   songs: Song[];
 }
 
+export interface LocalImportResult {
+  songs: Song[];
+  // Playlist file entries that matched neither a file in the batch nor a URL
+  missingEntries: number;
+  // `songs` once the local ones' durations are known
+  probed: Promise<Song[]>;
+}
+
 export const usePlaylist = () => {
   const [queue, setQueue] = useState<Song[]>([]);
   const [originalQueue, setOriginalQueue] = useState<Song[]>([]);
+  const queueRef = useRef(queue);
+  queueRef.current = queue;
+  const originalQueueRef = useRef(originalQueue);
+  originalQueueRef.current = originalQueue;
 
   const updateSongInQueue = useCallback(
     (id: string, updates: Partial<Song>) => {
@@ -79,43 +138,112 @@ export const usePlaylist = () => {
     setQueue((prev) => [...prev, ...songs]);
   }, []);
 
+  // Queue songs to play right after `currentId`. Songs already queued are moved
+  // rather than duplicated. While shuffling, originalQueue gets the same
+  // placement relative to the current song, so leaving shuffle keeps them next.
+  const insertAfterCurrent = useCallback(
+    (songs: Song[], currentId: string | null) => {
+      if (songs.length === 0) return;
+      setQueue((prev) => placeAfter(prev, songs, currentId));
+      setOriginalQueue((prev) => placeAfter(prev, songs, currentId));
+    },
+    [],
+  );
+
+  // Move queued songs (in their current relative order) before `beforeId`.
+  // Both lists are anchored on the same neighbour so they stay consistent
+  // whether or not shuffle has diverged them.
+  const moveSongs = useCallback((ids: string[], beforeId: string | null) => {
+    if (ids.length === 0) return;
+    const idSet = new Set(ids);
+    const move = (list: Song[]) =>
+      placeBefore(
+        list,
+        list.filter((song) => idSet.has(song.id)),
+        beforeId,
+      );
+    setQueue(move);
+    setOriginalQueue(move);
+  }, []);
+
+  // Swap the whole queue for `songs`, e.g. when loading a saved playlist
+  const replaceQueue = useCallback((songs: Song[]) => {
+    const keep = new Set(songs.map((song) => song.id));
+    const dropped = originalQueueRef.current
+      .filter((song) => !keep.has(song.id))
+      .map((song) => song.id);
+    setOriginalQueue(songs);
+    setQueue(songs);
+    pruneLocalFiles(dropped, keep);
+  }, []);
+
+  const restoreQueue = useCallback(
+    (restoredOriginal: Song[], restoredQueue: Song[]) => {
+      setOriginalQueue(restoredOriginal);
+      setQueue(restoredQueue);
+    },
+    [],
+  );
+
   const removeSongs = useCallback((ids: string[]) => {
     if (ids.length === 0) return;
     setQueue((prev) => {
+      // Frees memory; the persistent copy stays for replays and downloads
       prev.forEach((song) => {
         if (ids.includes(song.id) && song.fileUrl && !song.fileUrl.startsWith("blob:")) {
-          audioResourceCache.delete(song.fileUrl);
+          audioResourceCache.forget(song.fileUrl);
         }
       });
       return prev.filter((song) => !ids.includes(song.id));
     });
     setOriginalQueue((prev) => prev.filter((song) => !ids.includes(song.id)));
+    // Saved playlists may still need the bytes of removed local songs
+    pruneLocalFiles(ids);
   }, []);
 
+  // Accepts picked files or a scanned folder tree. Lyrics sidecars are paired
+  // by path first ("Album/Song.lrc" for "Album/Song.mp3"), then by title.
   const addLocalFiles = useCallback(
-    async (files: FileList | File[]) => {
-      const fileList =
-        files instanceof FileList ? Array.from(files) : Array.from(files);
-
-      // Separate audio and lyrics files
-      const audioFiles: File[] = [];
-      const lyricsFiles: File[] = [];
-
-      fileList.forEach((file) => {
-        const ext = file.name.split(".").pop()?.toLowerCase();
+    async (
+      files: FileList | File[] | ScannedFile[],
+    ): Promise<LocalImportResult> => {
+      const scannedFiles =
+        files instanceof FileList || files[0] instanceof File
+          ? fromFileList(files as FileList | File[])
+          : (files as ScannedFile[]);
+
+      // Separate audio, lyrics, playlist and folder cover files
+      const audioFiles: ScannedFile[] = [];
+      const lyricsFiles: ScannedFile[] = [];
+      const playlistFiles: File[] = [];
+      const folderCovers = new Map<string, File>();
+
+      scannedFiles.forEach((scanned) => {
+        const { file, path } = scanned;
+        const ext = getExtension(file.name);
         if (ext === "lrc" || ext === "txt") {
-          lyricsFiles.push(file);
-        } else {
-          audioFiles.push(file);
+          lyricsFiles.push(scanned);
+        } else if (isPlaylistFile(file.name)) {
+          playlistFiles.push(file);
+        } else if (isFolderCover(file)) {
+          const dir = getDirectory(path);
+          if (!folderCovers.has(dir)) folderCovers.set(dir, file);
+        } else if (isAudioFile(file)) {
+          audioFiles.push(scanned);
         }
       });
 
       const newSongs: Song[] = [];
 
+      const lyricsByPath = new Map<string, File>();
+      lyricsFiles.forEach(({ file, path }) => {
+        lyricsByPath.set(stripExtension(path).toLowerCase(), file);
+      });
+
       // Build lyrics map: extract song title from filename (part after first "-")
       // Remove Netease IDs like (12345678) from title
       const lyricsMap = new Map<string, File>();
-      lyricsFiles.forEach((file) => {
+      lyricsFiles.forEach(({ file }) => {
         const basename = file.name.replace(/\.[^/.]+$/, "");
         const firstDashIndex = basename.indexOf("-");
 
@@ -130,16 +258,50 @@ export const usePlaylist = () => {
         lyricsMap.set(title.toLowerCase(), file);
       });
 
-      // Process audio files
-      for (let i = 0; i < audioFiles.length; i++) {
-        const file = audioFiles[i];
+      // Folder art is shared by every track in the folder; read it once
+      const folderCoverUrls = new Map<string, Promise<string | undefined>>();
+      const getFolderCover = (dir: string) => {
+        const file = folderCovers.get(dir);
+        if (!file) return Promise.resolve(undefined);
+        if (!folderCoverUrls.has(dir)) {
+          folderCoverUrls.set(dir, readAsDataUrl(file).catch(() => undefined));
+        }
+        return folderCoverUrls.get(dir)!;
+      };
+
+      // Copies of one file share the bytes stored for the first
+      const idsByHash = new Map<string, Promise<string>>();
+      const storeFile = (file: File, fileHash: string | undefined, id: string) => {
+        if (!fileHash) {
+          saveLocalFile(id, file);
+          return Promise.resolve(id);
+        }
+        if (!idsByHash.has(fileHash)) {
+          idsByHash.set(
+            fileHash,
+            findStoredSongId(fileHash).then((storedId) => {
+              if (storedId) return storedId;
+              saveLocalFile(id, file);
+              return id;
+            }),
+          );
+        }
+        return idsByHash.get(fileHash)!;
+      };
+
+      const importFile = async (
+        { file, path }: ScannedFile,
+        i: number,
+      ): Promise<Song> => {
         const url = URL.createObjectURL(file);
         const basename = file.name.replace(/\.[^/.]+$/, "");
         let title = basename;
         let artist = "Unknown Artist";
+        let album: string | undefined;
         let coverUrl: string | undefined;
         let colors: string[] | undefined;
         let lyrics: { time: number; text: string }[] = [];
+        let replayGain: Song["replayGain"];
 
         const nameParts = title.split("-");
         if (nameParts.length > 1) {
@@ -151,6 +313,8 @@ export const usePlaylist = () => {
           const metadata = await parseAudioMetadata(file);
           if (metadata.title) title = metadata.title;
           if (metadata.artist) artist = metadata.artist;
+          if (metadata.album) album = metadata.album;
+          replayGain = metadata.replayGain;
           if (metadata.picture) {
             coverUrl = metadata.picture;
             colors = await extractColors(coverUrl);
@@ -170,8 +334,10 @@ export const usePlaylist = () => {
             // Normalize song title for matching
             const songTitle = title.toLowerCase().trim();
 
-            // Try exact match first
-            let matchedLyricsFile = lyricsMap.get(songTitle);
+            // A sidecar next to the file wins, then an exact title match
+            let matchedLyricsFile =
+              lyricsByPath.get(stripExtension(path).toLowerCase()) ??
+              lyricsMap.get(songTitle);
 
             // If no exact match, try fuzzy matching
             if (!matchedLyricsFile && lyricsMap.size > 0) {
@@ -210,8 +376,18 @@ export const usePlaylist = () => {
           // Local metadata extraction failed
         }
 
-        newSongs.push({
-          id: `local-${Date.now()}-${i}`,
+        if (!coverUrl) {
+          coverUrl = await getFolderCover(getDirectory(path));
+          if (coverUrl) colors = await extractColors(coverUrl);
+        }
+        // Identifies the file across re-imports (likes, ratings, loudness)
+        const fileHash = await hashFile(file);
+        // Keep the original bytes so the song survives a reload; a file
+        // imported before reuses what's stored
+        const id = await storeFile(file, fileHash, `local-${Date.now()}-${i}`);
+
+        return {
+          id,
           title,
           artist,
           fileUrl: url,
@@ -219,68 +395,94 @@ export const usePlaylist = () => {
           lyrics,
           colors: colors && colors.length > 0 ? colors : undefined,
           needsLyricsMatch: lyrics.length === 0, // Flag for cloud matching
+          replayGain,
+          album,
+          fileName: file.name,
+          filePath: path,
+          fileHash,
+        };
+      };
+
+      const queuedIds = new Set(queueRef.current.map((song) => song.id));
+      const imported = await mapWithLimit(
+        audioFiles,
+        IMPORT_CONCURRENCY,
+        importFile,
+      );
+      imported.forEach((song) => {
+        // Already queued, or a copy of another file in this batch
+        if (queuedIds.has(song.id)) {
+          URL.revokeObjectURL(song.fileUrl);
+          return;
+        }
+        queuedIds.add(song.id);
+        newSongs.push(song);
+      });
+
+      // Durations are filled in once the songs are queued; probing a file
+      // the browser can't decode waits for a timeout
+      const probeDurations = async (songs: Song[]) => {
+        const probed = new Set(newSongs.map((song) => song.id));
+        return mapWithLimit(songs, IMPORT_CONCURRENCY, async (song) => {
+          if (!probed.has(song.id)) return song;
+          const duration = await readAudioDuration(song.fileUrl);
+          if (!duration) return song;
+          updateSongInQueue(song.id, { duration });
+          return { ...song, duration };
         });
+      };
+
+      if (playlistFiles.length === 0) {
+        appendSongs(newSongs);
+        return {
+          songs: newSongs,
+          missingEntries: 0,
+          probed: probeDurations(newSongs),
+        };
       }
 
-      appendSongs(newSongs);
-      return newSongs;
+      // Playlist files decide the order and may add remote entries
+      const entries = (
+        await Promise.all(
+          playlistFiles.map(async (file) =>
+            parsePlaylistFile(file.name, await file.text()),
+          ),
+        )
+      ).flat();
+      const resolved = resolvePlaylistEntries(entries, newSongs);
+      appendSongs(resolved.songs);
+      return {
+        songs: resolved.songs,
+        missingEntries: resolved.missing,
+        probed: probeDurations(resolved.songs),
+      };
     },
-    [appendSongs],
+    [appendSongs, updateSongInQueue],
   );
 
   const importFromUrl = useCallback(
     async (input: string): Promise<ImportResult> => {
-      const parsed = parseMusicLink(input);
-      if (!parsed) {
+      const link = resolveMusicLink(input);
+      const provider = link ? getProvider(link.platform) : undefined;
+      if (!link || !provider) {
         return {
           success: false,
-          message:
-            "Invalid URL. Supported platforms: NetEase, QQ Music, Baidu Music, Kugou Music, Xiami Music",
+          message: `Invalid URL. Supported platforms: ${getProviders()
+            .map((p) => p.linkLabel)
+            .join(", ")}`,
           songs: [],
         };
       }
 
       const newSongs: Song[] = [];
       try {
-        // Handle different platforms
-        if (parsed.platform === "netease") {
-          // Use existing NetEase API for better compatibility
-          if (parsed.type === "playlist") {
-            const songs = await fetchNeteasePlaylist(parsed.id);
-            songs.forEach((song) => {
-              newSongs.push({
-                ...song,
-                fileUrl: getNeteaseAudioUrl(song.id),
-                lyrics: [],
-                colors: [],
-                needsLyricsMatch: true,
-              });
-            });
-          } else {
-            const song = await fetchNeteaseSong(parsed.id);
-            if (song) {
-              newSongs.push({
-                ...song,
-                fileUrl: getNeteaseAudioUrl(song.id),
-                lyrics: [],
-                colors: [],
-                needsLyricsMatch: true,
-              });
-            }
-          }
-        } else {
-          // Use Meting API for other platforms
-          const songs = await fetchTracksFromPlatform(parsed.platform, parsed.type, parsed.id);
-          songs.forEach((song: TrackInfo) => {
-            newSongs.push({
-              ...song,
-              fileUrl: getAudioUrl(song.platform, song.platformId),
-              lyrics: [],
-              colors: [],
-              needsLyricsMatch: true,
-            });
-          });
-        }
+        const tracks =
+          link.type === "playlist"
+            ? await provider.fetchPlaylist(link.id)
+            : [await provider.fetchSong(link.id)];
+        tracks.forEach((track) => {
+          if (track) newSongs.push({ ...trackToSong(track), colors: [] });
+        });
       } catch (err) {
         return {
           success: false,
@@ -308,6 +510,11 @@ export const usePlaylist = () => {
     originalQueue,
     updateSongInQueue,
     removeSongs,
+    appendSongs,
+    replaceQueue,
+    insertAfterCurrent,
+    moveSongs,
+    restoreQueue,
     addLocalFiles,
     importFromUrl,
     setQueue,
@@ -0,0 +1,161 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { PlayMode, Song } from "../types";
+import {
+  audioResourceCache,
+  fetchAudioBlob,
+  fetchImageBlobWithCache,
+} from "../services/cache";
+import {
+  getLyricsCacheKey,
+  loadCachedLyrics,
+  saveCachedLyrics,
+  toLyricLines,
+} from "../services/lyricsCache";
+import {
+  getPrefetchLimits,
+  getUpcomingSongs,
+  subscribeNetworkChanges,
+} from "../services/prefetch";
+import { findLyrics } from "../services/providers";
+import { extractColors } from "../services/utils";
+
+interface UsePrefetchParams {
+  queue: Song[];
+  currentIndex: number;
+  playMode: PlayMode;
+  // Audio waits for the current song's own download so it gets the bandwidth
+  isCurrentLoading: boolean;
+  updateSongInQueue: (id: string, updates: Partial<Song>) => void;
+}
+
+const isInline = (url: string) =>
+  url.startsWith("blob:") || url.startsWith("data:");
+
+// Gets the songs that play next ready ahead of time: audio into the audio
+// cache, cover art and its colors, and lyrics into the lyrics cache. How far
+// ahead depends on the connection (see getPrefetchLimits).
+export const usePrefetch = ({
+  queue,
+  currentIndex,
+  playMode,
+  isCurrentLoading,
+  updateSongInQueue,
+}: UsePrefetchParams) => {
+  const [limits, setLimits] = useState(getPrefetchLimits);
+  const queueRef = useRef(queue);
+  queueRef.current = queue;
+  // Attempts this session, successful or not, so failures aren't retried
+  // every time the queue changes
+  const attemptedRef = useRef({
+    audio: new Set<string>(),
+    covers: new Set<string>(),
+    lyrics: new Set<string>(),
+  });
+
+  useEffect(
+    () => subscribeNetworkChanges(() => setLimits(getPrefetchLimits())),
+    [],
+  );
+
+  // Keyed on ids so changes to the songs themselves (colors, lyrics) don't
+  // restart anything; the effects read the songs from queueRef
+  const upcomingKey = getUpcomingSongs(
+    queue,
+    currentIndex,
+    playMode,
+    Math.max(limits.audio, limits.metadata),
+  )
+    .map((song) => song.id)
+    .join("\n");
+  const upcomingIds = useMemo(
+    () => (upcomingKey ? upcomingKey.split("\n") : []),
+    [upcomingKey],
+  );
+
+  const getSongs = useCallback(
+    (count: number) =>
+      upcomingIds
+        .slice(0, count)
+        .map((id) => queueRef.current.find((song) => song.id === id))
+        .filter((song): song is Song => !!song),
+    [upcomingIds],
+  );
+
+  // Cover art, colors and lyrics
+  useEffect(() => {
+    if (limits.metadata === 0) return;
+    const controller = new AbortController();
+    const { covers, lyrics } = attemptedRef.current;
+
+    const prefetchCover = async (song: Song) => {
+      const coverUrl = song.coverUrl;
+      if (!coverUrl || isInline(coverUrl) || covers.has(coverUrl)) return;
+      covers.add(coverUrl);
+      try {
+        await fetchImageBlobWithCache(coverUrl);
+        if (song.colors && song.colors.length > 0) return;
+        const colors = await extractColors(coverUrl);
+        if (colors.length > 0) updateSongInQueue(song.id, { colors });
+      } catch {
+        // Loaded again when the song comes up
+      }
+    };
+
+    const prefetchLyrics = async (song: Song) => {
+      if (!song.needsLyricsMatch || (song.lyrics?.length ?? 0) > 0) return;
+      const key = getLyricsCacheKey(song);
+      if (lyrics.has(key)) return;
+      try {
+        if (!(await loadCachedLyrics(key))) {
+          const raw = await findLyrics(song, { signal: controller.signal });
+          if (raw) await saveCachedLyrics(key, raw, toLyricLines(raw));
+        }
+        // An aborted search says nothing about the song
+        if (!controller.signal.aborted) lyrics.add(key);
+      } catch {
+        // Matched again when the song comes up
+      }
+    };
+
+    (async () => {
+      for (const song of getSongs(limits.metadata)) {
+        if (controller.signal.aborted) return;
+        await prefetchCover(song);
+        await prefetchLyrics(song);
+      }
+    })();
+
+    return () => controller.abort();
+  }, [getSongs, limits.metadata, updateSongInQueue]);
+
+  // Audio, one song at a time
+  useEffect(() => {
+    if (limits.audio === 0 || isCurrentLoading) return;
+    const controller = new AbortController();
+    const { audio } = attemptedRef.current;
+
+    (async () => {
+      for (const song of getSongs(limits.audio)) {
+        const fileUrl = song.fileUrl;
+        if (isInline(fileUrl) || audio.has(fileUrl)) continue;
+        try {
+          if (!(await audioResourceCache.load(fileUrl))) {
+            const blob = await fetchAudioBlob(
+              fileUrl,
+              undefined,
+              controller.signal,
+            );
+            audioResourceCache.set(fileUrl, blob);
+          }
+          audio.add(fileUrl);
+        } catch {
+          if (controller.signal.aborted) return;
+          // Streamed from the network when it comes up
+          audio.add(fileUrl);
+        }
+      }
+    })();
+
+    return () => controller.abort();
+  }, [getSongs, limits.audio, isCurrentLoading]);
+};
@@ -4,10 +4,15 @@ import { SearchProvider } from "./useSearchProvider";
 
 interface UseQueueSearchProviderParams {
   queue: Song[];
+  isLiked: (song: Song) => boolean;
+  // Only match liked songs
+  likedOnly: boolean;
 }
 
 export const useQueueSearchProvider = ({
   queue,
+  isLiked,
+  likedOnly,
 }: UseQueueSearchProviderParams): SearchProvider => {
   const provider: SearchProvider = useMemo(
     () => ({
@@ -19,19 +24,20 @@ export const useQueueSearchProvider = ({
 
       search: async (query: string): Promise<Song[]> => {
         // Real-time filtering - no need for explicit search
+        const candidates = likedOnly ? queue.filter(isLiked) : queue;
         if (!query.trim()) {
-          return queue;
+          return candidates;
         }
 
         const lower = query.toLowerCase();
-        return queue.filter(
+        return candidates.filter(
           (s) =>
             s.title.toLowerCase().includes(lower) ||
             s.artist.toLowerCase().includes(lower)
         );
       },
     }),
-    [queue]
+    [queue, isLiked, likedOnly]
   );
 
   return provider;
@@ -0,0 +1,147 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { SavedPlaylist, Song } from "../types";
+import {
+  createPlaylistId,
+  deletePlaylistRecord,
+  loadPlaylists,
+  normalizePlaylistName,
+  pruneLocalFiles,
+  savePlaylist,
+} from "../services/playlists";
+
+// Library of named playlists. `queue` is only used to keep the stored bytes of
+// local songs that are still queued when a playlist lets go of them.
+export const useSavedPlaylists = (queue: Song[]) => {
+  const [playlists, setPlaylists] = useState<SavedPlaylist[]>([]);
+  const playlistsRef = useRef(playlists);
+  const queueRef = useRef(queue);
+  queueRef.current = queue;
+
+  useEffect(() => {
+    let cancelled = false;
+    loadPlaylists().then((loaded) => {
+      if (cancelled) return;
+      playlistsRef.current = loaded;
+      setPlaylists(loaded);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const commit = useCallback((next: SavedPlaylist[]) => {
+    playlistsRef.current = next;
+    setPlaylists(next);
+  }, []);
+
+  const updatePlaylist = useCallback(
+    async (id: string, update: (playlist: SavedPlaylist) => SavedPlaylist) => {
+      const current = playlistsRef.current.find((item) => item.id === id);
+      if (!current) return false;
+      const updated = { ...update(current), updatedAt: Date.now() };
+      commit(
+        playlistsRef.current.map((item) => (item.id === id ? updated : item)),
+      );
+      await savePlaylist(updated);
+      return true;
+    },
+    [commit],
+  );
+
+  const releaseSongs = useCallback((songIds: string[]) => {
+    pruneLocalFiles(
+      songIds,
+      queueRef.current.map((song) => song.id),
+    );
+  }, []);
+
+  const createPlaylist = useCallback(
+    (name: string, songs: Song[] = []) => {
+      const now = Date.now();
+      const playlist: SavedPlaylist = {
+        id: createPlaylistId(),
+        name: normalizePlaylistName(name),
+        songs: songs.filter(
+          (song, index) => songs.findIndex((s) => s.id === song.id) === index,
+        ),
+        createdAt: now,
+        updatedAt: now,
+      };
+      commit([...playlistsRef.current, playlist]);
+      savePlaylist(playlist);
+      return playlist;
+    },
+    [commit],
+  );
+
+  const renamePlaylist = useCallback(
+    (id: string, name: string) => {
+      updatePlaylist(id, (playlist) => ({
+        ...playlist,
+        name: normalizePlaylistName(name),
+      }));
+    },
+    [updatePlaylist],
+  );
+
+  const duplicatePlaylist = useCallback(
+    (id: string) => {
+      const source = playlistsRef.current.find((item) => item.id === id);
+      if (!source) return null;
+      return createPlaylist(`${source.name} Copy`, source.songs);
+    },
+    [createPlaylist],
+  );
+
+  const deletePlaylist = useCallback(
+    async (id: string) => {
+      const removed = playlistsRef.current.find((item) => item.id === id);
+      if (!removed) return;
+      commit(playlistsRef.current.filter((item) => item.id !== id));
+      await deletePlaylistRecord(id);
+      releaseSongs(removed.songs.map((song) => song.id));
+    },
+    [commit, releaseSongs],
+  );
+
+  // Returns how many songs were new to the playlist. The update runs
+  // synchronously; only the write is left pending.
+  const addSongsToPlaylist = useCallback(
+    (id: string, songs: Song[]) => {
+      let added = 0;
+      updatePlaylist(id, (playlist) => {
+        const existing = new Set(playlist.songs.map((song) => song.id));
+        const fresh = songs.filter((song) => {
+          if (existing.has(song.id)) return false;
+          existing.add(song.id);
+          return true;
+        });
+        added = fresh.length;
+        return { ...playlist, songs: [...playlist.songs, ...fresh] };
+      });
+      return added;
+    },
+    [updatePlaylist],
+  );
+
+  const removeSongsFromPlaylist = useCallback(
+    async (id: string, songIds: string[]) => {
+      const updated = await updatePlaylist(id, (playlist) => ({
+        ...playlist,
+        songs: playlist.songs.filter((song) => !songIds.includes(song.id)),
+      }));
+      if (updated) releaseSongs(songIds);
+    },
+    [updatePlaylist, releaseSongs],
+  );
+
+  return {
+    playlists,
+    createPlaylist,
+    renamePlaylist,
+    duplicatePlaylist,
+    deletePlaylist,
+    addSongsToPlaylist,
+    removeSongsFromPlaylist,
+  };
+};
@@ -0,0 +1,139 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Song } from "../types";
+import { getPlayedThreshold } from "../services/history";
+import {
+  DEFAULT_SCROBBLE_SETTINGS,
+  ScrobbleSettings,
+  countPendingScrobbles,
+  flushScrobbles,
+  isScrobblingConfigured,
+  loadScrobbleSettings,
+  saveScrobbleSettings,
+  scrobble,
+  sendNowPlaying,
+} from "../services/scrobbler";
+
+// Songs shorter than this are never scrobbled (Last.fm's rule)
+const MIN_SCROBBLE_DURATION = 30;
+const CHECK_INTERVAL_MS = 1000;
+const RETRY_INTERVAL_MS = 5 * 60 * 1000;
+
+interface TrackedListen {
+  songId: string;
+  startedAt: number;
+  listened: number;
+  resumedAt: number | null;
+  announced: boolean;
+  submitted: boolean;
+}
+
+// Sends "now playing" when a song starts and scrobbles it once enough of it
+// has been heard (same threshold as the listening history)
+export const useScrobbler = (
+  currentSong: Song | null,
+  isPlaying: boolean,
+  settings: ScrobbleSettings,
+) => {
+  const listenRef = useRef<TrackedListen | null>(null);
+  const songRef = useRef(currentSong);
+  songRef.current = currentSong;
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+
+  useEffect(() => {
+    listenRef.current = currentSong
+      ? {
+          songId: currentSong.id,
+          startedAt: Date.now(),
+          listened: 0,
+          resumedAt: null,
+          announced: false,
+          submitted: false,
+        }
+      : null;
+  }, [currentSong?.id]);
+
+  useEffect(() => {
+    const listen = listenRef.current;
+    if (!isPlaying || !listen) return;
+
+    if (!listen.announced && isScrobblingConfigured(settingsRef.current)) {
+      listen.announced = true;
+      if (songRef.current) sendNowPlaying(settingsRef.current, songRef.current);
+    }
+
+    listen.resumedAt = Date.now();
+    const check = () => {
+      const song = songRef.current;
+      if (listen.submitted || !song || song.id !== listen.songId) return;
+      if (!settingsRef.current.enabled) return;
+      if (song.duration && song.duration < MIN_SCROBBLE_DURATION) return;
+      const heard =
+        listen.listened +
+        (listen.resumedAt !== null ? (Date.now() - listen.resumedAt) / 1000 : 0);
+      if (heard < getPlayedThreshold(song.duration)) return;
+      listen.submitted = true;
+      scrobble(settingsRef.current, song, listen.startedAt);
+    };
+    const interval = setInterval(check, CHECK_INTERVAL_MS);
+    return () => {
+      clearInterval(interval);
+      if (listen.resumedAt !== null) {
+        listen.listened += (Date.now() - listen.resumedAt) / 1000;
+        listen.resumedAt = null;
+      }
+    };
+  }, [isPlaying, currentSong?.id]);
+};
+
+// Scrobbler settings plus the offline queue's retry loop
+export const useScrobbleSettings = () => {
+  const [settings, setSettings] = useState<ScrobbleSettings>(
+    DEFAULT_SCROBBLE_SETTINGS,
+  );
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [pendingCount, setPendingCount] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadScrobbleSettings().then((saved) => {
+      if (cancelled) return;
+      setSettings(saved);
+      setIsLoaded(true);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const flush = useCallback(async () => {
+    setPendingCount(await flushScrobbles(settings));
+  }, [settings]);
+
+  // Retry on start, when the connection comes back, and periodically
+  useEffect(() => {
+    if (!isLoaded) return;
+    flush();
+    const interval = setInterval(flush, RETRY_INTERVAL_MS);
+    window.addEventListener("online", flush);
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener("online", flush);
+    };
+  }, [isLoaded, flush]);
+
+  useEffect(() => {
+    if (!isLoaded) return;
+    saveScrobbleSettings(settings);
+  }, [settings, isLoaded]);
+
+  const updateSettings = useCallback((patch: Partial<ScrobbleSettings>) => {
+    setSettings((prev) => ({ ...prev, ...patch }));
+  }, []);
+
+  const refreshPendingCount = useCallback(async () => {
+    setPendingCount(await countPendingScrobbles());
+  }, []);
+
+  return { settings, updateSettings, pendingCount, flush, refreshPendingCount };
+};
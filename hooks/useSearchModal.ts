@@ -1,14 +1,20 @@
 import { useState, useEffect, useCallback, useRef } from "react";
 import { Song } from "../types";
-import { NeteaseTrackInfo } from "../services/lyricsService";
 import { useQueueSearchProvider } from "./useQueueSearchProvider";
-import {
-  useNeteaseSearchProvider,
-  NeteaseSearchProviderExtended,
-} from "./useNeteaseSearchProvider";
+import { useMusicSearchProviders } from "./useMusicSearchProviders";
+import { SearchProvider, SearchResultItem } from "./useSearchProvider";
+import { getProviders } from "../services/providers";
 
-export type SearchSource = "queue" | "netease";
-export type SearchResultItem = Song | NeteaseTrackInfo;
+// "queue" or the id of a registered music provider
+export type SearchSource = string;
+
+const MUSIC_PROVIDERS = getProviders();
+
+// Tab order; the Tab key cycles through them
+const SEARCH_SOURCES: SearchSource[] = [
+  "queue",
+  ...MUSIC_PROVIDERS.map((provider) => provider.id),
+];
 
 interface ContextMenuState {
   visible: boolean;
@@ -23,6 +29,7 @@ interface UseSearchModalParams {
   currentSong: Song | null;
   isPlaying: boolean;
   isOpen: boolean;
+  isLiked: (song: Song) => boolean;
 }
 
 export const useSearchModal = ({
@@ -30,10 +37,12 @@ export const useSearchModal = ({
   currentSong,
   isPlaying,
   isOpen,
+  isLiked,
 }: UseSearchModalParams) => {
   // Search query state
   const [query, setQuery] = useState("");
   const [activeTab, setActiveTab] = useState<SearchSource>("queue");
+  const [likedOnly, setLikedOnly] = useState(false);
 
   // Navigation State
   const [selectedIndex, setSelectedIndex] = useState(-1);
@@ -43,16 +52,19 @@ export const useSearchModal = ({
   const [contextMenu, setContextMenu] = useState<ContextMenuState | null>(null);
 
   // Search Providers
-  const queueProvider = useQueueSearchProvider({ queue });
-  const neteaseProvider = useNeteaseSearchProvider();
+  const queueProvider = useQueueSearchProvider({ queue, isLiked, likedOnly });
+  const onlineProviders = useMusicSearchProviders(MUSIC_PROVIDERS);
+  const onlineProvider =
+    onlineProviders.find((provider) => provider.id === activeTab) ?? null;
+  const tabs: SearchProvider[] = [queueProvider, ...onlineProviders];
 
   // Queue search results (real-time)
   const [queueResults, setQueueResults] = useState<{ s: Song; i: number }[]>(
     [],
   );
 
-  // Offset for Netease pagination
-  const [neteaseOffset, setNeteaseOffset] = useState(0);
+  // Pagination offset of each online source
+  const [offsets, setOffsets] = useState<Record<string, number>>({});
   const LIMIT = 30;
 
   // Update queue results in real-time
@@ -66,12 +78,12 @@ export const useSearchModal = ({
         setQueueResults(mappedResults);
       });
     }
-  }, [query, activeTab, queue]);
+  }, [query, activeTab, queue, queueProvider]);
 
   // Reset selected index when switching tabs or query changes
   useEffect(() => {
     setSelectedIndex(-1);
-  }, [activeTab, query]);
+  }, [activeTab, query, likedOnly]);
 
   // Reset context menu when modal closes
   useEffect(() => {
@@ -82,29 +94,30 @@ export const useSearchModal = ({
 
   // --- Search Actions ---
 
-  const performNeteaseSearch = useCallback(async () => {
-    if (!query.trim()) return;
-    setNeteaseOffset(0);
+  const performOnlineSearch = useCallback(async () => {
+    if (!onlineProvider || !query.trim()) return;
+    setOffsets((prev) => ({ ...prev, [activeTab]: 0 }));
     setSelectedIndex(-1);
-    await neteaseProvider.performSearch(query);
-  }, [query, neteaseProvider]);
+    await onlineProvider.performSearch(query);
+  }, [query, activeTab, onlineProvider]);
 
-  const loadMoreNetease = useCallback(async () => {
-    if (neteaseProvider.isLoading || !neteaseProvider.hasMore) return;
-    const nextOffset = neteaseOffset + LIMIT;
-    await neteaseProvider.loadMore(query, nextOffset, LIMIT);
-    setNeteaseOffset(nextOffset);
-  }, [neteaseProvider, neteaseOffset, query]);
+  const loadMoreOnline = useCallback(async () => {
+    if (!onlineProvider?.loadMore) return;
+    if (onlineProvider.isLoading || !onlineProvider.hasMore) return;
+    const nextOffset = (offsets[activeTab] ?? 0) + LIMIT;
+    await onlineProvider.loadMore(query, nextOffset, LIMIT);
+    setOffsets((prev) => ({ ...prev, [activeTab]: nextOffset }));
+  }, [onlineProvider, activeTab, offsets, query]);
 
   const handleScroll = useCallback(
     (e: React.UIEvent<HTMLDivElement>) => {
-      if (activeTab !== "netease") return;
+      if (!onlineProvider) return;
       const { scrollTop, clientHeight, scrollHeight } = e.currentTarget;
       if (scrollHeight - scrollTop - clientHeight < 100) {
-        loadMoreNetease();
+        loadMoreOnline();
       }
     },
-    [activeTab, loadMoreNetease],
+    [onlineProvider, loadMoreOnline],
   );
 
   // --- Navigation ---
@@ -117,20 +130,18 @@ export const useSearchModal = ({
   }, []);
 
   const navigateDown = useCallback(() => {
-    const listLength =
-      activeTab === "queue"
-        ? queueResults.length
-        : neteaseProvider.results.length;
+    const listLength = onlineProvider
+      ? onlineProvider.results.length
+      : queueResults.length;
     if (listLength === 0) return;
 
     const next = Math.min(selectedIndex + 1, listLength - 1);
     setSelectedIndex(next);
     scrollToItem(next);
   }, [
-    activeTab,
+    onlineProvider,
     selectedIndex,
     queueResults.length,
-    neteaseProvider.results.length,
     scrollToItem,
   ]);
 
@@ -141,7 +152,10 @@ export const useSearchModal = ({
   }, [selectedIndex, scrollToItem]);
 
   const switchTab = useCallback(() => {
-    setActiveTab((prev) => (prev === "queue" ? "netease" : "queue"));
+    setActiveTab(
+      (prev) =>
+        SEARCH_SOURCES[(SEARCH_SOURCES.indexOf(prev) + 1) % SEARCH_SOURCES.length],
+    );
     setSelectedIndex(-1);
   }, []);
 
@@ -178,6 +192,12 @@ export const useSearchModal = ({
       if ("isNetease" in item && item.isNetease && currentSong.isNetease) {
         return item.neteaseId === currentSong.neteaseId;
       }
+      if (item.platform && currentSong.platform) {
+        return (
+          item.platform === currentSong.platform &&
+          item.platformId === currentSong.platformId
+        );
+      }
       return (
         item.title === currentSong.title && item.artist === currentSong.artist
       );
@@ -186,26 +206,22 @@ export const useSearchModal = ({
   );
 
   // Determine what to show in results area
-  const showNeteasePrompt =
-    activeTab === "netease" &&
-    !neteaseProvider.hasSearched &&
-    query.trim().length > 0;
-
-  const showNeteaseEmpty =
-    activeTab === "netease" &&
-    neteaseProvider.hasSearched &&
-    neteaseProvider.results.length === 0 &&
-    !neteaseProvider.isLoading;
-
-  const showNeteaseLoading =
-    activeTab === "netease" &&
-    neteaseProvider.isLoading &&
-    neteaseProvider.results.length === 0;
-
-  const showNeteaseInitial =
-    activeTab === "netease" &&
-    !neteaseProvider.hasSearched &&
-    query.trim().length === 0;
+  const showOnlinePrompt =
+    !!onlineProvider && !onlineProvider.hasSearched && query.trim().length > 0;
+
+  const showOnlineEmpty =
+    !!onlineProvider &&
+    onlineProvider.hasSearched &&
+    onlineProvider.results.length === 0 &&
+    !onlineProvider.isLoading;
+
+  const showOnlineLoading =
+    !!onlineProvider &&
+    !!onlineProvider.isLoading &&
+    onlineProvider.results.length === 0;
+
+  const showOnlineInitial =
+    !!onlineProvider && !onlineProvider.hasSearched && query.trim().length === 0;
 
   return {
     // State
@@ -213,12 +229,15 @@ export const useSearchModal = ({
     setQuery,
     activeTab,
     setActiveTab,
+    likedOnly,
+    setLikedOnly,
     selectedIndex,
     contextMenu,
 
     // Providers
     queueProvider,
-    neteaseProvider,
+    onlineProvider,
+    tabs,
 
     // Results
     queueResults,
@@ -227,8 +246,8 @@ export const useSearchModal = ({
     itemRefs,
 
     // Actions
-    performNeteaseSearch,
-    loadMoreNetease,
+    performOnlineSearch,
+    loadMoreOnline,
     handleScroll,
 
     // Navigation
@@ -245,10 +264,10 @@ export const useSearchModal = ({
     isNowPlaying,
 
     // Display flags
-    showNeteasePrompt,
-    showNeteaseEmpty,
-    showNeteaseInitial,
-    showNeteaseLoading,
+    showOnlinePrompt,
+    showOnlineEmpty,
+    showOnlineInitial,
+    showOnlineLoading,
 
     // Constants
     LIMIT,
@@ -1,7 +1,7 @@
 import { Song } from "../types";
-import { NeteaseTrackInfo } from "../services/lyricsService";
+import { TrackInfo } from "../services/lyricsService";
 
-export type SearchResultItem = Song | NeteaseTrackInfo;
+export type SearchResultItem = Song | TrackInfo;
 
 export interface SearchProvider {
   // Unique identifier for this provider
@@ -20,6 +20,13 @@ export interface SearchProvider {
   isLoading?: boolean;
 }
 
+// Providers backed by a remote search, run when the user presses Enter
+export interface OnlineSearchProvider extends SearchProvider {
+  performSearch: (query: string) => Promise<void>;
+  hasSearched: boolean;
+  results: TrackInfo[];
+}
+
 export interface UseSearchProviderResult {
   providers: SearchProvider[];
   activeProvider: SearchProvider;
@@ -2,6 +2,11 @@ import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
 import { ToastProvider } from './components/Toast';
+import { registerServiceWorker } from './services/offline';
+import { loadEndpointConfig } from './services/config';
+
+// Endpoint settings are needed by the first requests; start reading them now
+loadEndpointConfig();
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -16,3 +21,5 @@ root.render(
     </ToastProvider>
   </React.StrictMode>,
 );
+
+registerServiceWorker();
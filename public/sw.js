@@ -0,0 +1,87 @@
+// Serves the app shell so Kael Music starts without a network. Vite
+// fingerprints built assets, so they're cached as the page requests them
+// rather than from a fixed list; the page's own files are fetched fresh
+// while online. Audio, covers and lyrics are cached by the app itself.
+
+const SHELL_CACHE = "kael-music-shell-v1";
+// Scripts index.html loads from CDNs; their URLs are versioned
+const CDN_HOSTS = ["cdn.tailwindcss.com", "cdnjs.cloudflare.com"];
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches
+      .open(SHELL_CACHE)
+      .then((cache) => cache.add("./"))
+      .catch(() => {
+        // Cached on the next navigation instead
+      })
+      .then(() => self.skipWaiting()),
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((names) =>
+        Promise.all(
+          names
+            .filter(
+              (name) =>
+                name.startsWith("kael-music-shell-") && name !== SHELL_CACHE,
+            )
+            .map((name) => caches.delete(name)),
+        ),
+      )
+      .then(() => self.clients.claim()),
+  );
+});
+
+const store = async (request, response) => {
+  // Partial and failed responses can't be replayed
+  if (response.status !== 200 && response.type !== "opaque") return;
+  const cache = await caches.open(SHELL_CACHE);
+  await cache.put(request, response);
+};
+
+const networkFirst = async (request, fallbackUrl) => {
+  try {
+    const response = await fetch(request);
+    store(request, response.clone()).catch(() => {});
+    return response;
+  } catch (error) {
+    const cached =
+      (await caches.match(request)) ??
+      (fallbackUrl ? await caches.match(fallbackUrl) : undefined);
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+const cacheFirst = async (request) => {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  store(request, response.clone()).catch(() => {});
+  return response;
+};
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET" || request.headers.has("range")) return;
+  const url = new URL(request.url);
+
+  if (request.mode === "navigate") {
+    // Any page of the app falls back to the shell
+    const shell = new URL("./", self.registration.scope).href;
+    event.respondWith(networkFirst(request, shell));
+    return;
+  }
+  if (url.origin === self.location.origin) {
+    event.respondWith(networkFirst(request));
+    return;
+  }
+  if (CDN_HOSTS.includes(url.hostname)) {
+    event.respondWith(cacheFirst(request));
+  }
+});
@@ -0,0 +1,119 @@
+// Minimal ListenBrainz-compatible server for trying out scrobbling locally.
+//
+//   npm run mock:scrobbler
+//
+// Then set the server to http://localhost:8765 and the token to "test-token"
+// in Settings. Environment variables:
+//   MOCK_PORT       port to listen on (default 8765)
+//   MOCK_TOKEN      accepted user token (default "test-token")
+//   MOCK_FAIL_RATE  share of submissions answered with 503, 0..1 (default 0),
+//                   to exercise the offline retry queue
+//
+// GET /listens returns everything received so far.
+
+import { createServer } from "node:http";
+
+const PORT = Number(process.env.MOCK_PORT) || 8765;
+const TOKEN = process.env.MOCK_TOKEN || "test-token";
+const FAIL_RATE = Number(process.env.MOCK_FAIL_RATE) || 0;
+const USER_NAME = "mock-user";
+
+const listens = [];
+let nowPlaying = null;
+
+const send = (res, status, body) => {
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Headers": "Authorization, Content-Type",
+    "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+  });
+  res.end(JSON.stringify(body));
+};
+
+const isAuthorized = (req) =>
+  req.headers.authorization === `Token ${TOKEN}`;
+
+const readBody = (req) =>
+  new Promise((resolve, reject) => {
+    let data = "";
+    req.on("data", (chunk) => {
+      data += chunk;
+    });
+    req.on("end", () => resolve(data));
+    req.on("error", reject);
+  });
+
+const describe = (listen) => {
+  const meta = listen.track_metadata ?? {};
+  return `${meta.artist_name ?? "?"} - ${meta.track_name ?? "?"}`;
+};
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url ?? "/", `http://localhost:${PORT}`);
+
+  if (req.method === "OPTIONS") {
+    send(res, 204, {});
+    return;
+  }
+
+  if (req.method === "GET" && url.pathname === "/1/validate-token") {
+    const valid = isAuthorized(req);
+    send(res, 200, {
+      code: 200,
+      valid,
+      message: valid ? "Token valid." : "Token invalid.",
+      user_name: valid ? USER_NAME : undefined,
+    });
+    return;
+  }
+
+  if (req.method === "GET" && url.pathname === "/listens") {
+    send(res, 200, { now_playing: nowPlaying, listens });
+    return;
+  }
+
+  if (req.method === "POST" && url.pathname === "/1/submit-listens") {
+    if (!isAuthorized(req)) {
+      send(res, 401, { code: 401, error: "Invalid authorization token." });
+      return;
+    }
+    if (Math.random() < FAIL_RATE) {
+      console.log("[mock] simulated outage, answering 503");
+      send(res, 503, { code: 503, error: "Simulated outage." });
+      return;
+    }
+
+    let body;
+    try {
+      body = JSON.parse(await readBody(req));
+    } catch {
+      send(res, 400, { code: 400, error: "Invalid JSON." });
+      return;
+    }
+    const { listen_type: type, payload } = body ?? {};
+    if (!["playing_now", "single", "import"].includes(type) || !Array.isArray(payload)) {
+      send(res, 400, { code: 400, error: "Invalid listen_type or payload." });
+      return;
+    }
+
+    if (type === "playing_now") {
+      nowPlaying = payload[0] ?? null;
+      console.log(`[mock] now playing: ${describe(nowPlaying ?? {})}`);
+    } else {
+      payload.forEach((listen) => {
+        listens.push(listen);
+        const at = new Date((listen.listened_at ?? 0) * 1000).toISOString();
+        console.log(`[mock] ${type}: ${describe(listen)} (${at})`);
+      });
+    }
+    send(res, 200, { status: "ok" });
+    return;
+  }
+
+  send(res, 404, { code: 404, error: "Not found." });
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock ListenBrainz server on http://localhost:${PORT} (token "${TOKEN}")`);
+});
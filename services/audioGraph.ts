@@ -0,0 +1,319 @@
+import pitchShiftProcessorUrl from "../components/visualizer/PitchShiftProcessor.ts?worker&url";
+import { DEFAULT_EFFECTS, EffectsSettings } from "./effects";
+
+const MAX_PITCH_SEMITONES = 12;
+
+export const clampPitch = (semitones: number) =>
+  Math.max(-MAX_PITCH_SEMITONES, Math.min(MAX_PITCH_SEMITONES, semitones));
+
+const dbToGain = (db: number) => Math.pow(10, db / 20);
+
+// Parameters are eased rather than set so live edits don't click
+const PARAM_SMOOTHING = 0.015;
+
+// Owns the single AudioContext and the processing chain every <audio> element
+// is routed through:
+//
+//   element source -> normalizer -> fader --\
+//   element source -> normalizer -> fader ---> input -> pitch shifter -> preamp -> EQ bands --\
+//                                                                                |
+//        /-------------------------- dry <--------------------------------------+
+//        |                                                                      |
+//        +-- wet <- reverb (convolver, only connected while enabled) <----------/
+//        |
+//        \-> limiter -> output -> volume -> destination
+//                         \-> taps (visualizer)
+//
+// Each element gets its own fader so the player can crossfade between them,
+// and its own normalizer carrying the loudness gain of the song it holds.
+// MediaElementAudioSourceNode can only be created once per element, so all
+// consumers must go through attach() instead of building their own graph.
+class AudioGraph {
+  private context: AudioContext | null = null;
+  private sources = new WeakMap<
+    HTMLAudioElement,
+    { source: MediaElementAudioSourceNode; normalizer: GainNode; fader: GainNode }
+  >();
+  // Normalization requested before the element was attached
+  private pendingNormalization = new WeakMap<HTMLAudioElement, number>();
+  private input: GainNode | null = null;
+  private output: GainNode | null = null;
+  private volume: GainNode | null = null;
+  private volumeLevel = 1;
+  private pitchNode: AudioWorkletNode | null = null;
+  private pitchNodePromise: Promise<void> | null = null;
+  private pitchSemitones = 0;
+  private preamp: GainNode | null = null;
+  private filters: BiquadFilterNode[] = [];
+  private dry: GainNode | null = null;
+  private wet: GainNode | null = null;
+  private convolver: ConvolverNode | null = null;
+  private convolverConnected = false;
+  private impulseDecay = 0;
+  private limiter: DynamicsCompressorNode | null = null;
+  private effects: EffectsSettings = DEFAULT_EFFECTS;
+
+  getContext(): AudioContext {
+    if (!this.context) {
+      const ContextCtor =
+        window.AudioContext || (window as any).webkitAudioContext;
+      const ctx: AudioContext = new ContextCtor();
+      this.input = ctx.createGain();
+      this.output = ctx.createGain();
+      this.volume = ctx.createGain();
+      this.volume.gain.value = this.volumeLevel;
+      this.buildEffectsChain(ctx);
+      this.input.connect(this.preamp!);
+      this.output.connect(this.volume);
+      this.volume.connect(ctx.destination);
+      this.context = ctx;
+      this.applyEffects();
+      if (this.pitchSemitones !== 0) {
+        this.ensurePitchNode();
+      }
+    }
+    return this.context;
+  }
+
+  // Route an element through the graph. Safe to call repeatedly.
+  attach(element: HTMLAudioElement): AudioContext {
+    const ctx = this.getContext();
+    if (!this.sources.has(element)) {
+      const source = ctx.createMediaElementSource(element);
+      const normalizer = ctx.createGain();
+      const fader = ctx.createGain();
+      normalizer.gain.value = dbToGain(this.pendingNormalization.get(element) ?? 0);
+      source.connect(normalizer);
+      normalizer.connect(fader);
+      fader.connect(this.input!);
+      this.sources.set(element, { source, normalizer, fader });
+    }
+    return ctx;
+  }
+
+  isAttached(element: HTMLAudioElement) {
+    return this.sources.has(element);
+  }
+
+  // Loudness correction for the song an element is playing, in dB
+  setElementNormalization(element: HTMLAudioElement, db: number) {
+    this.pendingNormalization.set(element, db);
+    const entry = this.sources.get(element);
+    if (!entry || !this.context) return;
+    entry.normalizer.gain.setTargetAtTime(
+      dbToGain(db),
+      this.context.currentTime,
+      PARAM_SMOOTHING,
+    );
+  }
+
+  // Jump an element's fader to a level, cancelling any fade in progress
+  setElementGain(element: HTMLAudioElement, value: number) {
+    const entry = this.sources.get(element);
+    if (!entry || !this.context) return;
+    const gain = entry.fader.gain;
+    gain.cancelScheduledValues(this.context.currentTime);
+    gain.setValueAtTime(value, this.context.currentTime);
+  }
+
+  // Equal-power fade (sin/cos quarter wave) so the summed loudness stays
+  // constant while two elements overlap. Returns false when the element is not
+  // routed through the graph and cannot be faded.
+  fadeElement(
+    element: HTMLAudioElement,
+    direction: "in" | "out",
+    seconds: number,
+  ): boolean {
+    const entry = this.sources.get(element);
+    if (!entry || !this.context || seconds <= 0) return false;
+
+    const steps = Math.max(2, Math.round(seconds * 50));
+    const curve = new Float32Array(steps);
+    for (let i = 0; i < steps; i++) {
+      const x = (i / (steps - 1)) * (Math.PI / 2);
+      curve[i] = direction === "in" ? Math.sin(x) : Math.cos(x);
+    }
+
+    const gain = entry.fader.gain;
+    const now = this.context.currentTime;
+    gain.cancelScheduledValues(now);
+    gain.setValueCurveAtTime(curve, now, seconds);
+    return true;
+  }
+
+  async resume() {
+    if (this.context && this.context.state === "suspended") {
+      try {
+        await this.context.resume();
+      } catch {
+        // Needs a user gesture; the next play() will retry
+      }
+    }
+  }
+
+  // Listening volume as a linear gain. It sits after the analysis taps so the
+  // visualizer keeps reacting at low volume.
+  setVolume(gain: number) {
+    this.volumeLevel = gain;
+    if (!this.context || !this.volume) return;
+    this.volume.gain.setTargetAtTime(gain, this.context.currentTime, PARAM_SMOOTHING);
+  }
+
+  // Ramp the overall level, e.g. for the sleep timer's fade-out
+  fadeOutput(value: number, seconds: number) {
+    if (!this.context || !this.output) return;
+    const gain = this.output.gain;
+    const now = this.context.currentTime;
+    gain.cancelScheduledValues(now);
+    gain.setValueAtTime(gain.value, now);
+    gain.linearRampToValueAtTime(value, now + Math.max(seconds, 0.01));
+  }
+
+  // Final node of the chain, for analysis taps such as the visualizer
+  getOutput(): AudioNode {
+    this.getContext();
+    return this.output!;
+  }
+
+  setPitch(semitones: number) {
+    this.pitchSemitones = clampPitch(semitones);
+    if (!this.context) return;
+    if (this.pitchNode) {
+      this.applyPitch();
+    } else if (this.pitchSemitones !== 0) {
+      this.ensurePitchNode();
+    }
+  }
+
+  setEffects(settings: EffectsSettings) {
+    this.effects = settings;
+    this.applyEffects();
+  }
+
+  private buildEffectsChain(ctx: AudioContext) {
+    this.preamp = ctx.createGain();
+    this.filters = this.effects.bands.map(() => ctx.createBiquadFilter());
+    this.dry = ctx.createGain();
+    this.wet = ctx.createGain();
+    this.convolver = ctx.createConvolver();
+    this.limiter = ctx.createDynamicsCompressor();
+
+    let previous: AudioNode = this.preamp;
+    this.filters.forEach((filter) => {
+      previous.connect(filter);
+      previous = filter;
+    });
+    previous.connect(this.dry);
+    this.convolver.connect(this.wet);
+    this.dry.connect(this.limiter);
+    this.wet.connect(this.limiter);
+    this.limiter.connect(this.output!);
+  }
+
+  private applyEffects() {
+    const ctx = this.context;
+    if (!ctx || !this.preamp || !this.limiter) return;
+    const now = ctx.currentTime;
+    const { eqEnabled, preamp, bands, limiterEnabled, reverb } = this.effects;
+
+    // A disabled EQ keeps its filters in place at 0 dB, which is transparent
+    this.preamp.gain.setTargetAtTime(
+      eqEnabled ? dbToGain(preamp) : 1,
+      now,
+      PARAM_SMOOTHING,
+    );
+    this.filters.forEach((filter, i) => {
+      const band = bands[i];
+      if (!band) return;
+      filter.type = band.type;
+      filter.frequency.setTargetAtTime(band.frequency, now, PARAM_SMOOTHING);
+      filter.Q.setTargetAtTime(band.q, now, PARAM_SMOOTHING);
+      filter.gain.setTargetAtTime(eqEnabled ? band.gain : 0, now, PARAM_SMOOTHING);
+    });
+
+    // Brickwall-style settings; ratio 1 turns the compressor into a pass-through
+    this.limiter.threshold.setValueAtTime(limiterEnabled ? -1 : 0, now);
+    this.limiter.knee.setValueAtTime(0, now);
+    this.limiter.ratio.setValueAtTime(limiterEnabled ? 20 : 1, now);
+    this.limiter.attack.setValueAtTime(0.003, now);
+    this.limiter.release.setValueAtTime(0.1, now);
+
+    this.applyReverb(reverb.enabled, reverb.mix, reverb.decay);
+  }
+
+  // The convolver is only fed while reverb is on, since it is the most
+  // expensive node in the chain
+  private applyReverb(enabled: boolean, mix: number, decay: number) {
+    const ctx = this.context!;
+    const lastFilter = this.filters[this.filters.length - 1] ?? this.preamp!;
+    const now = ctx.currentTime;
+
+    if (enabled) {
+      if (!this.convolver!.buffer || this.impulseDecay !== decay) {
+        this.convolver!.buffer = this.createImpulse(ctx, decay);
+        this.impulseDecay = decay;
+      }
+      if (!this.convolverConnected) {
+        lastFilter.connect(this.convolver!);
+        this.convolverConnected = true;
+      }
+      this.wet!.gain.setTargetAtTime(mix, now, PARAM_SMOOTHING);
+      this.dry!.gain.setTargetAtTime(1 - mix / 2, now, PARAM_SMOOTHING);
+    } else {
+      this.wet!.gain.setTargetAtTime(0, now, PARAM_SMOOTHING);
+      this.dry!.gain.setTargetAtTime(1, now, PARAM_SMOOTHING);
+      if (this.convolverConnected) {
+        lastFilter.disconnect(this.convolver!);
+        this.convolverConnected = false;
+      }
+    }
+  }
+
+  // Synthetic room: stereo noise decaying by 60 dB over `decay` seconds
+  private createImpulse(ctx: AudioContext, decay: number): AudioBuffer {
+    const length = Math.max(1, Math.round(ctx.sampleRate * decay));
+    const impulse = ctx.createBuffer(2, length, ctx.sampleRate);
+    for (let ch = 0; ch < impulse.numberOfChannels; ch++) {
+      const data = impulse.getChannelData(ch);
+      for (let i = 0; i < length; i++) {
+        const t = i / ctx.sampleRate;
+        data[i] = (Math.random() * 2 - 1) * Math.pow(10, (-3 * t) / decay);
+      }
+    }
+    return impulse;
+  }
+
+  private applyPitch() {
+    if (!this.context || !this.pitchNode) return;
+    const ratio = Math.pow(2, this.pitchSemitones / 12);
+    const param = this.pitchNode.parameters.get("pitchRatio");
+    param?.setTargetAtTime(ratio, this.context.currentTime, 0.02);
+  }
+
+  // The shifter is loaded lazily and spliced in between input and preamp
+  private ensurePitchNode(): Promise<void> {
+    if (this.pitchNodePromise) return this.pitchNodePromise;
+    const ctx = this.context!;
+
+    this.pitchNodePromise = ctx.audioWorklet
+      .addModule(pitchShiftProcessorUrl)
+      .then(() => {
+        const node = new AudioWorkletNode(ctx, "pitch-shift-processor", {
+          outputChannelCount: [2],
+        });
+        this.input!.disconnect();
+        this.input!.connect(node);
+        node.connect(this.preamp!);
+        this.pitchNode = node;
+        this.applyPitch();
+      })
+      .catch(() => {
+        // AudioWorklet unsupported - playback continues unshifted
+        this.pitchNodePromise = null;
+      });
+
+    return this.pitchNodePromise;
+  }
+}
+
+export const audioGraph = new AudioGraph();
@@ -0,0 +1,186 @@
+import { Song } from "../types";
+import { LibraryEntry } from "./library";
+import { getSongKey } from "./utils";
+
+// Album and artist groupings over everything the app knows about: the queue
+// and the local library. A track is either a queued song or a library entry
+// (whose bytes have to be loaded before it can play).
+
+export interface BrowseTrack {
+  key: string; // getSongKey()
+  title: string;
+  artist: string;
+  album?: string;
+  duration?: number;
+  coverUrl?: string;
+  song?: Song;
+  libraryEntry?: LibraryEntry;
+}
+
+export interface BrowseGroup {
+  id: string;
+  name: string;
+  subtitle: string;
+  coverUrl?: string;
+  tracks: BrowseTrack[];
+  // Set when the whole album / artist can be fetched from Netease
+  neteaseId?: string;
+}
+
+export type BrowseKind = "albums" | "artists";
+
+export const UNKNOWN_ARTIST = "Unknown Artist";
+
+// Credits are joined with "/" by Netease and often by taggers too
+export const splitArtists = (artist: string) =>
+  artist
+    .split(/\s*[/、;]\s*/)
+    .map((name) => name.trim())
+    .filter(Boolean);
+
+const normalize = (value: string) => value.trim().toLowerCase();
+
+export const collectBrowseTracks = (
+  queue: Song[],
+  library: LibraryEntry[],
+  covers: Map<string, string>,
+): BrowseTrack[] => {
+  const tracks = new Map<string, BrowseTrack>();
+  queue.forEach((song) => {
+    const key = getSongKey(song);
+    if (tracks.has(key)) return;
+    tracks.set(key, {
+      key,
+      title: song.title,
+      artist: song.artist,
+      album: song.album,
+      duration: song.duration,
+      coverUrl: song.coverUrl,
+      song,
+    });
+  });
+  library.forEach((entry) => {
+    const queued = tracks.get(entry.key);
+    if (queued) {
+      // Prefer the queued copy, which is ready to play
+      queued.libraryEntry = entry;
+      return;
+    }
+    tracks.set(entry.key, {
+      key: entry.key,
+      title: entry.title,
+      artist: entry.artist,
+      album: entry.album,
+      duration: entry.duration,
+      coverUrl: entry.coverHash ? covers.get(entry.coverHash) : undefined,
+      libraryEntry: entry,
+    });
+  });
+  return Array.from(tracks.values());
+};
+
+const mostCommon = (values: string[]) => {
+  const counts = new Map<string, number>();
+  values.forEach((value) => counts.set(value, (counts.get(value) ?? 0) + 1));
+  let best = values[0];
+  counts.forEach((count, value) => {
+    if (count > (counts.get(best) ?? 0)) best = value;
+  });
+  return best;
+};
+
+const formatTrackCount = (count: number) =>
+  `${count} ${count === 1 ? "song" : "songs"}`;
+
+const byName = (a: BrowseGroup, b: BrowseGroup) =>
+  a.name.localeCompare(b.name, undefined, { sensitivity: "base" });
+
+// Tracks without an album tag are left out
+export const groupByAlbum = (tracks: BrowseTrack[]): BrowseGroup[] => {
+  const groups = new Map<string, BrowseTrack[]>();
+  tracks.forEach((track) => {
+    if (!track.album?.trim()) return;
+    const id = `album:${normalize(track.album)}`;
+    const group = groups.get(id);
+    if (group) group.push(track);
+    else groups.set(id, [track]);
+  });
+
+  return Array.from(groups.entries())
+    .map(([id, groupTracks]) => {
+      const artists = new Set(groupTracks.map((track) => track.artist));
+      const albumIds = groupTracks
+        .map((track) => track.song?.albumId)
+        .filter((albumId): albumId is string => !!albumId);
+      return {
+        id,
+        name: groupTracks[0].album!.trim(),
+        subtitle: `${artists.size === 1 ? groupTracks[0].artist : "Various Artists"} · ${formatTrackCount(groupTracks.length)}`,
+        coverUrl: groupTracks.find((track) => track.coverUrl)?.coverUrl,
+        tracks: groupTracks,
+        neteaseId: albumIds.length > 0 ? mostCommon(albumIds) : undefined,
+      };
+    })
+    .sort(byName);
+};
+
+// A track credited to several artists appears under each of them
+export const groupByArtist = (tracks: BrowseTrack[]): BrowseGroup[] => {
+  const groups = new Map<string, { name: string; tracks: BrowseTrack[] }>();
+  tracks.forEach((track) => {
+    const names = splitArtists(track.artist);
+    (names.length > 0 ? names : [UNKNOWN_ARTIST]).forEach((name) => {
+      const id = `artist:${normalize(name)}`;
+      const group = groups.get(id);
+      if (group) group.tracks.push(track);
+      else groups.set(id, { name, tracks: [track] });
+    });
+  });
+
+  return Array.from(groups.entries())
+    .map(([id, group]) => {
+      // Only the first credited artist's id is known
+      const artistIds = group.tracks
+        .filter(
+          (track) =>
+            normalize(splitArtists(track.artist)[0] ?? "") ===
+            normalize(group.name),
+        )
+        .map((track) => track.song?.artistId)
+        .filter((artistId): artistId is string => !!artistId);
+      return {
+        id,
+        name: group.name,
+        subtitle: formatTrackCount(group.tracks.length),
+        coverUrl: group.tracks.find((track) => track.coverUrl)?.coverUrl,
+        tracks: group.tracks,
+        neteaseId: artistIds.length > 0 ? mostCommon(artistIds) : undefined,
+      };
+    })
+    .sort(byName);
+};
+
+// Tracks in the fetched (album or popularity) order, reusing known copies,
+// followed by known tracks Netease didn't list
+export const mergeRemoteTracks = (
+  tracks: BrowseTrack[],
+  remote: Song[],
+): BrowseTrack[] => {
+  const known = new Map(tracks.map((track) => [track.key, track]));
+  const merged = remote.map((song): BrowseTrack => {
+    const key = getSongKey(song);
+    return (
+      known.get(key) ?? {
+        key,
+        title: song.title,
+        artist: song.artist,
+        album: song.album,
+        duration: song.duration,
+        coverUrl: song.coverUrl,
+        song,
+      }
+    );
+  });
+  const listed = new Set(merged.map((track) => track.key));
+  return [...merged, ...tracks.filter((track) => !listed.has(track.key))];
+};
@@ -1,4 +1,8 @@
 import { fetchImageViaProxy } from './utils';
+import { STORES, idbDelete, idbGetAll, idbPut } from "./db";
+import { clearLyricsCache, getLyricsCacheSize } from "./lyricsCache";
+import { loadEndpointConfig, reportEndpointFailure } from "./config";
+import { getStreamSources } from "./lyricsService";
 
 const MOBILE_BREAKPOINT = 1024;
 
@@ -65,17 +69,300 @@ const createSizeLimitedLRU = (limitBytes: number) => {
   };
 };
 
+// --- Persistent caches ---
+//
+// Blobs are kept in Cache Storage so they survive reloads, with an index of
+// sizes and last use in IndexedDB so eviction stays least-recently-used
+// across sessions. An in-memory LRU in front serves synchronous lookups.
+// Pinned entries (offline downloads) are never evicted and don't count
+// towards the limit.
+
+interface CacheRecord {
+  cache: string;
+  key: string;
+  size: number;
+  usedAt: number;
+  pinned?: boolean;
+}
+
+// Last use is written back at most this often per entry
+const TOUCH_INTERVAL_MS = 60 * 1000;
+
+const isCacheStorageAvailable = () => typeof caches !== "undefined";
+
+// Cache Storage is keyed by request URL; keys are URLs or arbitrary strings
+const toRequestUrl = (key: string) => `/__cache/${encodeURIComponent(key)}`;
+
+const createPersistentLRU = (name: string, limitBytes: number) => {
+  const memory = createSizeLimitedLRU(limitBytes);
+  const cacheName = `kael-music-${name}`;
+  const recordId = (key: string) => `${name}:${key}`;
+  let index: Map<string, CacheRecord> | null = null;
+  let loading: Promise<Map<string, CacheRecord>> | null = null;
+
+  const getIndex = () => {
+    if (!loading) {
+      loading = idbGetAll<CacheRecord>(STORES.cacheIndex)
+        .then(
+          (records) =>
+            new Map(
+              records
+                .filter((record) => record.cache === name)
+                .map((record) => [record.key, record]),
+            ),
+        )
+        .catch(() => new Map<string, CacheRecord>())
+        .then((loaded) => {
+          index = loaded;
+          return loaded;
+        });
+    }
+    return loading;
+  };
+
+  const touch = (record: CacheRecord) => {
+    const now = Date.now();
+    if (now - record.usedAt < TOUCH_INTERVAL_MS) return;
+    record.usedAt = now;
+    idbPut(STORES.cacheIndex, recordId(record.key), record).catch(() => {
+      // Persistence is best-effort
+    });
+  };
+
+  const dropEntry = async (records: Map<string, CacheRecord>, key: string) => {
+    records.delete(key);
+    await Promise.all([
+      caches.open(cacheName).then((cache) => cache.delete(toRequestUrl(key))),
+      idbDelete(STORES.cacheIndex, recordId(key)),
+    ]);
+  };
+
+  // Pinned entries stay in storage. Waits for the index so a pin isn't
+  // missed while it is still loading.
+  const remove = async (key: string) => {
+    const records = await getIndex();
+    if (records.get(key)?.pinned) return;
+    await dropEntry(records, key);
+  };
+
+  const totalBytes = (records: Map<string, CacheRecord>, pinned: boolean) =>
+    Array.from(records.values())
+      .filter((record) => !!record.pinned === pinned)
+      .reduce((sum, record) => sum + record.size, 0);
+
+  const evictIfNeeded = async (records: Map<string, CacheRecord>) => {
+    let total = totalBytes(records, false);
+    const oldestFirst = Array.from(records.values())
+      .filter((record) => !record.pinned)
+      .sort((a, b) => a.usedAt - b.usedAt);
+    for (const record of oldestFirst) {
+      if (total <= limitBytes) break;
+      total -= record.size;
+      await remove(record.key);
+    }
+  };
+
+  const persist = async (key: string, blob: Blob, pinned = false) => {
+    if (!isCacheStorageAvailable()) return false;
+    try {
+      const records = await getIndex();
+      const cache = await caches.open(cacheName);
+      await cache.put(
+        toRequestUrl(key),
+        new Response(blob, {
+          headers: { "Content-Type": blob.type || "application/octet-stream" },
+        }),
+      );
+      const record: CacheRecord = {
+        cache: name,
+        key,
+        size: blob.size,
+        usedAt: Date.now(),
+        // Playback caching the same key again doesn't unpin it
+        pinned: pinned || records.get(key)?.pinned,
+      };
+      records.set(key, record);
+      await idbPut(STORES.cacheIndex, recordId(key), record);
+      await evictIfNeeded(records);
+      return true;
+    } catch {
+      // Quota exceeded or storage unavailable; the memory copy still serves
+      // this session
+      return false;
+    }
+  };
+
+  // In-memory only; load() also looks in storage
+  const get = (key: string): Blob | null => {
+    const blob = memory.get(key);
+    const record = blob ? index?.get(key) : undefined;
+    if (record) touch(record);
+    return blob;
+  };
+
+  return {
+    get,
+    async load(key: string): Promise<Blob | null> {
+      const hot = get(key);
+      if (hot) return hot;
+      if (!isCacheStorageAvailable()) return null;
+      try {
+        const records = await getIndex();
+        const record = records.get(key);
+        if (!record) return null;
+        const cache = await caches.open(cacheName);
+        const response = await cache.match(toRequestUrl(key));
+        if (!response) {
+          // Evicted by the browser, pinned or not
+          await dropEntry(records, key);
+          return null;
+        }
+        const blob = await response.blob();
+        memory.set(key, blob);
+        touch(record);
+        return blob;
+      } catch {
+        return null;
+      }
+    },
+    set(key: string, blob: Blob) {
+      const size = blob.size || 0;
+      if (size <= 0 || size > limitBytes) {
+        return;
+      }
+      memory.set(key, blob);
+      persist(key, blob);
+    },
+    // Store and pin, resolving once the blob is in storage
+    async pin(key: string, blob: Blob): Promise<boolean> {
+      memory.set(key, blob);
+      return persist(key, blob, true);
+    },
+    // Pin or release what's already stored; false when it isn't
+    async setPinned(key: string, pinned: boolean): Promise<boolean> {
+      if (!isCacheStorageAvailable()) return false;
+      try {
+        const records = await getIndex();
+        const record = records.get(key);
+        if (!record) return false;
+        record.pinned = pinned;
+        await idbPut(STORES.cacheIndex, recordId(key), record);
+        if (!pinned) await evictIfNeeded(records);
+        return true;
+      } catch {
+        return false;
+      }
+    },
+    // Drop the in-memory copy only; storage keeps it for later sessions
+    forget(key: string) {
+      memory.delete(key);
+    },
+    // Pinned entries stay in storage
+    delete(key: string) {
+      memory.delete(key);
+      if (!isCacheStorageAvailable()) return;
+      remove(key).catch(() => {
+        // Persistence is best-effort
+      });
+    },
+    // Everything but pinned entries
+    async clear() {
+      memory.clear();
+      if (!isCacheStorageAvailable()) return;
+      try {
+        const records = await getIndex();
+        const unpinned = Array.from(records.values()).filter(
+          (record) => !record.pinned,
+        );
+        await Promise.all(unpinned.map((record) => remove(record.key)));
+      } catch {
+        // Persistence is best-effort
+      }
+    },
+    // Bytes kept in storage, apart from pinned entries
+    async getUsage(): Promise<{ bytes: number; pinnedBytes: number }> {
+      const records = await getIndex();
+      return {
+        bytes: totalBytes(records, false),
+        pinnedBytes: totalBytes(records, true),
+      };
+    },
+    getLimit() {
+      return limitBytes;
+    },
+  };
+};
+
 const IMAGE_CACHE_LIMIT = isMobileViewport() ? 50 * 1024 * 1024 : 100 * 1024 * 1024;
 const AUDIO_CACHE_LIMIT = isMobileViewport() ? 100 * 1024 * 1024 : 200 * 1024 * 1024;
 const RAW_IMAGE_CACHE_LIMIT = 50 * 1024 * 1024;
 
-const rawImageCache = createSizeLimitedLRU(RAW_IMAGE_CACHE_LIMIT);
+const rawImageCache = createPersistentLRU("raw-images", RAW_IMAGE_CACHE_LIMIT);
+
+export const imageResourceCache = createPersistentLRU("images", IMAGE_CACHE_LIMIT);
+export const audioResourceCache = createPersistentLRU("audio", AUDIO_CACHE_LIMIT);
+
+export interface CacheUsage {
+  id: "audio" | "images" | "lyrics" | "offline";
+  label: string;
+  bytes: number;
+  limit?: number; // Offline downloads have none
+}
+
+// What each cache holds in storage, for the settings readout
+export const getCacheUsage = async (): Promise<CacheUsage[]> => {
+  const [audio, images, rawImages, lyrics] = await Promise.all([
+    audioResourceCache.getUsage(),
+    imageResourceCache.getUsage(),
+    rawImageCache.getUsage(),
+    getLyricsCacheSize(),
+  ]);
+  return [
+    {
+      id: "audio",
+      label: "Audio",
+      bytes: audio.bytes,
+      limit: audioResourceCache.getLimit(),
+    },
+    {
+      id: "images",
+      label: "Cover art",
+      bytes: images.bytes + rawImages.bytes,
+      limit: imageResourceCache.getLimit() + rawImageCache.getLimit(),
+    },
+    { id: "lyrics", label: "Lyrics", bytes: lyrics.bytes, limit: lyrics.limit },
+    {
+      id: "offline",
+      label: "Offline downloads",
+      bytes:
+        audio.pinnedBytes +
+        images.pinnedBytes +
+        rawImages.pinnedBytes +
+        lyrics.pinnedBytes,
+    },
+  ];
+};
+
+export const clearCaches = () =>
+  Promise.all([
+    audioResourceCache.clear(),
+    imageResourceCache.clear(),
+    rawImageCache.clear(),
+    clearLyricsCache(),
+  ]);
+
+// Cover art as stored, without going to the network
+export const loadCachedImageBlob = (url: string) => rawImageCache.load(url);
 
-export const imageResourceCache = createSizeLimitedLRU(IMAGE_CACHE_LIMIT);
-export const audioResourceCache = createSizeLimitedLRU(AUDIO_CACHE_LIMIT);
+// Keep a cover through eviction, resolving once it's in storage
+export const pinCachedImage = (url: string, blob: Blob) =>
+  rawImageCache.pin(url, blob);
+
+export const unpinCachedImage = (url: string) =>
+  rawImageCache.setPinned(url, false);
 
 export const fetchImageBlobWithCache = async (url: string): Promise<Blob> => {
-  const cached = rawImageCache.get(url);
+  const cached = await rawImageCache.load(url);
   if (cached) {
     return cached;
   }
@@ -94,6 +381,57 @@ export const fetchImageBlobWithCache = async (url: string): Promise<Blob> => {
   }
 };
 
+const downloadAudio = async (
+  url: string,
+  onProgress?: (fraction: number) => void,
+  signal?: AbortSignal,
+): Promise<Blob> => {
+  const response = await fetch(url, { signal });
+  if (!response.ok) {
+    throw new Error("Failed to load audio: " + response.status);
+  }
+  const totalBytes = Number(response.headers.get("content-length")) || 0;
+  const type = response.headers.get("content-type") || "audio/mpeg";
+  if (!response.body || totalBytes === 0) {
+    return new Blob([await response.blob()], { type });
+  }
+
+  const reader = response.body.getReader();
+  const chunks: BlobPart[] = [];
+  let loaded = 0;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    if (value) {
+      chunks.push(value);
+      loaded += value.byteLength;
+      onProgress?.(Math.min(loaded / totalBytes, 1));
+    }
+  }
+  return new Blob(chunks, { type });
+};
+
+// Download a song's audio with progress (0..1) when the size is known,
+// failing over across the instances that can stream it
+export const fetchAudioBlob = async (
+  fileUrl: string,
+  onProgress?: (fraction: number) => void,
+  signal?: AbortSignal,
+): Promise<Blob> => {
+  await loadEndpointConfig();
+  let lastError: unknown;
+  for (const source of getStreamSources(fileUrl)) {
+    try {
+      return await downloadAudio(source.url, onProgress, signal);
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      if (source.endpoint) reportEndpointFailure(source.endpoint);
+      lastError = error;
+    }
+  }
+  throw lastError;
+};
+
 export const loadImageElementWithCache = async (
   url: string,
 ): Promise<HTMLImageElement> => {
@@ -0,0 +1,261 @@
+import { STORES, idbGet, idbPut } from "./db";
+
+// Hosts the app talks to: NeteaseCloudMusicApi and Meting instances plus the
+// CORS proxies used when a host can't be reached directly. Every list is in
+// priority order and requests fail over along it, trying hosts that failed
+// recently last.
+//
+// Built-in defaults are overridden by VITE_* env vars at build time, then by
+// a JSON file served next to index.html (`endpoints.json` unless
+// VITE_ENDPOINTS_FILE says otherwise), then by what the user saves in
+// Settings.
+
+const SETTINGS_KEY = "settings.endpoints";
+// A host that failed is tried after the others for this long
+const FAILURE_COOLDOWN_MS = 60 * 1000;
+const HEALTH_CHECK_TIMEOUT_MS = 5000;
+
+export interface EndpointSettings {
+  neteaseApis: string[]; // NeteaseCloudMusicApi base URLs
+  metingApis: string[]; // Templates with :server, :type and :id
+  jsonProxies: string[]; // CORS proxy templates with :url
+  imageProxies: string[]; // Same, for cover images
+}
+
+export type EndpointKind = keyof EndpointSettings;
+
+export const ENDPOINT_KINDS: EndpointKind[] = [
+  "neteaseApis",
+  "metingApis",
+  "jsonProxies",
+  "imageProxies",
+];
+
+export const DEFAULT_ENDPOINTS: EndpointSettings = {
+  neteaseApis: ["https://163api.qijieya.cn"],
+  metingApis: [
+    "https://api.injahow.cn/meting/?server=:server&type=:type&id=:id",
+    "https://api.moeyao.cn/meting/?server=:server&type=:type&id=:id",
+    "https://api.qijieya.cn/meting/?type=:type&id=:id&server=:server",
+    // Has returned 500s, so it goes last
+    "https://api.i-meto.com/meting/api?server=:server&type=:type&id=:id",
+  ],
+  jsonProxies: ["https://api.allorigins.win/raw?url=:url"],
+  imageProxies: [
+    "https://images.weserv.nl/?url=:url",
+    "https://corsproxy.io/?:url",
+  ],
+};
+
+// Lists come as arrays (config file) or comma/whitespace separated strings
+// (env vars and the settings form)
+export const parseEndpointList = (value: unknown): string[] | undefined => {
+  const items = Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === "string")
+    : typeof value === "string"
+      ? value.split(/[\s,]+/)
+      : [];
+  const list = Array.from(
+    new Set(items.map((item) => item.trim()).filter(Boolean)),
+  );
+  return list.length > 0 ? list : undefined;
+};
+
+const parseEndpointSettings = (value: unknown): Partial<EndpointSettings> => {
+  const parsed: Partial<EndpointSettings> = {};
+  if (!value || typeof value !== "object") return parsed;
+  ENDPOINT_KINDS.forEach((kind) => {
+    const list = parseEndpointList((value as Record<string, unknown>)[kind]);
+    if (list) parsed[kind] = list;
+  });
+  return parsed;
+};
+
+const ENV_ENDPOINTS = parseEndpointSettings({
+  neteaseApis: import.meta.env.VITE_NETEASE_APIS,
+  metingApis: import.meta.env.VITE_METING_APIS,
+  jsonProxies: import.meta.env.VITE_JSON_PROXIES,
+  imageProxies: import.meta.env.VITE_IMAGE_PROXIES,
+});
+
+const CONFIG_FILE = import.meta.env.VITE_ENDPOINTS_FILE ?? "endpoints.json";
+
+// Defaults plus deployment config; what "Reset" in Settings goes back to
+let baseEndpoints: EndpointSettings = { ...DEFAULT_ENDPOINTS, ...ENV_ENDPOINTS };
+// Lists the user changed in Settings
+let userEndpoints: Partial<EndpointSettings> = {};
+let currentEndpoints: EndpointSettings = baseEndpoints;
+const listeners = new Set<() => void>();
+
+const applyEndpoints = () => {
+  currentEndpoints = { ...baseEndpoints, ...userEndpoints };
+  listeners.forEach((listener) => listener());
+};
+
+export const getEndpoints = () => currentEndpoints;
+
+export const getBaseEndpoints = () => baseEndpoints;
+
+export const subscribeEndpoints = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+let loading: Promise<void> | null = null;
+
+// Read the deployment config file and the user's saved lists, once
+export const loadEndpointConfig = () => {
+  if (!loading) {
+    loading = (async () => {
+      if (CONFIG_FILE) {
+        try {
+          const response = await fetch(CONFIG_FILE, { cache: "no-cache" });
+          if (response.ok) {
+            baseEndpoints = {
+              ...baseEndpoints,
+              ...parseEndpointSettings(await response.json()),
+            };
+          }
+        } catch {
+          // No config file deployed
+        }
+      }
+      try {
+        userEndpoints = parseEndpointSettings(
+          await idbGet<Partial<EndpointSettings>>(STORES.kv, SETTINGS_KEY),
+        );
+      } catch {
+        // Keep the defaults
+      }
+      applyEndpoints();
+    })();
+  }
+  return loading;
+};
+
+const sameList = (a: string[], b: string[]) =>
+  a.length === b.length && a.every((item, index) => item === b[index]);
+
+// Only lists that differ from the deployment config are kept, so later
+// changes to it still reach users who never touched that list
+export const saveEndpointSettings = async (settings: EndpointSettings) => {
+  const overrides: Partial<EndpointSettings> = {};
+  ENDPOINT_KINDS.forEach((kind) => {
+    if (settings[kind].length > 0 && !sameList(settings[kind], baseEndpoints[kind])) {
+      overrides[kind] = settings[kind];
+    }
+  });
+  userEndpoints = overrides;
+  applyEndpoints();
+  try {
+    await idbPut(STORES.kv, SETTINGS_KEY, overrides);
+  } catch {
+    // Persistence is best-effort
+  }
+};
+
+// Replace :name placeholders; values are inserted as given
+export const fillTemplate = (
+  template: string,
+  values: Record<string, string>,
+) =>
+  Object.entries(values).reduce(
+    (url, [name, value]) => url.replace(`:${name}`, value),
+    template,
+  );
+
+export const joinUrl = (base: string, path: string) =>
+  `${base.replace(/\/+$/, "")}${path}`;
+
+// --- Health and failover ---
+
+export interface EndpointHealth {
+  ok: boolean;
+  checkedAt: number;
+  latencyMs?: number;
+}
+
+const health = new Map<string, EndpointHealth>();
+
+export const getEndpointHealth = (endpoint: string) => health.get(endpoint);
+
+const recentlyFailed = (endpoint: string) => {
+  const status = health.get(endpoint);
+  return (
+    !!status && !status.ok && Date.now() - status.checkedAt < FAILURE_COOLDOWN_MS
+  );
+};
+
+const report = (endpoint: string, ok: boolean, latencyMs?: number) => {
+  health.set(endpoint, { ok, checkedAt: Date.now(), latencyMs });
+};
+
+// For requests made outside withFailover, e.g. audio streamed by an element
+export const reportEndpointFailure = (endpoint: string) =>
+  report(endpoint, false);
+
+// Configured order, with hosts that failed recently moved to the back
+export const orderEndpoints = (kind: EndpointKind): string[] => {
+  const list = currentEndpoints[kind];
+  return [
+    ...list.filter((endpoint) => !recentlyFailed(endpoint)),
+    ...list.filter(recentlyFailed),
+  ];
+};
+
+// Run `attempt` against each endpoint of `kind` until one succeeds. Waits
+// for the configuration so nothing reaches a host the user replaced.
+export const withFailover = async <T>(
+  kind: EndpointKind,
+  attempt: (endpoint: string) => Promise<T>,
+): Promise<T> => {
+  await loadEndpointConfig();
+  let lastError: unknown = new Error(`No ${kind} configured`);
+  for (const endpoint of orderEndpoints(kind)) {
+    const startedAt = performance.now();
+    try {
+      const result = await attempt(endpoint);
+      report(endpoint, true, performance.now() - startedAt);
+      return result;
+    } catch (error) {
+      // Cancelled by the caller; says nothing about the host
+      if (error instanceof DOMException && error.name === "AbortError") {
+        throw error;
+      }
+      report(endpoint, false);
+      lastError = error;
+    }
+  }
+  throw lastError;
+};
+
+// Whether the host answers at all. Opaque (no-cors) requests are enough
+// for that and work for hosts that don't send CORS headers.
+export const checkEndpoint = async (
+  endpoint: string,
+): Promise<EndpointHealth> => {
+  const probe = fillTemplate(endpoint, {
+    server: "netease",
+    type: "search",
+    id: "test",
+    url: encodeURIComponent("https://example.com"),
+  });
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), HEALTH_CHECK_TIMEOUT_MS);
+  const startedAt = performance.now();
+  try {
+    await fetch(probe, {
+      mode: "no-cors",
+      cache: "no-store",
+      signal: controller.signal,
+    });
+    report(endpoint, true, performance.now() - startedAt);
+  } catch {
+    report(endpoint, false);
+  } finally {
+    clearTimeout(timer);
+  }
+  return health.get(endpoint)!;
+};
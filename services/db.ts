@@ -0,0 +1,137 @@
+// Minimal promise-based wrapper around the app's IndexedDB database.
+// Every persistent subsystem gets its own object store; add new stores to
+// STORES and bump DB_VERSION so existing installs pick them up on upgrade.
+
+const DB_NAME = "kael-music";
+const DB_VERSION = 10;
+
+export const STORES = {
+  // Small key/value records (playback session, preferences)
+  kv: "kv",
+  // Raw bytes of imported local files, keyed by song id
+  files: "files",
+  // Measured loudness per song, keyed by getSongKey()
+  loudness: "loudness",
+  // User-saved named playlists, keyed by playlist id
+  playlists: "playlists",
+  // Listening history, one record per play, keyed by record id
+  history: "history",
+  // Scrobbles waiting to be submitted, keyed by listen id
+  scrobbles: "scrobbles",
+  // Liked songs and star ratings, keyed by getSongKey()
+  favorites: "favorites",
+  // Index of imported local files, keyed by getSongKey()
+  library: "library",
+  // Cover art of library entries as data URLs, keyed by content hash
+  covers: "covers",
+  // Fetched lyrics, raw and parsed, keyed by getLyricsCacheKey()
+  lyrics: "lyrics",
+  // Size and last use of audio and images kept in Cache Storage, keyed by
+  // cache name and key
+  cacheIndex: "cacheIndex",
+  // Songs made available offline, keyed by getSongKey()
+  offline: "offline",
+} as const;
+
+export type StoreName = (typeof STORES)[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const isIndexedDBAvailable = () =>
+  typeof indexedDB !== "undefined" && indexedDB !== null;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  if (!isIndexedDBAvailable()) {
+    return Promise.reject(new Error("IndexedDB is not available"));
+  }
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      Object.values(STORES).forEach((name) => {
+        if (!db.objectStoreNames.contains(name)) {
+          db.createObjectStore(name);
+        }
+      });
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // Another tab upgraded the schema; drop our handle so the next call reopens
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+};
+
+const withStore = async <T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> => {
+  const db = await openDatabase();
+  const tx = db.transaction(storeName, mode);
+  const result = requestToPromise(run(tx.objectStore(storeName)));
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+  return result;
+};
+
+export const idbGet = async <T>(
+  storeName: StoreName,
+  key: IDBValidKey,
+): Promise<T | undefined> => {
+  return withStore<T | undefined>(storeName, "readonly", (store) =>
+    store.get(key),
+  );
+};
+
+export const idbGetAll = async <T>(storeName: StoreName): Promise<T[]> => {
+  return withStore<T[]>(storeName, "readonly", (store) => store.getAll());
+};
+
+export const idbGetAllKeys = async (
+  storeName: StoreName,
+): Promise<IDBValidKey[]> => {
+  return withStore<IDBValidKey[]>(storeName, "readonly", (store) =>
+    store.getAllKeys(),
+  );
+};
+
+export const idbPut = async <T>(
+  storeName: StoreName,
+  key: IDBValidKey,
+  value: T,
+): Promise<void> => {
+  await withStore(storeName, "readwrite", (store) => store.put(value, key));
+};
+
+export const idbDelete = async (
+  storeName: StoreName,
+  key: IDBValidKey,
+): Promise<void> => {
+  await withStore(storeName, "readwrite", (store) => store.delete(key));
+};
+
+export const idbClear = async (storeName: StoreName): Promise<void> => {
+  await withStore(storeName, "readwrite", (store) => store.clear());
+};
@@ -0,0 +1,120 @@
+import { STORES, idbGet, idbPut } from "./db";
+
+const EFFECTS_KEY = "settings.effects";
+
+export const EQ_GAIN_RANGE = 12; // dB, either direction
+export const EQ_MIN_FREQUENCY = 20;
+export const EQ_MAX_FREQUENCY = 20000;
+export const EQ_MIN_Q = 0.3;
+export const EQ_MAX_Q = 10;
+
+export interface EqBand {
+  type: BiquadFilterType;
+  frequency: number; // Hz
+  gain: number; // dB
+  q: number;
+}
+
+export interface ReverbSettings {
+  enabled: boolean;
+  mix: number; // 0..1 wet level
+  decay: number; // Seconds
+}
+
+export interface EffectsSettings {
+  eqEnabled: boolean;
+  // Id of the preset the bands came from, or "custom" once edited
+  presetId: string;
+  preamp: number; // dB applied before the filters
+  bands: EqBand[];
+  limiterEnabled: boolean;
+  reverb: ReverbSettings;
+}
+
+export interface EqPreset {
+  id: string;
+  name: string;
+  gains: number[]; // One per default band
+}
+
+export const CUSTOM_PRESET_ID = "custom";
+
+const DEFAULT_FREQUENCIES = [31, 62, 125, 250, 500, 1000, 2000, 4000, 8000, 16000];
+const DEFAULT_Q = 1.41; // One octave
+
+export const createDefaultBands = (gains?: number[]): EqBand[] =>
+  DEFAULT_FREQUENCIES.map((frequency, i) => ({
+    type:
+      i === 0
+        ? "lowshelf"
+        : i === DEFAULT_FREQUENCIES.length - 1
+          ? "highshelf"
+          : "peaking",
+    frequency,
+    gain: gains?.[i] ?? 0,
+    q: DEFAULT_Q,
+  }));
+
+export const EQ_PRESETS: EqPreset[] = [
+  { id: "flat", name: "Flat", gains: [0, 0, 0, 0, 0, 0, 0, 0, 0, 0] },
+  { id: "bass", name: "Bass Boost", gains: [6, 5, 4, 2, 0, 0, 0, 0, 0, 0] },
+  { id: "treble", name: "Treble Boost", gains: [0, 0, 0, 0, 0, 1, 2, 4, 5, 6] },
+  { id: "vocal", name: "Vocal", gains: [-2, -2, -1, 1, 3, 4, 3, 1, 0, -1] },
+  { id: "rock", name: "Rock", gains: [5, 4, 2, -1, -2, -1, 2, 3, 4, 4] },
+  { id: "pop", name: "Pop", gains: [-1, 1, 3, 4, 3, 0, -1, -1, 1, 2] },
+  { id: "jazz", name: "Jazz", gains: [3, 2, 1, 2, -1, -1, 0, 1, 2, 3] },
+  { id: "classical", name: "Classical", gains: [4, 3, 2, 1, -1, -1, 0, 2, 3, 4] },
+  { id: "electronic", name: "Electronic", gains: [5, 4, 1, 0, -2, 2, 1, 1, 4, 5] },
+  { id: "loudness", name: "Loudness", gains: [6, 4, 0, 0, -2, 0, -1, -4, 5, 2] },
+];
+
+export const DEFAULT_EFFECTS: EffectsSettings = {
+  eqEnabled: false,
+  presetId: "flat",
+  preamp: 0,
+  bands: createDefaultBands(),
+  limiterEnabled: true,
+  reverb: { enabled: false, mix: 0.25, decay: 2.5 },
+};
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.max(min, Math.min(max, value));
+
+export const clampBand = (band: EqBand): EqBand => ({
+  ...band,
+  frequency: clamp(band.frequency, EQ_MIN_FREQUENCY, EQ_MAX_FREQUENCY),
+  gain: clamp(band.gain, -EQ_GAIN_RANGE, EQ_GAIN_RANGE),
+  q: clamp(band.q, EQ_MIN_Q, EQ_MAX_Q),
+});
+
+// Fill in anything missing from an older or partial record
+const normalizeEffects = (saved: Partial<EffectsSettings>): EffectsSettings => {
+  const bands =
+    Array.isArray(saved.bands) && saved.bands.length === DEFAULT_FREQUENCIES.length
+      ? saved.bands.map(clampBand)
+      : DEFAULT_EFFECTS.bands;
+  return {
+    ...DEFAULT_EFFECTS,
+    ...saved,
+    preamp: clamp(saved.preamp ?? 0, -EQ_GAIN_RANGE, EQ_GAIN_RANGE),
+    bands,
+    reverb: { ...DEFAULT_EFFECTS.reverb, ...saved.reverb },
+  };
+};
+
+export const loadEffects = async (): Promise<EffectsSettings> => {
+  try {
+    const saved = await idbGet<Partial<EffectsSettings>>(STORES.kv, EFFECTS_KEY);
+    return saved ? normalizeEffects(saved) : DEFAULT_EFFECTS;
+  } catch {
+    return DEFAULT_EFFECTS;
+  }
+};
+
+export const saveEffects = async (settings: EffectsSettings) => {
+  try {
+    await idbPut(STORES.kv, EFFECTS_KEY, settings);
+  } catch {
+    // Persistence is best-effort
+  }
+};
@@ -0,0 +1,50 @@
+import { Song } from "../types";
+import { STORES, idbDelete, idbGetAll, idbPut } from "./db";
+
+export const MAX_RATING = 5;
+
+export interface FavoriteRecord {
+  key: string; // getSongKey() of the song
+  // Snapshot of the song without lyrics, enough to queue it again
+  song: Song;
+  liked: boolean;
+  likedAt: number | null;
+  rating: number; // 0 (unrated) to MAX_RATING
+  updatedAt: number;
+}
+
+// Lyrics are refetched or rematched when the song is queued again
+export const toFavoriteSnapshot = (song: Song): Song => {
+  const { lyrics: _lyrics, ...snapshot } = song;
+  return { ...snapshot, needsLyricsMatch: true };
+};
+
+// A record with neither a like nor a rating says nothing and can go
+export const isEmptyFavorite = (record: FavoriteRecord) =>
+  !record.liked && record.rating === 0;
+
+// Snapshots of local songs still point at old blob URLs; restore them with
+// restoreLocalSongs() before queueing
+export const loadFavorites = async (): Promise<FavoriteRecord[]> => {
+  try {
+    return await idbGetAll<FavoriteRecord>(STORES.favorites);
+  } catch {
+    return [];
+  }
+};
+
+export const saveFavorite = async (record: FavoriteRecord) => {
+  try {
+    await idbPut(STORES.favorites, record.key, record);
+  } catch {
+    // Persistence is best-effort
+  }
+};
+
+export const deleteFavorite = async (key: string) => {
+  try {
+    await idbDelete(STORES.favorites, key);
+  } catch {
+    // Persistence is best-effort
+  }
+};
@@ -0,0 +1,183 @@
+import { Song } from "../types";
+import { STORES, idbDelete, idbGetAll, idbPut } from "./db";
+import { getSongKey } from "./utils";
+
+// A play counts once half the song (or four minutes of it) has been heard
+const PLAYED_FRACTION = 0.5;
+const PLAYED_MAX_SECONDS = 240;
+// Used when the duration isn't known
+const PLAYED_FALLBACK_SECONDS = 30;
+// Shorter listens are noise (e.g. skipping through the queue)
+const MIN_RECORD_SECONDS = 1;
+// Oldest records are dropped past this many
+const HISTORY_LIMIT = 5000;
+
+export type StatsRange = "week" | "month";
+
+const RANGE_DAYS: Record<StatsRange, number> = { week: 7, month: 30 };
+
+export interface PlayRecord {
+  id: string;
+  songKey: string;
+  // Snapshot of the song without lyrics, enough to queue it again
+  song: Song;
+  startedAt: number;
+  listened: number; // Seconds actually heard
+  played: boolean;
+  skipped: boolean;
+}
+
+export interface TrackStat {
+  song: Song;
+  plays: number;
+  listened: number;
+}
+
+export interface ArtistStat {
+  artist: string;
+  plays: number;
+  listened: number;
+}
+
+export interface ListeningStats {
+  plays: number;
+  skips: number;
+  listened: number;
+  topTracks: TrackStat[];
+  topArtists: ArtistStat[];
+}
+
+export const getPlayedThreshold = (duration?: number) =>
+  duration && duration > 0
+    ? Math.min(duration * PLAYED_FRACTION, PLAYED_MAX_SECONDS)
+    : PLAYED_FALLBACK_SECONDS;
+
+// Record one listening session of `song`. `interrupted` means the listener
+// moved on to another song rather than the page closing.
+export const recordPlay = async (
+  song: Song,
+  startedAt: number,
+  listened: number,
+  interrupted: boolean,
+) => {
+  if (listened < MIN_RECORD_SECONDS) return;
+  const played = listened >= getPlayedThreshold(song.duration);
+  // Lyrics are refetched or rematched when the song is queued again
+  const { lyrics: _lyrics, ...snapshot } = song;
+  const record: PlayRecord = {
+    id: `${startedAt}-${Math.random().toString(36).slice(2, 8)}`,
+    songKey: getSongKey(song),
+    song: { ...snapshot, needsLyricsMatch: true },
+    startedAt,
+    listened,
+    played,
+    skipped: interrupted && !played,
+  };
+  try {
+    await idbPut(STORES.history, record.id, record);
+  } catch {
+    // Persistence is best-effort
+  }
+};
+
+// All records, oldest first
+export const loadHistory = async (): Promise<PlayRecord[]> => {
+  let records: PlayRecord[];
+  try {
+    records = await idbGetAll<PlayRecord>(STORES.history);
+  } catch {
+    return [];
+  }
+  records.sort((a, b) => a.startedAt - b.startedAt);
+  if (records.length > HISTORY_LIMIT) {
+    const expired = records.splice(0, records.length - HISTORY_LIMIT);
+    expired.forEach((record) => {
+      idbDelete(STORES.history, record.id).catch(() => {});
+    });
+  }
+  return records;
+};
+
+export const clearHistory = async () => {
+  const records = await loadHistory();
+  await Promise.all(
+    records.map((record) =>
+      idbDelete(STORES.history, record.id).catch(() => {}),
+    ),
+  );
+};
+
+const TOP_LIMIT = 10;
+
+export const computeStats = (
+  records: PlayRecord[],
+  range: StatsRange,
+  now: number = Date.now(),
+): ListeningStats => {
+  const since = now - RANGE_DAYS[range] * 24 * 60 * 60 * 1000;
+  const inRange = records.filter((record) => record.startedAt >= since);
+
+  const tracks = new Map<string, TrackStat>();
+  const artists = new Map<string, ArtistStat>();
+  let plays = 0;
+  let skips = 0;
+  let listened = 0;
+
+  inRange.forEach((record) => {
+    listened += record.listened;
+    if (record.skipped) skips += 1;
+    const playCount = record.played ? 1 : 0;
+    plays += playCount;
+
+    const track = tracks.get(record.songKey) ?? {
+      song: record.song,
+      plays: 0,
+      listened: 0,
+    };
+    track.plays += playCount;
+    track.listened += record.listened;
+    // Keep the newest snapshot
+    track.song = record.song;
+    tracks.set(record.songKey, track);
+
+    const artistKey = record.song.artist.trim().toLowerCase();
+    const artist = artists.get(artistKey) ?? {
+      artist: record.song.artist,
+      plays: 0,
+      listened: 0,
+    };
+    artist.plays += playCount;
+    artist.listened += record.listened;
+    artists.set(artistKey, artist);
+  });
+
+  const rank = <T extends { plays: number; listened: number }>(items: T[]) =>
+    items
+      .filter((item) => item.plays > 0)
+      .sort((a, b) => b.plays - a.plays || b.listened - a.listened)
+      .slice(0, TOP_LIMIT);
+
+  return {
+    plays,
+    skips,
+    listened,
+    topTracks: rank(Array.from(tracks.values())),
+    topArtists: rank(Array.from(artists.values())),
+  };
+};
+
+// Most recent first, each song once
+export const getRecentlyPlayed = (
+  records: PlayRecord[],
+  limit: number = 20,
+): PlayRecord[] => {
+  const seen = new Set<string>();
+  const recent: PlayRecord[] = [];
+  for (let i = records.length - 1; i >= 0 && recent.length < limit; i--) {
+    const record = records[i];
+    if (seen.has(record.songKey)) continue;
+    seen.add(record.songKey);
+    recent.push(record);
+  }
+  return recent;
+};
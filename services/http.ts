@@ -0,0 +1,257 @@
+import { fillTemplate, withFailover } from "./config";
+
+// Shared client for the JSON APIs behind search, lyrics and imports. Each
+// attempt has a timeout and honours the caller's AbortSignal; failures that
+// may be transient are retried with exponential backoff; a host that keeps
+// failing is skipped for a while (circuit breaker); and responses can be
+// kept in a TTL cache.
+
+const DEFAULT_TIMEOUT_MS = 10000;
+const DEFAULT_RETRIES = 2;
+const BACKOFF_BASE_MS = 300;
+const BACKOFF_MAX_MS = 4000;
+// Consecutive failures that open a host's circuit, and for how long
+const BREAKER_THRESHOLD = 3;
+const BREAKER_COOLDOWN_MS = 30 * 1000;
+const CACHE_MAX_ENTRIES = 300;
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+  timeoutMs?: number; // Per attempt
+  retries?: number; // Extra attempts after the first
+}
+
+export class HttpError extends Error {
+  constructor(readonly status: number, url: string) {
+    super(`Request failed with status ${status}: ${url}`);
+  }
+}
+
+export class TimeoutError extends Error {
+  constructor(url: string) {
+    super(`Request timed out: ${url}`);
+  }
+}
+
+// The host failed too often recently; not contacted until the cooldown ends
+export class CircuitOpenError extends Error {
+  constructor(host: string) {
+    super(`Skipping ${host} after repeated failures`);
+  }
+}
+
+export const isAbortError = (error: unknown) =>
+  error instanceof DOMException && error.name === "AbortError";
+
+const abortError = () => new DOMException("Request aborted", "AbortError");
+
+// --- Circuit breaker ---
+
+interface Circuit {
+  failures: number;
+  openUntil: number;
+}
+
+const circuits = new Map<string, Circuit>();
+
+const hostOf = (url: string) => {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+};
+
+const checkCircuit = (host: string) => {
+  const circuit = circuits.get(host);
+  // Once the cooldown passes one request gets through as a trial
+  if (circuit && circuit.openUntil > Date.now()) {
+    throw new CircuitOpenError(host);
+  }
+};
+
+const recordResult = (host: string, ok: boolean) => {
+  if (ok) {
+    circuits.delete(host);
+    return;
+  }
+  const circuit = circuits.get(host) ?? { failures: 0, openUntil: 0 };
+  circuit.failures += 1;
+  if (circuit.failures >= BREAKER_THRESHOLD) {
+    circuit.openUntil = Date.now() + BREAKER_COOLDOWN_MS;
+  }
+  circuits.set(host, circuit);
+};
+
+// --- Requests ---
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+const backoffDelay = (attempt: number) =>
+  Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** attempt) *
+  (0.5 + Math.random() / 2);
+
+// Network errors, timeouts, rate limiting and server errors may pass
+const isRetryable = (error: unknown) =>
+  error instanceof TimeoutError ||
+  error instanceof TypeError ||
+  (error instanceof HttpError && (error.status === 429 || error.status >= 500));
+
+const attemptJson = async (
+  url: string,
+  timeoutMs: number,
+  signal?: AbortSignal,
+): Promise<unknown> => {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener("abort", onAbort, { once: true });
+  try {
+    const response = await fetch(url, { signal: controller.signal });
+    if (!response.ok) throw new HttpError(response.status, url);
+    return JSON.parse(await response.text());
+  } catch (error) {
+    if (timedOut) throw new TimeoutError(url);
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", onAbort);
+  }
+};
+
+// GET `url` as JSON with timeout, retries and the host's circuit breaker.
+// `T` is what the caller expects; the response isn't validated.
+export const requestJson = async <T = unknown>(
+  url: string,
+  options: RequestOptions = {},
+): Promise<T> => {
+  const {
+    signal,
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    retries = DEFAULT_RETRIES,
+  } = options;
+  const host = hostOf(url);
+
+  for (let attempt = 0; ; attempt++) {
+    if (signal?.aborted) throw abortError();
+    checkCircuit(host);
+    try {
+      const data = await attemptJson(url, timeoutMs, signal);
+      recordResult(host, true);
+      return data as T;
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      recordResult(host, !isRetryable(error) && !(error instanceof SyntaxError));
+      if (attempt >= retries || !isRetryable(error)) throw error;
+    }
+    await sleep(backoffDelay(attempt), signal);
+  }
+};
+
+// Direct request first; hosts that block cross-origin requests are reached
+// through the configured proxies. The direct attempt isn't retried since
+// CORS failures are permanent.
+export const fetchJson = async <T = unknown>(
+  targetUrl: string,
+  options: RequestOptions = {},
+): Promise<T> => {
+  try {
+    return await requestJson<T>(targetUrl, { ...options, retries: 0 });
+  } catch (directError) {
+    if (isAbortError(directError)) throw directError;
+    return withFailover("jsonProxies", (proxy) =>
+      requestJson<T>(
+        fillTemplate(proxy, { url: encodeURIComponent(targetUrl) }),
+        options,
+      ),
+    );
+  }
+};
+
+// --- Response cache ---
+
+interface CacheEntry {
+  value: unknown;
+  expiresAt: number;
+}
+
+const responseCache = new Map<string, CacheEntry>();
+// Loads in progress, shared by callers asking for the same key meanwhile
+const inFlight = new Map<string, Promise<unknown>>();
+
+// `load()` once per `key` within `ttlMs`; concurrent callers share one
+// load. Failures aren't cached; neither are empty results (null, undefined,
+// []), so they get retried next time. A shared load runs with its starter's
+// signal, so when that caller aborts the others load again with their own.
+export const withCache = async <T>(
+  key: string,
+  ttlMs: number,
+  load: () => Promise<T>,
+): Promise<T> => {
+  const cached = responseCache.get(key);
+  if (cached && cached.expiresAt > Date.now()) {
+    // Refresh its position so the least recently used go first
+    responseCache.delete(key);
+    responseCache.set(key, cached);
+    return cached.value as T;
+  }
+  responseCache.delete(key);
+
+  const pending = inFlight.get(key);
+  if (pending) {
+    try {
+      return (await pending) as T;
+    } catch (error) {
+      if (!isAbortError(error)) throw error;
+      if (inFlight.get(key) === pending) inFlight.delete(key);
+      return withCache(key, ttlMs, load);
+    }
+  }
+
+  const loading = load().then((value) => {
+    // Unless invalidated meanwhile
+    if (
+      inFlight.get(key) === loading &&
+      value != null &&
+      !(Array.isArray(value) && value.length === 0)
+    ) {
+      responseCache.set(key, { value, expiresAt: Date.now() + ttlMs });
+      while (responseCache.size > CACHE_MAX_ENTRIES) {
+        responseCache.delete(responseCache.keys().next().value!);
+      }
+    }
+    return value;
+  });
+  inFlight.set(key, loading);
+  try {
+    return await loading;
+  } finally {
+    if (inFlight.get(key) === loading) inFlight.delete(key);
+  }
+};
+
+// Forget cached responses whose key starts with `prefix`, and stop sharing
+// loads of them that are still running
+export const invalidateCache = (prefix: string) => {
+  [responseCache, inFlight].forEach((entries: Map<string, unknown>) => {
+    Array.from(entries.keys())
+      .filter((key) => key.startsWith(prefix))
+      .forEach((key) => entries.delete(key));
+  });
+};
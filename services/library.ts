@@ -0,0 +1,175 @@
+import { LyricLine, ReplayGainInfo, Song } from "../types";
+import {
+  STORES,
+  idbDelete,
+  idbGet,
+  idbGetAll,
+  idbGetAllKeys,
+  idbPut,
+} from "./db";
+import { loadLocalFile } from "./persistence";
+import { getSongKey, hashFile } from "./utils";
+
+// Every imported local file is indexed here so it can be browsed and queued
+// again without re-importing. The bytes stay in the files store under
+// `songId`; covers are stored once per distinct image.
+
+export interface LibraryEntry {
+  key: string; // getSongKey() of the song
+  songId: string; // Id the file's bytes are stored under
+  title: string;
+  artist: string;
+  album?: string;
+  duration?: number;
+  coverHash?: string;
+  colors?: string[];
+  lyrics?: LyricLine[]; // Embedded or sidecar lyrics found on import
+  replayGain?: ReplayGainInfo;
+  fileName?: string;
+  filePath?: string;
+  fileHash?: string;
+  addedAt: number;
+}
+
+export const isLibrarySong = (song: Song) => song.id.startsWith("local-");
+
+export const loadLibrary = async (): Promise<LibraryEntry[]> => {
+  try {
+    const entries = await idbGetAll<LibraryEntry>(STORES.library);
+    return entries.sort((a, b) => a.addedAt - b.addedAt);
+  } catch {
+    return [];
+  }
+};
+
+export const saveLibraryEntry = async (entry: LibraryEntry) => {
+  try {
+    await idbPut(STORES.library, entry.key, entry);
+  } catch {
+    // Persistence is best-effort
+  }
+};
+
+export const deleteLibraryEntry = async (key: string) => {
+  try {
+    await idbDelete(STORES.library, key);
+  } catch {
+    // Persistence is best-effort
+  }
+};
+
+// Id the bytes of the file with `fileHash` are already stored under, so a
+// re-import doesn't store them again
+export const findStoredSongId = async (
+  fileHash: string,
+): Promise<string | undefined> => {
+  try {
+    const entry = await idbGet<LibraryEntry>(
+      STORES.library,
+      `sha256:${fileHash}`,
+    );
+    if (!entry || !(await loadLocalFile(entry.songId))) return undefined;
+    return entry.songId;
+  } catch {
+    return undefined;
+  }
+};
+
+// Store a cover once, returning its hash
+export const saveCover = async (
+  coverUrl: string,
+): Promise<string | undefined> => {
+  const hash = await hashFile(new Blob([coverUrl]));
+  if (!hash) return undefined;
+  try {
+    if (!(await idbGet<string>(STORES.covers, hash))) {
+      await idbPut(STORES.covers, hash, coverUrl);
+    }
+    return hash;
+  } catch {
+    return undefined;
+  }
+};
+
+export const loadCovers = async (
+  hashes: Iterable<string>,
+): Promise<Map<string, string>> => {
+  const covers = new Map<string, string>();
+  await Promise.all(
+    Array.from(new Set(hashes)).map(async (hash) => {
+      try {
+        const cover = await idbGet<string>(STORES.covers, hash);
+        if (cover) covers.set(hash, cover);
+      } catch {
+        // Missing cover; the entry just shows a placeholder
+      }
+    }),
+  );
+  return covers;
+};
+
+// Drop stored covers that no entry refers to any more
+export const pruneCovers = async (inUse: Iterable<string>) => {
+  const keep = new Set(inUse);
+  try {
+    const hashes = await idbGetAllKeys(STORES.covers);
+    await Promise.all(
+      hashes
+        .filter((hash) => !keep.has(hash as string))
+        .map((hash) => idbDelete(STORES.covers, hash).catch(() => {})),
+    );
+  } catch {
+    // Leftover covers are harmless
+  }
+};
+
+export const toLibraryEntry = (
+  song: Song,
+  coverHash: string | undefined,
+): LibraryEntry => ({
+  key: getSongKey(song),
+  songId: song.id,
+  title: song.title,
+  artist: song.artist,
+  album: song.album,
+  duration: song.duration,
+  coverHash,
+  colors: song.colors,
+  lyrics: song.lyrics && song.lyrics.length > 0 ? song.lyrics : undefined,
+  replayGain: song.replayGain,
+  fileName: song.fileName,
+  filePath: song.filePath,
+  fileHash: song.fileHash,
+  addedAt: Date.now(),
+});
+
+// Songs ready to queue, with fresh object URLs for their stored bytes.
+// Entries whose bytes are gone are dropped.
+export const loadLibrarySongs = async (
+  entries: LibraryEntry[],
+  covers: Map<string, string>,
+): Promise<Song[]> => {
+  const songs = await Promise.all(
+    entries.map(async (entry): Promise<Song | null> => {
+      const file = await loadLocalFile(entry.songId);
+      if (!file) return null;
+      return {
+        id: entry.songId,
+        title: entry.title,
+        artist: entry.artist,
+        album: entry.album,
+        duration: entry.duration,
+        fileUrl: URL.createObjectURL(file),
+        coverUrl: entry.coverHash ? covers.get(entry.coverHash) : undefined,
+        colors: entry.colors,
+        lyrics: entry.lyrics ?? [],
+        needsLyricsMatch: !entry.lyrics,
+        replayGain: entry.replayGain,
+        fileName: entry.fileName,
+        filePath: entry.filePath,
+        fileHash: entry.fileHash,
+      };
+    }),
+  );
+  return songs.filter((song): song is Song => song !== null);
+};
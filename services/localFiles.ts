@@ -0,0 +1,116 @@
+// Collects files picked or dropped for import, walking into folders.
+// Paths are relative to what was picked (e.g. "Album/01 Song.flac") and are
+// used to pair sidecar files such as .lrc lyrics and folder cover images.
+
+export interface ScannedFile {
+  file: File;
+  path: string;
+}
+
+const AUDIO_EXTENSIONS = new Set([
+  "mp3",
+  "flac",
+  "wav",
+  "ogg",
+  "oga",
+  "opus",
+  "m4a",
+  "aac",
+  "alac",
+  "aiff",
+  "aif",
+  "wma",
+  "webm",
+]);
+
+const IMAGE_EXTENSIONS = new Set(["jpg", "jpeg", "png", "webp"]);
+
+// Image names conventionally used for a folder's album art
+const FOLDER_COVER_NAMES = new Set(["cover", "folder", "front", "album"]);
+
+export const getExtension = (name: string) =>
+  name.includes(".") ? name.split(".").pop()!.toLowerCase() : "";
+
+export const stripExtension = (path: string) => path.replace(/\.[^/.]+$/, "");
+
+export const getDirectory = (path: string) =>
+  path.includes("/") ? path.slice(0, path.lastIndexOf("/")) : "";
+
+export const isAudioFile = (file: File) =>
+  file.type.startsWith("audio/") || AUDIO_EXTENSIONS.has(getExtension(file.name));
+
+export const isFolderCover = (file: File) =>
+  IMAGE_EXTENSIONS.has(getExtension(file.name)) &&
+  FOLDER_COVER_NAMES.has(stripExtension(file.name).toLowerCase());
+
+// Dot files (.DS_Store, ._resource forks) are never music
+const isHidden = (name: string) => name.startsWith(".");
+
+export const fromFileList = (files: FileList | File[]): ScannedFile[] =>
+  Array.from(files)
+    .filter((file) => !isHidden(file.name))
+    .map((file) => ({
+      file,
+      // Set by directory pickers (<input webkitdirectory>)
+      path: file.webkitRelativePath || file.name,
+    }));
+
+const readFile = (entry: FileSystemFileEntry) =>
+  new Promise<File>((resolve, reject) => entry.file(resolve, reject));
+
+const readEntries = (reader: FileSystemDirectoryReader) =>
+  new Promise<FileSystemEntry[]>((resolve, reject) =>
+    reader.readEntries(resolve, reject),
+  );
+
+const scanEntry = async (entry: FileSystemEntry, out: ScannedFile[]) => {
+  if (isHidden(entry.name)) return;
+  if (entry.isFile) {
+    try {
+      out.push({
+        file: await readFile(entry as FileSystemFileEntry),
+        path: entry.fullPath.replace(/^\//, ""),
+      });
+    } catch {
+      // Unreadable file (permissions, vanished); skip it
+    }
+    return;
+  }
+  if (entry.isDirectory) {
+    const reader = (entry as FileSystemDirectoryEntry).createReader();
+    // Entries come in batches until an empty one
+    for (;;) {
+      const batch = await readEntries(reader).catch(
+        () => [] as FileSystemEntry[],
+      );
+      if (batch.length === 0) break;
+      for (const child of batch) {
+        await scanEntry(child, out);
+      }
+    }
+  }
+};
+
+// Files from a drop, including everything inside dropped folders
+export const scanDataTransfer = async (
+  dataTransfer: DataTransfer,
+): Promise<ScannedFile[]> => {
+  // The transfer is emptied once the event handler returns, so grab
+  // everything before the first await
+  const files = Array.from(dataTransfer.files);
+  const entries = Array.from(dataTransfer.items)
+    .filter((item) => item.kind === "file")
+    .map((item) => item.webkitGetAsEntry?.() ?? null);
+
+  if (entries.length === 0 || entries.some((entry) => entry === null)) {
+    return fromFileList(files);
+  }
+  const scanned: ScannedFile[] = [];
+  for (const entry of entries) {
+    await scanEntry(entry!, scanned);
+  }
+  return scanned;
+};
+
+export const hasDraggedFiles = (dataTransfer: DataTransfer | null) =>
+  !!dataTransfer && Array.from(dataTransfer.types).includes("Files");
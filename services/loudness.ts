@@ -0,0 +1,219 @@
+import { NormalizationMode, ReplayGainInfo, Song } from "../types";
+import { STORES, idbGet, idbPut } from "./db";
+
+// ReplayGain 2.0 reference level
+const REFERENCE_LUFS = -18;
+
+// Analysis runs at a reduced rate to halve the memory of decoded songs; the
+// K-weighting curve sits well below the resulting Nyquist frequency
+const ANALYSIS_SAMPLE_RATE = 22050;
+
+// BS.1770 gating block: 400 ms windows with 75% overlap
+const BLOCK_SECONDS = 0.4;
+const BLOCK_STEP_SECONDS = 0.1;
+const ABSOLUTE_GATE_LUFS = -70;
+const RELATIVE_GATE_LU = -10;
+
+const MIN_GAIN_DB = -20;
+const MAX_GAIN_DB = 12;
+
+export interface LoudnessRecord {
+  trackGain: number;
+  trackPeak: number;
+  analyzedAt: number;
+}
+
+const getOfflineContextCtor = (): typeof OfflineAudioContext | null =>
+  typeof window === "undefined"
+    ? null
+    : window.OfflineAudioContext || (window as any).webkitOfflineAudioContext || null;
+
+// K-weighting pre-filter (high shelf) and RLB high-pass from BS.1770, run
+// through an offline graph
+const applyKWeighting = async (buffer: AudioBuffer): Promise<AudioBuffer> => {
+  const OfflineCtor = getOfflineContextCtor()!;
+  const ctx = new OfflineCtor(
+    buffer.numberOfChannels,
+    buffer.length,
+    buffer.sampleRate,
+  );
+  const source = ctx.createBufferSource();
+  source.buffer = buffer;
+
+  const shelf = ctx.createBiquadFilter();
+  shelf.type = "highshelf";
+  shelf.frequency.value = 1681;
+  shelf.gain.value = 4;
+
+  const highpass = ctx.createBiquadFilter();
+  highpass.type = "highpass";
+  highpass.frequency.value = 38;
+  highpass.Q.value = 0.5;
+
+  source.connect(shelf);
+  shelf.connect(highpass);
+  highpass.connect(ctx.destination);
+  source.start();
+  return ctx.startRendering();
+};
+
+const blockLoudness = (meanSquare: number) => -0.691 + 10 * Math.log10(meanSquare);
+
+// Gated integrated loudness (LUFS) of a K-weighted buffer
+const measureIntegratedLoudness = (weighted: AudioBuffer): number => {
+  const blockSize = Math.round(BLOCK_SECONDS * weighted.sampleRate);
+  const step = Math.round(BLOCK_STEP_SECONDS * weighted.sampleRate);
+  const channels = Array.from({ length: weighted.numberOfChannels }, (_, ch) =>
+    weighted.getChannelData(ch),
+  );
+
+  const blocks: number[] = [];
+  for (let start = 0; start + blockSize <= weighted.length; start += step) {
+    let sum = 0;
+    channels.forEach((data) => {
+      let channelSum = 0;
+      for (let i = start; i < start + blockSize; i++) {
+        channelSum += data[i] * data[i];
+      }
+      sum += channelSum / blockSize;
+    });
+    blocks.push(sum);
+  }
+  if (blocks.length === 0) return -Infinity;
+
+  const aboveAbsolute = blocks.filter(
+    (power) => blockLoudness(power) > ABSOLUTE_GATE_LUFS,
+  );
+  if (aboveAbsolute.length === 0) return -Infinity;
+
+  const mean = (values: number[]) =>
+    values.reduce((total, value) => total + value, 0) / values.length;
+  const relativeGate = blockLoudness(mean(aboveAbsolute)) + RELATIVE_GATE_LU;
+  const gated = aboveAbsolute.filter(
+    (power) => blockLoudness(power) > relativeGate,
+  );
+  return blockLoudness(mean(gated.length > 0 ? gated : aboveAbsolute));
+};
+
+const measurePeak = (buffer: AudioBuffer): number => {
+  let peak = 0;
+  for (let ch = 0; ch < buffer.numberOfChannels; ch++) {
+    const data = buffer.getChannelData(ch);
+    for (let i = 0; i < data.length; i++) {
+      const value = Math.abs(data[i]);
+      if (value > peak) peak = value;
+    }
+  }
+  return peak;
+};
+
+const analyzeBlob = async (blob: Blob): Promise<LoudnessRecord | null> => {
+  const OfflineCtor = getOfflineContextCtor();
+  if (!OfflineCtor) return null;
+
+  const data = await blob.arrayBuffer();
+  // decodeAudioData resamples to the context rate
+  const decoder = new OfflineCtor(2, 1, ANALYSIS_SAMPLE_RATE);
+  const decoded = await decoder.decodeAudioData(data);
+  const loudness = measureIntegratedLoudness(await applyKWeighting(decoded));
+  if (!Number.isFinite(loudness)) return null;
+
+  return {
+    trackGain: REFERENCE_LUFS - loudness,
+    trackPeak: measurePeak(decoded),
+    analyzedAt: Date.now(),
+  };
+};
+
+// Decoding a whole song is memory hungry, so analyses run one at a time
+let analysisChain: Promise<unknown> = Promise.resolve();
+const pending = new Map<string, Promise<LoudnessRecord | null>>();
+
+export const loadLoudness = async (
+  songKey: string,
+): Promise<LoudnessRecord | null> => {
+  try {
+    return (await idbGet<LoudnessRecord>(STORES.loudness, songKey)) ?? null;
+  } catch {
+    return null;
+  }
+};
+
+// Measure a song's loudness and remember it under songKey. Concurrent requests
+// for the same key share one analysis.
+export const analyzeLoudness = (
+  songKey: string,
+  blob: Blob,
+): Promise<LoudnessRecord | null> => {
+  const existing = pending.get(songKey);
+  if (existing) return existing;
+
+  const task = analysisChain
+    .then(() => analyzeBlob(blob))
+    .then(async (record) => {
+      if (record) {
+        await idbPut(STORES.loudness, songKey, record).catch(() => {
+          // Persistence is best-effort
+        });
+      }
+      return record;
+    })
+    .catch(() => null)
+    .finally(() => {
+      pending.delete(songKey);
+    });
+
+  analysisChain = task;
+  pending.set(songKey, task);
+  return task;
+};
+
+export const recordToReplayGain = (record: LoudnessRecord): ReplayGainInfo => ({
+  trackGain: record.trackGain,
+  trackPeak: record.trackPeak,
+  source: "analysis",
+});
+
+// Album gain for songs without album tags: average the track gains of the
+// queue's songs from the same album
+const estimateAlbumGain = (song: Song, queue: Song[]): number | undefined => {
+  if (!song.album) return undefined;
+  const gains = queue
+    .filter(
+      (item) =>
+        item.album === song.album &&
+        item.artist === song.artist &&
+        item.replayGain?.trackGain !== undefined,
+    )
+    .map((item) => item.replayGain!.trackGain!);
+  if (gains.length === 0) return undefined;
+  return gains.reduce((total, gain) => total + gain, 0) / gains.length;
+};
+
+// Gain in dB to apply to a song under the given mode, limited so the known
+// peak doesn't clip. Songs without any loudness data play unchanged.
+export const getNormalizationGain = (
+  song: Song,
+  mode: NormalizationMode,
+  queue: Song[],
+): number => {
+  const info = song.replayGain;
+  if (mode === "off" || !info) return 0;
+
+  let gain: number | undefined;
+  let peak: number | undefined;
+  if (mode === "album") {
+    gain = info.albumGain ?? estimateAlbumGain(song, queue);
+    peak = info.albumPeak ?? info.trackPeak;
+  }
+  if (gain === undefined) {
+    gain = info.trackGain;
+    peak = info.trackPeak;
+  }
+  if (gain === undefined) return 0;
+
+  if (peak && peak > 0) {
+    gain = Math.min(gain, -20 * Math.log10(peak));
+  }
+  return Math.max(MIN_GAIN_DB, Math.min(MAX_GAIN_DB, gain));
+};
@@ -0,0 +1,173 @@
+import { LyricLine, Song } from "../types";
+import { RawLyrics } from "./lyricsService";
+import { parseLyrics } from "./lyrics";
+import { STORES, idbDelete, idbGet, idbGetAll, idbPut } from "./db";
+
+// Lyrics fetched or matched online, kept across sessions so replaying a song
+// doesn't hit the network again. Entries hold the raw texts as well as the
+// parsed lines; the lines are rebuilt from the raw texts when the parser
+// changes. Pinned entries (offline downloads) never expire or get evicted.
+
+// Bump when parseLyrics() output changes so stored lines get rebuilt
+export const LYRICS_PARSER_VERSION = 1;
+// Entries older than this are fetched again, picking up corrections
+const MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+// Least recently used entries are evicted beyond this (approximate) size
+const MAX_TOTAL_BYTES = 5 * 1024 * 1024;
+
+export interface CachedLyrics {
+  key: string;
+  raw: RawLyrics;
+  lines: LyricLine[];
+  parserVersion: number;
+  size: number; // Estimated bytes
+  cachedAt: number;
+  usedAt: number;
+  pinned?: boolean;
+}
+
+// Parsed lines with the metadata (credits) lines placed before the first
+export const toLyricLines = (raw: RawLyrics): LyricLine[] => {
+  const parsed = parseLyrics(raw.lrc, raw.tLrc, { yrcContent: raw.yrc });
+  const metadataCount = raw.metadata.length;
+  const metadataLines = raw.metadata.map((text, idx) => ({
+    time: -0.1 * (metadataCount - idx),
+    text,
+    isMetadata: true,
+  }));
+  return [...metadataLines, ...parsed].sort((a, b) => a.time - b.time);
+};
+
+const normalize = (value: string) =>
+  value
+    .normalize("NFKC")
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .trim();
+
+// The song's own id where it has one; otherwise what a search would match on
+export const getLyricsCacheKey = (song: Song) => {
+  if (song.isNetease && song.neteaseId) return `netease:${song.neteaseId}`;
+  if (song.platform && song.platformId) {
+    return `${song.platform}:${song.platformId}`;
+  }
+  return `match:${normalize(song.title)}|${normalize(song.artist)}`;
+};
+
+const isExpired = (entry: CachedLyrics) =>
+  !entry.pinned && Date.now() - entry.cachedAt > MAX_AGE_MS;
+
+export const loadCachedLyrics = async (
+  key: string,
+): Promise<CachedLyrics | null> => {
+  try {
+    const entry = await idbGet<CachedLyrics>(STORES.lyrics, key);
+    if (!entry) return null;
+    if (isExpired(entry)) {
+      await idbDelete(STORES.lyrics, key);
+      return null;
+    }
+    const used = { ...entry, usedAt: Date.now() };
+    await idbPut(STORES.lyrics, key, used);
+    return used;
+  } catch {
+    return null;
+  }
+};
+
+// Drop expired entries, then the least recently used until under the cap
+const evict = async () => {
+  const entries = await idbGetAll<CachedLyrics>(STORES.lyrics);
+  const kept = entries.filter((entry) => !isExpired(entry) && !entry.pinned);
+  const removed = entries.filter(isExpired);
+  kept.sort((a, b) => b.usedAt - a.usedAt);
+  let total = 0;
+  kept.forEach((entry) => {
+    total += entry.size;
+    if (total > MAX_TOTAL_BYTES) removed.push(entry);
+  });
+  await Promise.all(
+    removed.map((entry) => idbDelete(STORES.lyrics, entry.key)),
+  );
+};
+
+export const saveCachedLyrics = async (
+  key: string,
+  raw: RawLyrics,
+  lines: LyricLine[],
+  pinned = false,
+) => {
+  const now = Date.now();
+  const entry: CachedLyrics = {
+    key,
+    raw,
+    lines,
+    parserVersion: LYRICS_PARSER_VERSION,
+    size: JSON.stringify(raw).length + JSON.stringify(lines).length,
+    cachedAt: now,
+    usedAt: now,
+    pinned,
+  };
+  try {
+    // A refetch of pinned lyrics replaces them but keeps them pinned
+    const existing = await idbGet<CachedLyrics>(STORES.lyrics, key);
+    entry.pinned = pinned || existing?.pinned;
+    await idbPut(STORES.lyrics, key, entry);
+    await evict();
+  } catch {
+    // Persistence is best-effort
+  }
+};
+
+// Pinned lyrics stay until a refetch replaces them
+export const deleteCachedLyrics = async (key: string) => {
+  try {
+    const entry = await idbGet<CachedLyrics>(STORES.lyrics, key);
+    if (entry && !entry.pinned) await idbDelete(STORES.lyrics, key);
+  } catch {
+    // Persistence is best-effort
+  }
+};
+
+// Pin or release stored lyrics; false when there are none
+export const pinCachedLyrics = async (key: string, pinned: boolean) => {
+  try {
+    const entry = await idbGet<CachedLyrics>(STORES.lyrics, key);
+    if (!entry) return false;
+    await idbPut(STORES.lyrics, key, { ...entry, pinned });
+    if (!pinned) await evict();
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Estimated bytes in use, for the settings readout
+export const getLyricsCacheSize = async () => {
+  const sizeOf = (entries: CachedLyrics[]) =>
+    entries.reduce((sum, entry) => sum + entry.size, 0);
+  try {
+    const entries = await idbGetAll<CachedLyrics>(STORES.lyrics);
+    return {
+      bytes: sizeOf(entries.filter((entry) => !entry.pinned)),
+      pinnedBytes: sizeOf(entries.filter((entry) => entry.pinned)),
+      limit: MAX_TOTAL_BYTES,
+    };
+  } catch {
+    return { bytes: 0, pinnedBytes: 0, limit: MAX_TOTAL_BYTES };
+  }
+};
+
+// Everything but pinned lyrics
+export const clearLyricsCache = async () => {
+  try {
+    const entries = await idbGetAll<CachedLyrics>(STORES.lyrics);
+    await Promise.all(
+      entries
+        .filter((entry) => !entry.pinned)
+        .map((entry) => idbDelete(STORES.lyrics, entry.key)),
+    );
+  } catch {
+    // Persistence is best-effort
+  }
+};
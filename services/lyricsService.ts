@@ -1,23 +1,14 @@
-import { fetchViaProxy } from "./utils";
-
-// API Configuration
-const LYRIC_API_BASE = "https://163api.qijieya.cn";
-const METING_API = "https://api.qijieya.cn/meting/";
-const NETEASE_SEARCH_API = "https://163api.qijieya.cn/cloudsearch";
-const NETEASE_API_BASE = "http://music.163.com/api";
-const NETEASECLOUD_API_BASE = "https://163api.qijieya.cn";
-
-// Meting API Configuration
-const METING_CONFIG = {
-  // Primary API (working one first)
-  api: "https://api.injahow.cn/meting/?server=:server&type=:type&id=:id",
-  // Fallback APIs
-  fallbackApis: [
-    "https://api.moeyao.cn/meting/?server=:server&type=:type&id=:id",
-    "https://api.qijieya.cn/meting/?type=:type&id=:id&server=:server",
-    "https://api.i-meto.com/meting/api?server=:server&type=:type&id=:id" // This one had 500 errors
-  ]
-};
+import { Song } from "../types";
+import { RequestOptions, fetchJson, withCache } from "./http";
+import {
+  DEFAULT_ENDPOINTS,
+  fillTemplate,
+  getBaseEndpoints,
+  getEndpoints,
+  joinUrl,
+  orderEndpoints,
+  withFailover,
+} from "./config";
 
 const METADATA_KEYWORDS = [
   "歌词贡献者",
@@ -47,10 +38,12 @@ const metadataKeywordRegex = new RegExp(
 const TIMESTAMP_REGEX = /^\[(\d{2}):(\d{2})\.(\d{2,3})\](.*)$/;
 
 interface NeteaseApiArtist {
+  id?: number;
   name?: string;
 }
 
 interface NeteaseApiAlbum {
+  id?: number;
   name?: string;
   picUrl?: string;
 }
@@ -73,11 +66,31 @@ interface NeteasePlaylistResponse {
   songs?: NeteaseApiSong[];
 }
 
+interface NeteaseAlbumResponse {
+  songs?: NeteaseApiSong[];
+}
+
+interface NeteaseArtistSongsResponse {
+  songs?: NeteaseApiSong[];
+  more?: boolean;
+}
+
 interface NeteaseSongDetailResponse {
   code?: number;
   songs?: NeteaseApiSong[];
 }
 
+interface NeteaseLyricResponse {
+  lrc?: { lyric?: string };
+  yrc?: { lyric?: string };
+  tlyric?: { lyric?: string };
+  lyricUser?: { nickname?: string };
+  transUser?: { nickname?: string };
+}
+
+// Meting returns the songs, or wraps them in an object
+type MetingResponse = any[] | { songs?: any[] };
+
 // Base track interface supporting multiple platforms
 export interface TrackInfo {
   id: string;
@@ -90,6 +103,8 @@ export interface TrackInfo {
   platformId: string;
   isNetease?: boolean;
   neteaseId?: string;
+  albumId?: string; // Netease only
+  artistId?: string; // Netease only, first credited artist
 }
 
 // Backward compatibility
@@ -98,11 +113,24 @@ export interface NeteaseTrackInfo extends TrackInfo {
   neteaseId: string;
 }
 
-type SearchOptions = {
+export type SearchOptions = {
   limit?: number;
   offset?: number;
+  signal?: AbortSignal;
 };
 
+// How long repeated requests are answered from memory
+const SEARCH_CACHE_TTL_MS = 5 * 60 * 1000;
+const DETAIL_CACHE_TTL_MS = 60 * 60 * 1000;
+
+// Lyrics as returned by the API, before parsing
+export interface RawLyrics {
+  lrc: string;
+  yrc?: string; // Word-by-word timings
+  tLrc?: string; // Translation
+  metadata: string[];
+}
+
 const formatArtists = (artists?: NeteaseApiArtist[]) =>
   (artists ?? [])
     .map((artist) => artist.name?.trim())
@@ -120,6 +148,8 @@ const mapNeteaseSongToTrack = (song: NeteaseApiSong): NeteaseTrackInfo => ({
   platformId: song.id.toString(),
   isNetease: true,
   neteaseId: song.id.toString(),
+  albumId: song.al?.id ? song.al.id.toString() : undefined,
+  artistId: song.ar?.[0]?.id ? song.ar[0].id.toString() : undefined,
 });
 
 // Map Meting API song data to TrackInfo
@@ -182,34 +212,118 @@ const mapMetingSongToTrack = (song: any, platform: string): TrackInfo => {
   };
 };
 
-// Fetch from Meting API with fallback support
-const fetchMetingApi = async (platform: string, type: string, id: string): Promise<any> => {
-  // Prepare URLs with placeholders replaced
-  const urls = [
-    METING_CONFIG.api
-      .replace(":server", platform)
-      .replace(":type", type)
-      .replace(":id", id),
-    ...METING_CONFIG.fallbackApis.map(api => 
-      api.replace(":server", platform)
-         .replace(":type", type)
-         .replace(":id", id)
-    )
-  ];
-
-  // Try each URL until one succeeds
-  for (const url of urls) {
-    try {
-      const data = await fetchViaProxy(url);
-      if (data && (Array.isArray(data) || (data.songs && Array.isArray(data.songs)))) {
-        return data;
-      }
-    } catch (error) {
-      // Continue to next fallback
+// Fetch from Meting API, failing over across the configured instances
+const fetchMetingApi = (
+  platform: string,
+  type: string,
+  id: string,
+  options: RequestOptions = {},
+): Promise<MetingResponse> =>
+  withFailover("metingApis", async (template) => {
+    const data = await fetchJson<MetingResponse | null>(
+      fillTemplate(template, { server: platform, type, id }),
+      options,
+    );
+    if (data && (Array.isArray(data) || Array.isArray(data.songs))) {
+      return data;
     }
+    throw new Error("Unexpected Meting response");
+  });
+
+// GET `path` from the first NeteaseCloudMusicApi instance that answers
+const fetchNeteaseApi = <T>(
+  path: string,
+  options: RequestOptions = {},
+): Promise<T> =>
+  withFailover("neteaseApis", (base) =>
+    fetchJson<T>(joinUrl(base, path), options),
+  );
+
+// Stream URL through the preferred Meting instance. Songs keep it as their
+// fileUrl, which identifies them; getStreamSources() decides where it is
+// actually streamed from.
+const getMetingUrl = (platform: string, id: string) =>
+  fillTemplate(orderEndpoints("metingApis")[0] ?? "", {
+    server: platform,
+    type: "url",
+    id,
+  });
+
+const templatePattern = (template: string) =>
+  new RegExp(
+    `^${escapeRegex(template).replace(
+      /:(server|type|id)\b/g,
+      (_, name) => `(?<${name}>[^&/?#]+)`,
+    )}$`,
+  );
+
+// Platform and id of a Meting stream URL, made from any instance the app
+// knows of or, failing that, one taking them as query parameters
+const parseMetingStreamUrl = (url: string) => {
+  const templates = new Set([
+    ...getEndpoints().metingApis,
+    ...getBaseEndpoints().metingApis,
+    ...DEFAULT_ENDPOINTS.metingApis,
+  ]);
+  for (const template of templates) {
+    const groups = url.match(templatePattern(template))?.groups;
+    if (groups?.type === "url" && groups.server && groups.id) {
+      return { server: groups.server, id: groups.id };
+    }
+  }
+  try {
+    const params = new URL(url).searchParams;
+    const server = params.get("server");
+    const id = params.get("id");
+    return params.get("type") === "url" && server && id ? { server, id } : null;
+  } catch {
+    return null;
   }
+};
+
+export interface StreamSource {
+  url: string;
+  endpoint?: string; // Meting instance it goes through
+}
+
+// Where to stream `fileUrl` from, in failover order. Meting streams go
+// through the instances configured now rather than the one the song was
+// created with; anything else is streamed as is.
+export const getStreamSources = (fileUrl: string): StreamSource[] => {
+  const stream = parseMetingStreamUrl(fileUrl);
+  if (!stream) return [{ url: fileUrl }];
+  const sources = orderEndpoints("metingApis").map((endpoint) => ({
+    url: fillTemplate(endpoint, { ...stream, type: "url" }),
+    endpoint,
+  }));
+  return sources.length > 0 ? sources : [{ url: fileUrl }];
+};
 
-  throw new Error("All Meting API attempts failed");
+// Search any platform through Meting. The API has no paging, so each
+// search returns a single batch.
+export const searchPlatform = async (
+  platform: string,
+  keyword: string,
+  options: SearchOptions = {},
+): Promise<TrackInfo[]> => {
+  try {
+    return await withCache(
+      `meting:search:${platform}:${keyword}`,
+      SEARCH_CACHE_TTL_MS,
+      async () => {
+        const data = await fetchMetingApi(
+          platform,
+          "search",
+          encodeURIComponent(keyword),
+          { signal: options.signal },
+        );
+        const songs: any[] = Array.isArray(data) ? data : data.songs || [];
+        return songs.map((song) => mapMetingSongToTrack(song, platform));
+      },
+    );
+  } catch (error) {
+    return [];
+  }
 };
 
 // Fetch tracks from any platform using Meting API
@@ -234,9 +348,7 @@ export const getAudioUrl = (platform: string, id: string): string => {
   if (platform === "netease") {
     return getNeteaseAudioUrl(id);
   }
-  // For other platforms, use primary Meting API URL pattern
-  const primaryApi = METING_CONFIG.api.replace(":server", platform).replace(":type", "url").replace(":id", id);
-  return primaryApi;
+  return getMetingUrl(platform, id);
 };
 
 const isMetadataTimestampLine = (line: string): boolean => {
@@ -304,30 +416,49 @@ const extractMetadataLines = (content: string) => {
 };
 
 export const getNeteaseAudioUrl = (id: string) => {
-  return `${METING_API}?type=url&id=${id}`;
+  return getMetingUrl("netease", id);
 };
 
+export const neteaseTrackToSong = (track: NeteaseTrackInfo): Song => ({
+  id: track.id,
+  title: track.title,
+  artist: track.artist,
+  coverUrl: track.coverUrl?.replace("http:", "https:"),
+  fileUrl: getNeteaseAudioUrl(track.id),
+  isNetease: true,
+  neteaseId: track.neteaseId,
+  album: track.album,
+  albumId: track.albumId,
+  artistId: track.artistId,
+  // The API reports milliseconds
+  duration: track.duration ? track.duration / 1000 : undefined,
+  lyrics: [],
+  needsLyricsMatch: true,
+});
+
 // Implements the search logic from the user provided code snippet
 export const searchNetEase = async (
   keyword: string,
   options: SearchOptions = {},
 ): Promise<NeteaseTrackInfo[]> => {
-  const { limit = 20, offset = 0 } = options;
-  const searchApiUrl = `${NETEASE_SEARCH_API}?keywords=${encodeURIComponent(
+  const { limit = 20, offset = 0, signal } = options;
+  const searchApiPath = `/cloudsearch?keywords=${encodeURIComponent(
     keyword,
   )}&limit=${limit}&offset=${offset}`;
 
   try {
-    const parsedSearchApiResponse = (await fetchViaProxy(
-      searchApiUrl,
-    )) as NeteaseSearchResponse;
-    const songs = parsedSearchApiResponse.result?.songs ?? [];
-
-    if (songs.length === 0) {
-      return [];
-    }
-
-    return songs.map(mapNeteaseSongToTrack);
+    return await withCache(
+      `netease:${searchApiPath}`,
+      SEARCH_CACHE_TTL_MS,
+      async () => {
+        const parsedSearchApiResponse =
+          await fetchNeteaseApi<NeteaseSearchResponse>(searchApiPath, {
+            signal,
+          });
+        const songs = parsedSearchApiResponse.result?.songs ?? [];
+        return songs.map(mapNeteaseSongToTrack);
+      },
+    );
   } catch (error) {
     return [];
   }
@@ -345,8 +476,8 @@ export const fetchNeteasePlaylist = async (
     let shouldContinue = true;
 
     while (shouldContinue) {
-      const url = `${NETEASECLOUD_API_BASE}/playlist/track/all?id=${playlistId}&limit=${limit}&offset=${offset}`;
-      const data = (await fetchViaProxy(url)) as NeteasePlaylistResponse;
+      const path = `/playlist/track/all?id=${playlistId}&limit=${limit}&offset=${offset}`;
+      const data = await fetchNeteaseApi<NeteasePlaylistResponse>(path);
       const songs = data.songs ?? [];
       if (songs.length === 0) {
         break;
@@ -372,50 +503,78 @@ export const fetchNeteasePlaylist = async (
 
 export const fetchNeteaseSong = async (
   songId: string,
+  options: RequestOptions = {},
 ): Promise<NeteaseTrackInfo | null> => {
+  const path = `/song/detail?ids=${songId}`;
   try {
-    const url = `${NETEASECLOUD_API_BASE}/song/detail?ids=${songId}`;
-    const data = (await fetchViaProxy(
-      url,
-    )) as NeteaseSongDetailResponse;
-    const track = data.songs?.[0];
-    if (data.code === 200 && track) {
-      return mapNeteaseSongToTrack(track);
-    }
-    return null;
+    return await withCache(`netease:${path}`, DETAIL_CACHE_TTL_MS, async () => {
+      const data = await fetchNeteaseApi<NeteaseSongDetailResponse>(
+        path,
+        options,
+      );
+      const track = data.songs?.[0];
+      if (data.code === 200 && track) {
+        return mapNeteaseSongToTrack(track);
+      }
+      return null;
+    });
   } catch (e) {
     return null;
   }
 };
 
-// Keeps the old search for lyric matching fallbacks
-export const searchAndMatchLyrics = async (
-  title: string,
-  artist: string,
-): Promise<{ lrc: string; yrc?: string; tLrc?: string; metadata: string[] } | null> => {
+export const fetchNeteaseAlbum = async (
+  albumId: string,
+): Promise<NeteaseTrackInfo[]> => {
   try {
-    const songs = await searchNetEase(`${title} ${artist}`, { limit: 5 });
+    const data = await fetchNeteaseApi<NeteaseAlbumResponse>(
+      `/album?id=${albumId}`,
+    );
+    return (data.songs ?? []).map(mapNeteaseSongToTrack);
+  } catch (e) {
+    return [];
+  }
+};
 
-    if (songs.length === 0) {
-      return null;
+// An artist's songs, most popular first, up to `maxTracks`
+export const fetchNeteaseArtistSongs = async (
+  artistId: string,
+  maxTracks = 200,
+): Promise<NeteaseTrackInfo[]> => {
+  const allTracks: NeteaseTrackInfo[] = [];
+  const limit = 50;
+  try {
+    while (allTracks.length < maxTracks) {
+      const path = `/artist/songs?id=${artistId}&order=hot&limit=${limit}&offset=${allTracks.length}`;
+      const data = await fetchNeteaseApi<NeteaseArtistSongsResponse>(path);
+      const songs = data.songs ?? [];
+      allTracks.push(...songs.map(mapNeteaseSongToTrack));
+      if (songs.length < limit || data.more === false) break;
     }
-
-    const songId = songs[0].id;
-
-    const lyricsResult = await fetchLyricsById(songId);
-    return lyricsResult;
-  } catch (error) {
-    return null;
+  } catch (e) {
+    // Keep whatever pages arrived
   }
+  return allTracks.slice(0, maxTracks);
 };
 
-export const fetchLyricsById = async (
+export const fetchLyricsById = (
+  songId: string,
+  options: RequestOptions = {},
+): Promise<RawLyrics | null> =>
+  withCache(`netease:/lyric/new?id=${songId}`, DETAIL_CACHE_TTL_MS, () =>
+    loadLyricsById(songId, options),
+  );
+
+const loadLyricsById = async (
   songId: string,
-): Promise<{ lrc: string; yrc?: string; tLrc?: string; metadata: string[] } | null> => {
+  options: RequestOptions,
+): Promise<RawLyrics | null> => {
   try {
     // 使用網易雲音樂 API 獲取歌詞
-    const lyricUrl = `${NETEASECLOUD_API_BASE}/lyric/new?id=${songId}`;
-    const lyricData = await fetchViaProxy(lyricUrl);
+    const lyricData = await fetchNeteaseApi<NeteaseLyricResponse>(
+      `/lyric/new?id=${songId}`,
+      options,
+    );
 
     const rawYrc = lyricData.yrc?.lyric;
     const rawLrc = lyricData.lrc?.lyric;
@@ -0,0 +1,158 @@
+import { Song } from "../types";
+import { STORES, idbDelete, idbGetAll, idbPut } from "./db";
+import {
+  audioResourceCache,
+  fetchAudioBlob,
+  fetchImageBlobWithCache,
+  pinCachedImage,
+  unpinCachedImage,
+} from "./cache";
+import { toFavoriteSnapshot } from "./favorites";
+import { isLibrarySong } from "./library";
+import {
+  getLyricsCacheKey,
+  loadCachedLyrics,
+  pinCachedLyrics,
+  saveCachedLyrics,
+  toLyricLines,
+} from "./lyricsCache";
+import { findLyrics } from "./providers";
+import { getSongKey } from "./utils";
+
+// Songs made available offline. Their audio, cover and lyrics are pinned in
+// the caches so eviction leaves them alone. A download is held by its
+// owners - the song itself or saved playlists it was downloaded with - and
+// released once none is left.
+
+// Owner of songs downloaded one by one rather than with a playlist
+export const SONG_OWNER = "song";
+
+export interface OfflineRecord {
+  key: string; // getSongKey() of the song
+  // Snapshot of the song without lyrics, enough to queue it again
+  song: Song;
+  owners: string[]; // SONG_OWNER or saved playlist ids
+  size: number; // Bytes of audio and cover
+  downloadedAt: number;
+}
+
+// Imported files are stored on the device already
+export const canDownload = (song: Song) =>
+  !isLibrarySong(song) &&
+  !song.fileUrl.startsWith("blob:") &&
+  !song.fileUrl.startsWith("data:");
+
+export const loadOfflineRecords = async (): Promise<OfflineRecord[]> => {
+  try {
+    const records = await idbGetAll<OfflineRecord>(STORES.offline);
+    return records.sort((a, b) => a.downloadedAt - b.downloadedAt);
+  } catch {
+    return [];
+  }
+};
+
+export const saveOfflineRecord = async (record: OfflineRecord) => {
+  try {
+    await idbPut(STORES.offline, record.key, record);
+  } catch {
+    // Persistence is best-effort
+  }
+};
+
+// Fetch and pin what `song` needs to play without a network: audio first
+// (most of the progress), then cover and lyrics. Only a missing audio fails
+// the download.
+export const downloadSong = async (
+  song: Song,
+  onProgress: (fraction: number) => void,
+  signal?: AbortSignal,
+): Promise<number> => {
+  let size = 0;
+
+  const cachedAudio = await audioResourceCache.load(song.fileUrl);
+  const audio =
+    cachedAudio ??
+    (await fetchAudioBlob(
+      song.fileUrl,
+      (fraction) => onProgress(fraction * 0.9),
+      signal,
+    ));
+  if (!(await audioResourceCache.pin(song.fileUrl, audio))) {
+    throw new Error("Not enough storage for " + song.title);
+  }
+  size += audio.size;
+  onProgress(0.9);
+
+  if (song.coverUrl && !song.coverUrl.startsWith("data:")) {
+    try {
+      const cover = await fetchImageBlobWithCache(song.coverUrl);
+      if (await pinCachedImage(song.coverUrl, cover)) size += cover.size;
+    } catch {
+      // Plays fine without a cover
+    }
+  }
+  onProgress(0.95);
+
+  const lyricsKey = getLyricsCacheKey(song);
+  try {
+    if (!(await loadCachedLyrics(lyricsKey))) {
+      const raw = await findLyrics(song, { signal });
+      if (raw) {
+        await saveCachedLyrics(lyricsKey, raw, toLyricLines(raw), true);
+      }
+    }
+    await pinCachedLyrics(lyricsKey, true);
+  } catch {
+    // Plays fine without lyrics
+  }
+  onProgress(1);
+  return size;
+};
+
+export const createOfflineRecord = (
+  song: Song,
+  owner: string,
+  size: number,
+): OfflineRecord => ({
+  key: getSongKey(song),
+  song: toFavoriteSnapshot(song),
+  owners: [owner],
+  size,
+  downloadedAt: Date.now(),
+});
+
+// Unpin everything a download held, leaving it to normal eviction. Songs
+// from one album share a cover, so it stays pinned while another download
+// still uses it. The record goes first so releases running side by side
+// don't each keep the cover for the other.
+export const releaseDownload = async (record: OfflineRecord) => {
+  const { song } = record;
+  try {
+    await idbDelete(STORES.offline, record.key);
+  } catch {
+    // Persistence is best-effort
+  }
+  const coverInUse =
+    !!song.coverUrl &&
+    (await loadOfflineRecords()).some(
+      (other) => other.key !== record.key && other.song.coverUrl === song.coverUrl,
+    );
+  await Promise.all([
+    audioResourceCache.setPinned(song.fileUrl, false),
+    song.coverUrl && !coverInUse ? unpinCachedImage(song.coverUrl) : null,
+    pinCachedLyrics(getLyricsCacheKey(song), false),
+  ]);
+};
+
+// The app shell is served from public/sw.js so the app starts offline.
+// Development builds skip it so it doesn't serve stale modules.
+export const registerServiceWorker = () => {
+  if (!import.meta.env.PROD || !("serviceWorker" in navigator)) return;
+  window.addEventListener("load", () => {
+    navigator.serviceWorker
+      .register(`${import.meta.env.BASE_URL}sw.js`)
+      .catch(() => {
+        // Offline start just isn't available
+      });
+  });
+};
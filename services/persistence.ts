@@ -0,0 +1,124 @@
+import { NormalizationMode, PlayMode, Song } from "../types";
+import { STORES, idbDelete, idbGet, idbPut } from "./db";
+
+const QUEUE_KEY = "session.queue";
+const PLAYBACK_KEY = "session.playback";
+
+export interface PersistedQueue {
+  // Songs in their original (unshuffled) order
+  songs: Song[];
+  // Song ids in the order currently being played (differs while shuffling)
+  queueOrder: string[];
+}
+
+export interface PersistedPlayback {
+  currentSongId: string | null;
+  playMode: PlayMode;
+  speed: number;
+  preservesPitch: boolean;
+  pitch?: number;
+  crossfade?: number;
+  smartShuffle?: boolean;
+  normalization?: NormalizationMode;
+  volume?: number;
+  isMuted?: boolean;
+  currentTime: number;
+}
+
+export interface RestoredSession {
+  originalQueue: Song[];
+  queue: Song[];
+  playback: PersistedPlayback | null;
+}
+
+const isLocalBlobSong = (song: Song) => song.fileUrl.startsWith("blob:");
+
+export const saveLocalFile = async (songId: string, file: Blob) => {
+  try {
+    await idbPut(STORES.files, songId, file);
+  } catch {
+    // Quota exceeded or storage unavailable - the song just won't survive a reload
+  }
+};
+
+export const loadLocalFile = async (songId: string): Promise<Blob | null> => {
+  try {
+    return (await idbGet<Blob>(STORES.files, songId)) ?? null;
+  } catch {
+    return null;
+  }
+};
+
+export const deleteLocalFiles = async (songIds: string[]) => {
+  await Promise.all(
+    songIds.map((id) => idbDelete(STORES.files, id).catch(() => {})),
+  );
+};
+
+// Stored local songs point at object URLs from the session that saved them;
+// give them fresh ones for their stored bytes. Local songs whose bytes are
+// gone are dropped.
+export const restoreLocalSongs = async (songs: Song[]): Promise<Song[]> => {
+  const restored = await Promise.all(
+    songs.map(async (song): Promise<Song | null> => {
+      if (!isLocalBlobSong(song)) return song;
+      const file = await loadLocalFile(song.id);
+      if (!file) return null;
+      return { ...song, fileUrl: URL.createObjectURL(file) };
+    }),
+  );
+  return restored.filter((song): song is Song => song !== null);
+};
+
+export const saveQueue = async (originalQueue: Song[], queue: Song[]) => {
+  const record: PersistedQueue = {
+    songs: originalQueue,
+    queueOrder: queue.map((song) => song.id),
+  };
+  try {
+    await idbPut(STORES.kv, QUEUE_KEY, record);
+  } catch {
+    // Persistence is best-effort
+  }
+};
+
+export const savePlayback = async (playback: PersistedPlayback) => {
+  try {
+    await idbPut(STORES.kv, PLAYBACK_KEY, playback);
+  } catch {
+    // Persistence is best-effort
+  }
+};
+
+// Rebuild the queue from storage. Local songs get a fresh object URL for their
+// stored bytes; local songs whose bytes are gone are dropped.
+export const loadSession = async (): Promise<RestoredSession | null> => {
+  let record: PersistedQueue | undefined;
+  let playback: PersistedPlayback | undefined;
+  try {
+    [record, playback] = await Promise.all([
+      idbGet<PersistedQueue>(STORES.kv, QUEUE_KEY),
+      idbGet<PersistedPlayback>(STORES.kv, PLAYBACK_KEY),
+    ]);
+  } catch {
+    return null;
+  }
+
+  if (!record || record.songs.length === 0) return null;
+
+  const originalQueue = await restoreLocalSongs(record.songs);
+  const byId = new Map(originalQueue.map((song) => [song.id, song]));
+  const queue = record.queueOrder
+    .map((id) => byId.get(id))
+    .filter((song): song is Song => song !== undefined);
+
+  // Fall back to the original order if the saved order lost songs
+  const consistentQueue =
+    queue.length === originalQueue.length ? queue : originalQueue;
+
+  return {
+    originalQueue,
+    queue: consistentQueue,
+    playback: playback ?? null,
+  };
+};
@@ -0,0 +1,290 @@
+import { Song } from "../types";
+
+// Reading and writing standard playlist files: M3U/M3U8 (with #EXTINF),
+// PLS and XSPF.
+
+export type PlaylistFormat = "m3u8" | "pls" | "xspf";
+
+export const PLAYLIST_FILE_EXTENSIONS = ["m3u", "m3u8", "pls", "xspf"];
+
+export interface PlaylistEntry {
+  location: string;
+  title?: string;
+  artist?: string;
+  duration?: number; // Seconds
+}
+
+export interface ResolvedPlaylist {
+  songs: Song[];
+  // Entries that pointed at neither a file from the batch nor a remote URL
+  missing: number;
+}
+
+const getExtension = (name: string) =>
+  name.split(".").pop()?.toLowerCase() ?? "";
+
+export const isPlaylistFile = (name: string) =>
+  PLAYLIST_FILE_EXTENSIONS.includes(getExtension(name));
+
+const isRemoteLocation = (location: string) => /^https?:\/\//i.test(location);
+
+const parseDuration = (value: string | undefined, scale = 1) => {
+  const parsed = Number(value);
+  // Players write -1 for unknown lengths
+  return Number.isFinite(parsed) && parsed > 0 ? parsed / scale : undefined;
+};
+
+// "Artist - Title" is the de facto #EXTINF convention
+const splitDisplayName = (name: string) => {
+  const separator = name.indexOf(" - ");
+  if (separator === -1) return { title: name.trim() || undefined };
+  return {
+    artist: name.slice(0, separator).trim() || undefined,
+    title: name.slice(separator + 3).trim() || undefined,
+  };
+};
+
+const parseM3U = (text: string): PlaylistEntry[] => {
+  const entries: PlaylistEntry[] = [];
+  let pending: Omit<PlaylistEntry, "location"> = {};
+  text.split(/\r?\n/).forEach((rawLine) => {
+    const line = rawLine.trim();
+    if (!line) return;
+    if (line.startsWith("#EXTINF:")) {
+      // #EXTINF:<seconds> [key="value" ...],<display name>
+      const info = line.slice("#EXTINF:".length);
+      const comma = info.indexOf(",");
+      const head = comma === -1 ? info : info.slice(0, comma);
+      const name = comma === -1 ? "" : info.slice(comma + 1);
+      pending = {
+        duration: parseDuration(head.trim().split(/\s+/)[0]),
+        ...splitDisplayName(name),
+      };
+      return;
+    }
+    if (line.startsWith("#")) return;
+    entries.push({ location: line, ...pending });
+    pending = {};
+  });
+  return entries;
+};
+
+const parsePLS = (text: string): PlaylistEntry[] => {
+  const fields = new Map<number, Partial<PlaylistEntry>>();
+  text.split(/\r?\n/).forEach((rawLine) => {
+    const match = rawLine.trim().match(/^(File|Title|Length)(\d+)\s*=\s*(.*)$/i);
+    if (!match) return;
+    const index = Number(match[2]);
+    const entry = fields.get(index) ?? {};
+    const value = match[3].trim();
+    switch (match[1].toLowerCase()) {
+      case "file":
+        entry.location = value;
+        break;
+      case "title":
+        Object.assign(entry, splitDisplayName(value));
+        break;
+      case "length":
+        entry.duration = parseDuration(value);
+        break;
+    }
+    fields.set(index, entry);
+  });
+  return Array.from(fields.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([, entry]) => entry)
+    .filter((entry): entry is PlaylistEntry => !!entry.location);
+};
+
+const parseXSPF = (text: string): PlaylistEntry[] => {
+  const doc = new DOMParser().parseFromString(text, "application/xml");
+  if (doc.getElementsByTagName("parsererror").length > 0) return [];
+  const read = (parent: Element, tag: string) =>
+    parent.getElementsByTagName(tag)[0]?.textContent?.trim() || undefined;
+
+  return Array.from(doc.getElementsByTagName("track"))
+    .map((track) => ({
+      location: read(track, "location") ?? "",
+      title: read(track, "title"),
+      artist: read(track, "creator"),
+      duration: parseDuration(read(track, "duration"), 1000),
+    }))
+    .filter((entry) => entry.location);
+};
+
+export const parsePlaylistFile = (name: string, text: string): PlaylistEntry[] => {
+  switch (getExtension(name)) {
+    case "pls":
+      return parsePLS(text);
+    case "xspf":
+      return parseXSPF(text);
+    default:
+      return parseM3U(text);
+  }
+};
+
+// Last path segment, URL-decoded, for matching entries against dropped files
+const getEntryFileName = (location: string) => {
+  const segment = location.split(/[\\/]/).pop() ?? location;
+  try {
+    return decodeURIComponent(segment.replace(/^file:/i, ""));
+  } catch {
+    return segment;
+  }
+};
+
+// Turn playlist entries into songs: entries naming one of `localSongs` (by file
+// name) reuse it, http(s) entries become streamed songs. Local songs the
+// playlists don't mention are kept after the playlist order.
+export const resolvePlaylistEntries = (
+  entries: PlaylistEntry[],
+  localSongs: Song[],
+): ResolvedPlaylist => {
+  const byFileName = new Map<string, Song>();
+  localSongs.forEach((song) => {
+    if (song.fileName) byFileName.set(song.fileName.toLowerCase(), song);
+  });
+
+  const used = new Set<string>();
+  const songs: Song[] = [];
+  let missing = 0;
+  const batch = Date.now();
+
+  entries.forEach((entry, index) => {
+    const fileName = getEntryFileName(entry.location);
+    const local = byFileName.get(fileName.toLowerCase());
+    if (local) {
+      if (used.has(local.id)) return;
+      used.add(local.id);
+      songs.push(
+        entry.duration && !local.duration
+          ? { ...local, duration: entry.duration }
+          : local,
+      );
+      return;
+    }
+    if (!isRemoteLocation(entry.location)) {
+      missing += 1;
+      return;
+    }
+    songs.push({
+      id: `remote-${batch}-${index}`,
+      title: entry.title ?? fileName.replace(/\.[^/.]+$/, ""),
+      artist: entry.artist ?? "Unknown Artist",
+      fileUrl: entry.location,
+      duration: entry.duration,
+      lyrics: [],
+      needsLyricsMatch: true,
+    });
+  });
+
+  localSongs.forEach((song) => {
+    if (!used.has(song.id)) songs.push(song);
+  });
+  return { songs, missing };
+};
+
+// Local songs only have a session object URL; write their file name so the
+// playlist resolves again when imported next to the files
+const getExportLocation = (song: Song) =>
+  song.fileUrl.startsWith("blob:") && song.fileName
+    ? song.fileName
+    : song.fileUrl;
+
+// XSPF locations are URIs, so file names are percent-encoded there; spaces,
+// "#" and "%" would otherwise be misread by other players
+const getXspfLocation = (song: Song) =>
+  song.fileUrl.startsWith("blob:") && song.fileName
+    ? encodeURIComponent(song.fileName)
+    : song.fileUrl;
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+
+const toSeconds = (song: Song) =>
+  song.duration ? Math.round(song.duration) : -1;
+
+export const serializePlaylist = (
+  songs: Song[],
+  format: PlaylistFormat,
+  name: string,
+): string => {
+  switch (format) {
+    case "pls": {
+      const lines = ["[playlist]"];
+      songs.forEach((song, i) => {
+        const n = i + 1;
+        lines.push(
+          `File${n}=${getExportLocation(song)}`,
+          `Title${n}=${song.artist} - ${song.title}`,
+          `Length${n}=${toSeconds(song)}`,
+        );
+      });
+      lines.push(`NumberOfEntries=${songs.length}`, "Version=2");
+      return `${lines.join("\n")}\n`;
+    }
+    case "xspf": {
+      const tracks = songs.map((song) => {
+        const fields = [
+          `      <location>${escapeXml(getXspfLocation(song))}</location>`,
+          `      <title>${escapeXml(song.title)}</title>`,
+          `      <creator>${escapeXml(song.artist)}</creator>`,
+        ];
+        if (song.album) fields.push(`      <album>${escapeXml(song.album)}</album>`);
+        if (song.duration) {
+          fields.push(`      <duration>${Math.round(song.duration * 1000)}</duration>`);
+        }
+        return `    <track>\n${fields.join("\n")}\n    </track>`;
+      });
+      return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<playlist version="1" xmlns="http://xspf.org/ns/0/">',
+        `  <title>${escapeXml(name)}</title>`,
+        "  <trackList>",
+        ...tracks,
+        "  </trackList>",
+        "</playlist>",
+        "",
+      ].join("\n");
+    }
+    default: {
+      const lines = ["#EXTM3U", `#PLAYLIST:${name}`];
+      songs.forEach((song) => {
+        lines.push(
+          `#EXTINF:${toSeconds(song)},${song.artist} - ${song.title}`,
+          getExportLocation(song),
+        );
+      });
+      return `${lines.join("\n")}\n`;
+    }
+  }
+};
+
+const MIME_TYPES: Record<PlaylistFormat, string> = {
+  m3u8: "audio/x-mpegurl",
+  pls: "audio/x-scpls",
+  xspf: "application/xspf+xml",
+};
+
+export const downloadPlaylist = (
+  songs: Song[],
+  format: PlaylistFormat,
+  name: string,
+) => {
+  const blob = new Blob([serializePlaylist(songs, format, name)], {
+    type: `${MIME_TYPES[format]};charset=utf-8`,
+  });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `${name}.${format}`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
@@ -0,0 +1,72 @@
+import { SavedPlaylist, Song } from "../types";
+import { STORES, idbDelete, idbGetAll, idbPut } from "./db";
+import { FavoriteRecord } from "./favorites";
+import { LibraryEntry } from "./library";
+import { deleteLocalFiles, restoreLocalSongs } from "./persistence";
+
+export const DEFAULT_PLAYLIST_NAME = "Untitled Playlist";
+
+export const createPlaylistId = () =>
+  `playlist-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const normalizePlaylistName = (name: string) =>
+  name.trim() || DEFAULT_PLAYLIST_NAME;
+
+export const loadPlaylists = async (): Promise<SavedPlaylist[]> => {
+  let records: SavedPlaylist[];
+  try {
+    records = await idbGetAll<SavedPlaylist>(STORES.playlists);
+  } catch {
+    return [];
+  }
+  const playlists = await Promise.all(
+    records.map(async (record) => ({
+      ...record,
+      songs: await restoreLocalSongs(record.songs),
+    })),
+  );
+  return playlists.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const savePlaylist = async (playlist: SavedPlaylist) => {
+  try {
+    await idbPut(STORES.playlists, playlist.id, playlist);
+  } catch {
+    // Persistence is best-effort
+  }
+};
+
+export const deletePlaylistRecord = async (id: string) => {
+  try {
+    await idbDelete(STORES.playlists, id);
+  } catch {
+    // Persistence is best-effort
+  }
+};
+
+// Delete the stored bytes of local songs that nothing refers to any more.
+// `inUse` lists ids still needed elsewhere (e.g. the queue); saved playlists
+// liked or rated songs and the local library are always checked.
+export const pruneLocalFiles = async (
+  songIds: string[],
+  inUse: Iterable<string> = [],
+) => {
+  const candidates = songIds.filter((id) => id.startsWith("local-"));
+  if (candidates.length === 0) return;
+
+  const referenced = new Set(inUse);
+  try {
+    const records = await idbGetAll<SavedPlaylist>(STORES.playlists);
+    records.forEach((record) =>
+      record.songs.forEach((song) => referenced.add(song.id)),
+    );
+    const favorites = await idbGetAll<FavoriteRecord>(STORES.favorites);
+    favorites.forEach((record) => referenced.add(record.song.id));
+    const library = await idbGetAll<LibraryEntry>(STORES.library);
+    library.forEach((entry) => referenced.add(entry.songId));
+  } catch {
+    // Can't tell what is still needed; keep everything
+    return;
+  }
+  await deleteLocalFiles(candidates.filter((id) => !referenced.has(id)));
+};
@@ -0,0 +1,78 @@
+import { PlayMode, Song } from "../types";
+
+// What to fetch ahead of playback, and how much the connection allows
+
+export interface PrefetchLimits {
+  audio: number; // Upcoming songs whose audio is downloaded
+  metadata: number; // Upcoming songs whose cover, colors and lyrics are fetched
+}
+
+// Audio is the expensive part; covers and lyrics are small, so they're
+// fetched further ahead
+const LIMITS: Record<"fast" | "moderate" | "slow" | "offline", PrefetchLimits> =
+  {
+    fast: { audio: 2, metadata: 5 },
+    moderate: { audio: 1, metadata: 3 },
+    slow: { audio: 0, metadata: 1 },
+    offline: { audio: 0, metadata: 0 },
+  };
+
+// Network Information API; Chromium only
+interface NetworkInformation extends EventTarget {
+  effectiveType?: "slow-2g" | "2g" | "3g" | "4g";
+  saveData?: boolean;
+  type?: string;
+}
+
+const getConnection = () =>
+  (navigator as Navigator & { connection?: NetworkInformation }).connection;
+
+export const getPrefetchLimits = (): PrefetchLimits => {
+  if (typeof navigator === "undefined") return LIMITS.moderate;
+  if (!navigator.onLine) return LIMITS.offline;
+  const connection = getConnection();
+  // Nothing known about the connection
+  if (!connection) return LIMITS.moderate;
+  if (
+    connection.saveData ||
+    connection.effectiveType === "slow-2g" ||
+    connection.effectiveType === "2g"
+  ) {
+    return LIMITS.slow;
+  }
+  if (connection.effectiveType === "3g" || connection.type === "cellular") {
+    return LIMITS.moderate;
+  }
+  return LIMITS.fast;
+};
+
+// Call `listener` when going on/offline or when the connection changes
+export const subscribeNetworkChanges = (listener: () => void) => {
+  if (typeof window === "undefined") return () => {};
+  const connection = getConnection();
+  window.addEventListener("online", listener);
+  window.addEventListener("offline", listener);
+  connection?.addEventListener("change", listener);
+  return () => {
+    window.removeEventListener("online", listener);
+    window.removeEventListener("offline", listener);
+    connection?.removeEventListener("change", listener);
+  };
+};
+
+// Songs that play after the current one, in order. While shuffling the
+// queue itself is in shuffled order, so this holds for every mode but
+// repeat-one, where nothing else comes up.
+export const getUpcomingSongs = (
+  queue: Song[],
+  currentIndex: number,
+  playMode: PlayMode,
+  count: number,
+): Song[] => {
+  if (playMode === PlayMode.LOOP_ONE || currentIndex < 0) return [];
+  const upcoming: Song[] = [];
+  for (let offset = 1; offset <= count && offset < queue.length; offset++) {
+    upcoming.push(queue[(currentIndex + offset) % queue.length]);
+  }
+  return upcoming;
+};
@@ -0,0 +1,109 @@
+import { Song } from "../../types";
+import {
+  NeteaseTrackInfo,
+  RawLyrics,
+  TrackInfo,
+  neteaseTrackToSong,
+} from "../lyricsService";
+import { neteaseProvider } from "./netease";
+import {
+  baiduProvider,
+  kugouProvider,
+  tencentProvider,
+  xiamiProvider,
+} from "./meting";
+import { RequestOptions } from "../http";
+import { MusicLink, MusicProvider } from "./types";
+
+export type { MusicLink, MusicLinkType, MusicProvider } from "./types";
+
+// Every online music source, in the order they are offered to the user.
+// Register new sources here.
+const providers = new Map<string, MusicProvider>();
+
+export const registerProvider = (provider: MusicProvider) => {
+  providers.set(provider.id, provider);
+};
+
+[
+  neteaseProvider,
+  tencentProvider,
+  kugouProvider,
+  baiduProvider,
+  xiamiProvider,
+].forEach(registerProvider);
+
+export const getProvider = (id: string) => providers.get(id);
+
+export const getProviders = () => Array.from(providers.values());
+
+export const getSongProvider = (song: Song) =>
+  song.isNetease
+    ? providers.get(neteaseProvider.id)
+    : song.platform
+      ? providers.get(song.platform)
+      : undefined;
+
+// The first provider that recognises `input` as one of its links
+export const resolveMusicLink = (input: string): MusicLink | null => {
+  let url: URL;
+  try {
+    url = new URL(input.trim());
+  } catch (e) {
+    return null;
+  }
+  for (const provider of providers.values()) {
+    const link = provider.resolveLink(url);
+    if (link) return link;
+  }
+  return null;
+};
+
+export const trackToSong = (track: TrackInfo): Song => {
+  if (track.isNetease && track.neteaseId) {
+    return neteaseTrackToSong(track as NeteaseTrackInfo);
+  }
+  const provider = providers.get(track.platform);
+  return {
+    id: track.id,
+    title: track.title,
+    artist: track.artist,
+    album: track.album,
+    coverUrl: track.coverUrl,
+    fileUrl: provider ? provider.getAudioUrl(track.platformId) : "",
+    platform: track.platform,
+    platformId: track.platformId,
+    lyrics: [],
+    needsLyricsMatch: true,
+  };
+};
+
+// Lyrics from the song's own source when it has them; otherwise the best
+// search match from the sources that do
+export const findLyrics = async (
+  song: Song,
+  options: RequestOptions = {},
+): Promise<RawLyrics | null> => {
+  const provider = getSongProvider(song);
+  const id = song.isNetease ? song.neteaseId : song.platformId;
+  if (provider?.fetchLyrics && id) {
+    return provider.fetchLyrics(id, options);
+  }
+
+  for (const candidate of providers.values()) {
+    if (!candidate.fetchLyrics) continue;
+    try {
+      const [match] = await candidate.search(`${song.title} ${song.artist}`, {
+        limit: 5,
+        signal: options.signal,
+      });
+      if (!match) continue;
+      const lyrics = await candidate.fetchLyrics(match.platformId, options);
+      if (lyrics) return lyrics;
+    } catch (e) {
+      // Try the next source
+    }
+    if (options.signal?.aborted) return null;
+  }
+  return null;
+};
@@ -0,0 +1,121 @@
+import {
+  fetchTracksFromPlatform,
+  getAudioUrl,
+  searchPlatform,
+} from "../lyricsService";
+import { MusicLink, MusicLinkType, MusicProvider } from "./types";
+
+const lastPathPart = (url: URL) => {
+  const parts = url.pathname.split("/").filter(Boolean);
+  return parts[parts.length - 1] ?? null;
+};
+
+const link = (
+  platform: string,
+  type: MusicLinkType,
+  id: string | null,
+): MusicLink | null => (id ? { platform, type, id } : null);
+
+// Platforms served through the Meting API
+const createMetingProvider = (
+  platform: string,
+  label: string,
+  linkLabel: string,
+  resolveLink: (url: URL) => MusicLink | null,
+): MusicProvider => ({
+  id: platform,
+  label,
+  linkLabel,
+  pagedSearch: false,
+  search: (query, options) => searchPlatform(platform, query, options),
+  resolveLink,
+  fetchSong: async (id) => {
+    try {
+      const [track] = await fetchTracksFromPlatform(platform, "song", id);
+      return track ?? null;
+    } catch (e) {
+      return null;
+    }
+  },
+  fetchPlaylist: async (id) => {
+    try {
+      return await fetchTracksFromPlatform(platform, "playlist", id);
+    } catch (e) {
+      return [];
+    }
+  },
+  getAudioUrl: (id) => getAudioUrl(platform, id),
+});
+
+export const tencentProvider = createMetingProvider(
+  "tencent",
+  "QQ Music",
+  "QQ Music",
+  (url) => {
+    if (!url.hostname.toLowerCase().includes("y.qq.com")) return null;
+    // y.qq.com/n/ryqq/songDetail/003tRgFf0FCu2W or y.qq.com/n/ryqq/playlist/8232463538
+    if (url.pathname.includes("songDetail")) {
+      return link("tencent", "song", lastPathPart(url));
+    }
+    if (url.pathname.includes("playlist")) {
+      return link("tencent", "playlist", lastPathPart(url));
+    }
+    // y.qq.com/song/001J2Hf64A2x9z
+    if (url.pathname.includes("song") || url.pathname.includes("album")) {
+      return link("tencent", "song", lastPathPart(url));
+    }
+    return null;
+  },
+);
+
+export const kugouProvider = createMetingProvider(
+  "kugou",
+  "Kugou",
+  "Kugou Music",
+  (url) => {
+    if (!url.hostname.toLowerCase().includes("kugou.com")) return null;
+    // song.kugou.com/song/#hash=ABC1234567890DEF
+    if (url.hash.includes("hash=")) {
+      return link("kugou", "song", url.hash.split("hash=")[1].split("&")[0]);
+    }
+    // kugou.com/share/playList/?id=123456789
+    if (url.pathname.includes("/share/")) {
+      return link("kugou", "playlist", url.searchParams.get("id"));
+    }
+    return null;
+  },
+);
+
+export const baiduProvider = createMetingProvider(
+  "baidu",
+  "Baidu",
+  "Baidu Music",
+  (url) => {
+    if (!url.hostname.toLowerCase().includes("music.baidu.com")) return null;
+    // music.baidu.com/song/278744849 or music.baidu.com/playlist/123456789
+    if (url.pathname.includes("/song/")) {
+      return link("baidu", "song", lastPathPart(url));
+    }
+    if (url.pathname.includes("/playlist/")) {
+      return link("baidu", "playlist", lastPathPart(url));
+    }
+    return null;
+  },
+);
+
+export const xiamiProvider = createMetingProvider(
+  "xiami",
+  "Xiami",
+  "Xiami Music",
+  (url) => {
+    if (!url.hostname.toLowerCase().includes("xiami.com")) return null;
+    // xiami.com/song/1775614683 or xiami.com/collect/123456789
+    if (url.pathname.includes("/song/")) {
+      return link("xiami", "song", lastPathPart(url));
+    }
+    if (url.pathname.includes("/collect/")) {
+      return link("xiami", "playlist", lastPathPart(url));
+    }
+    return null;
+  },
+);
@@ -0,0 +1,43 @@
+import {
+  fetchLyricsById,
+  fetchNeteasePlaylist,
+  fetchNeteaseSong,
+  getNeteaseAudioUrl,
+  searchNetEase,
+} from "../lyricsService";
+import { MusicProvider } from "./types";
+
+export const neteaseProvider: MusicProvider = {
+  id: "netease",
+  label: "Cloud Music",
+  linkLabel: "NetEase",
+  pagedSearch: true,
+  search: searchNetEase,
+  resolveLink: (url) => {
+    if (!url.hostname.toLowerCase().includes("163.com")) return null;
+    // music.163.com/#/song?id=... (hash router)
+    if (url.hash.includes("/song") || url.hash.includes("/playlist")) {
+      const hashParts = url.hash.split("?");
+      const id =
+        hashParts.length > 1 ? new URLSearchParams(hashParts[1]).get("id") : null;
+      if (id) {
+        return {
+          platform: "netease",
+          type: url.hash.includes("/song") ? "song" : "playlist",
+          id,
+        };
+      }
+    }
+    const id = url.searchParams.get("id");
+    if (!id) return null;
+    return {
+      platform: "netease",
+      type: url.pathname.includes("song") ? "song" : "playlist",
+      id,
+    };
+  },
+  fetchSong: fetchNeteaseSong,
+  fetchPlaylist: fetchNeteasePlaylist,
+  fetchLyrics: fetchLyricsById,
+  getAudioUrl: getNeteaseAudioUrl,
+};
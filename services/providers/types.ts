@@ -0,0 +1,34 @@
+import { RequestOptions } from "../http";
+import {
+  RawLyrics,
+  SearchOptions,
+  TrackInfo,
+} from "../lyricsService";
+
+export type MusicLinkType = "song" | "playlist";
+
+export interface MusicLink {
+  platform: string; // Id of the provider that recognised the link
+  type: MusicLinkType;
+  id: string;
+}
+
+// A source of online music. `id` matches `TrackInfo.platform` / `Song.platform`.
+export interface MusicProvider {
+  id: string;
+  label: string; // Shown on search tabs
+  linkLabel: string; // Shown in the import dialog's list of supported links
+  // Whether search results can be paged with `offset`
+  pagedSearch: boolean;
+  search: (query: string, options?: SearchOptions) => Promise<TrackInfo[]>;
+  // Song or playlist link on this provider's site, or null if not ours
+  resolveLink: (url: URL) => MusicLink | null;
+  fetchSong: (id: string) => Promise<TrackInfo | null>;
+  fetchPlaylist: (id: string) => Promise<TrackInfo[]>;
+  // Providers without lyrics rely on the ones that have them for matching
+  fetchLyrics?: (
+    id: string,
+    options?: RequestOptions,
+  ) => Promise<RawLyrics | null>;
+  getAudioUrl: (id: string) => string;
+}
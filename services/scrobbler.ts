@@ -0,0 +1,229 @@
+import { Song } from "../types";
+import { STORES, idbDelete, idbGet, idbGetAll, idbPut } from "./db";
+
+// Client for ListenBrainz-compatible scrobbling APIs
+// (https://listenbrainz.readthedocs.io/en/latest/users/api/core.html).
+// Listens that can't be sent are kept in IndexedDB and retried later.
+
+const SETTINGS_KEY = "settings.scrobbler";
+const CLIENT_NAME = "Kael Music";
+// The API accepts at most this many listens per request
+const MAX_BATCH_SIZE = 100;
+const REQUEST_TIMEOUT_MS = 10000;
+
+export const DEFAULT_SCROBBLE_ENDPOINT = "https://api.listenbrainz.org";
+
+export interface ScrobbleSettings {
+  enabled: boolean;
+  endpoint: string;
+  token: string;
+}
+
+export const DEFAULT_SCROBBLE_SETTINGS: ScrobbleSettings = {
+  enabled: false,
+  endpoint: DEFAULT_SCROBBLE_ENDPOINT,
+  token: "",
+};
+
+interface TrackMetadata {
+  artist_name: string;
+  track_name: string;
+  release_name?: string;
+  additional_info: {
+    duration_ms?: number;
+    submission_client: string;
+    origin_url?: string;
+  };
+}
+
+export interface PendingListen {
+  id: string;
+  listened_at: number; // Unix seconds
+  track_metadata: TrackMetadata;
+}
+
+export interface TokenValidation {
+  valid: boolean;
+  userName?: string;
+  message?: string;
+}
+
+// Thrown for responses that retrying won't fix (bad payload); anything else
+// leaves listens queued
+class RejectedError extends Error {}
+
+export const loadScrobbleSettings = async (): Promise<ScrobbleSettings> => {
+  try {
+    const saved = await idbGet<Partial<ScrobbleSettings>>(STORES.kv, SETTINGS_KEY);
+    return { ...DEFAULT_SCROBBLE_SETTINGS, ...saved };
+  } catch {
+    return DEFAULT_SCROBBLE_SETTINGS;
+  }
+};
+
+export const saveScrobbleSettings = async (settings: ScrobbleSettings) => {
+  try {
+    await idbPut(STORES.kv, SETTINGS_KEY, settings);
+  } catch {
+    // Persistence is best-effort
+  }
+};
+
+export const isScrobblingConfigured = (settings: ScrobbleSettings) =>
+  settings.enabled && !!settings.token.trim() && !!settings.endpoint.trim();
+
+const buildUrl = (endpoint: string, path: string) =>
+  `${endpoint.trim().replace(/\/+$/, "")}${path}`;
+
+const request = async (
+  settings: ScrobbleSettings,
+  path: string,
+  init: RequestInit = {},
+): Promise<Response> => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+  try {
+    return await fetch(buildUrl(settings.endpoint, path), {
+      ...init,
+      headers: {
+        Authorization: `Token ${settings.token.trim()}`,
+        "Content-Type": "application/json",
+        ...init.headers,
+      },
+      signal: controller.signal,
+    });
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+const toTrackMetadata = (song: Song): TrackMetadata => ({
+  artist_name: song.artist,
+  track_name: song.title,
+  release_name: song.album || undefined,
+  additional_info: {
+    duration_ms: song.duration ? Math.round(song.duration * 1000) : undefined,
+    submission_client: CLIENT_NAME,
+    // Blob URLs mean nothing outside this tab
+    origin_url: /^https?:/i.test(song.fileUrl) ? song.fileUrl : undefined,
+  },
+});
+
+const submit = async (
+  settings: ScrobbleSettings,
+  listenType: "playing_now" | "single" | "import",
+  payload: object[],
+) => {
+  const response = await request(settings, "/1/submit-listens", {
+    method: "POST",
+    body: JSON.stringify({ listen_type: listenType, payload }),
+  });
+  if (response.ok) return;
+  // 401 (token) and 429 (rate limit) can succeed later
+  if (
+    response.status >= 400 &&
+    response.status < 500 &&
+    response.status !== 401 &&
+    response.status !== 429
+  ) {
+    throw new RejectedError(`Listen rejected (${response.status})`);
+  }
+  throw new Error(`Submission failed (${response.status})`);
+};
+
+export const validateToken = async (
+  settings: ScrobbleSettings,
+): Promise<TokenValidation> => {
+  try {
+    const response = await request(settings, "/1/validate-token");
+    const data = await response.json();
+    return {
+      valid: !!data.valid,
+      userName: data.user_name,
+      message: data.message,
+    };
+  } catch {
+    return { valid: false, message: "Could not reach the server" };
+  }
+};
+
+// "Now playing" is only meaningful right away, so it is never queued
+export const sendNowPlaying = async (settings: ScrobbleSettings, song: Song) => {
+  try {
+    await submit(settings, "playing_now", [
+      { track_metadata: toTrackMetadata(song) },
+    ]);
+  } catch {
+    // Best-effort
+  }
+};
+
+// Queue a listen and try to send everything pending
+export const scrobble = async (
+  settings: ScrobbleSettings,
+  song: Song,
+  startedAt: number,
+) => {
+  const listen: PendingListen = {
+    id: `${startedAt}-${Math.random().toString(36).slice(2, 8)}`,
+    listened_at: Math.floor(startedAt / 1000),
+    track_metadata: toTrackMetadata(song),
+  };
+  try {
+    await idbPut(STORES.scrobbles, listen.id, listen);
+  } catch {
+    // Without storage, try once and give up on failure
+    await submit(settings, "single", [listen]).catch(() => {});
+    return;
+  }
+  await flushScrobbles(settings);
+};
+
+let flushing: Promise<number> | null = null;
+
+// Send queued listens oldest first. Resolves to how many are still pending.
+export const flushScrobbles = (settings: ScrobbleSettings): Promise<number> => {
+  if (!flushing) {
+    flushing = flushPending(settings).finally(() => {
+      flushing = null;
+    });
+  }
+  return flushing;
+};
+
+const flushPending = async (settings: ScrobbleSettings): Promise<number> => {
+  let pending: PendingListen[];
+  try {
+    pending = await idbGetAll<PendingListen>(STORES.scrobbles);
+  } catch {
+    return 0;
+  }
+  pending.sort((a, b) => a.listened_at - b.listened_at);
+  if (!isScrobblingConfigured(settings)) return pending.length;
+
+  while (pending.length > 0) {
+    const batch = pending.slice(0, MAX_BATCH_SIZE);
+    const payload = batch.map(({ id: _id, ...listen }) => listen);
+    try {
+      await submit(settings, batch.length === 1 ? "single" : "import", payload);
+    } catch (err) {
+      if (!(err instanceof RejectedError)) return pending.length;
+      // The server will never take these; don't block the rest
+    }
+    await Promise.all(
+      batch.map((listen) =>
+        idbDelete(STORES.scrobbles, listen.id).catch(() => {}),
+      ),
+    );
+    pending = pending.slice(batch.length);
+  }
+  return 0;
+};
+
+export const countPendingScrobbles = async (): Promise<number> => {
+  try {
+    return (await idbGetAll<PendingListen>(STORES.scrobbles)).length;
+  } catch {
+    return 0;
+  }
+};
@@ -1,6 +1,7 @@
-import { LyricLine } from "../types";
+import { LyricLine, ReplayGainInfo, Song } from "../types";
 import { parseLyrics } from "./lyrics";
 import { loadImageElementWithCache } from "./cache";
+import { fillTemplate, withFailover } from "./config";
 
 // Declare global for the script loaded in index.html
 declare const jsmediatags: any;
@@ -13,6 +14,63 @@ export const formatTime = (seconds: number): string => {
   return `${mins}:${secs.toString().padStart(2, "0")}`;
 };
 
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// Identity of a song that survives reloads and re-imports, for data stored
+// outside the queue. Local files are identified by their contents; ones
+// imported before hashing keep their id since their bytes are stored under it.
+export const getSongKey = (song: Song): string => {
+  if (song.neteaseId) return `netease:${song.neteaseId}`;
+  if (song.platform && song.platformId) {
+    return `${song.platform}:${song.platformId}`;
+  }
+  if (song.fileHash) return `sha256:${song.fileHash}`;
+  if (song.id.startsWith("local-")) return song.id;
+  return song.fileUrl.startsWith("blob:") ? song.id : `url:${song.fileUrl}`;
+};
+
+// Hex SHA-256 of a file, or undefined where Web Crypto isn't available
+// (insecure contexts)
+export const hashFile = async (file: Blob): Promise<string | undefined> => {
+  if (typeof crypto === "undefined" || !crypto.subtle) return undefined;
+  try {
+    const digest = await crypto.subtle.digest(
+      "SHA-256",
+      await file.arrayBuffer(),
+    );
+    return Array.from(new Uint8Array(digest))
+      .map((byte) => byte.toString(16).padStart(2, "0"))
+      .join("");
+  } catch {
+    return undefined;
+  }
+};
+
+// `task` over every item with at most `limit` running at once; results
+// keep the order of `items`
+export const mapWithLimit = async <T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T, index: number) => Promise<R>,
+): Promise<R[]> => {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index], index);
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.min(limit, items.length) }, worker),
+  );
+  return results;
+};
+
 export const shuffleArray = <T>(array: T[]): T[] => {
   const newArr = [...array];
   for (let i = newArr.length - 1; i > 0; i--) {
@@ -22,45 +80,45 @@ export const shuffleArray = <T>(array: T[]): T[] => {
   return newArr;
 };
 
-// Helper to request via CORS proxy (api.allorigins.win is reliable for GET requests)
-// Try direct request first, fallback to proxy if CORS fails
-export const fetchViaProxy = async (targetUrl: string): Promise<any> => {
-  let text: string;
-
-  // 1. Try direct request first
-  try {
-    const response = await fetch(targetUrl);
-    if (!response.ok) {
-      throw new Error(
-        `Direct fetch failed with status: ${response.status} ${targetUrl}`,
-      );
-    }
-    text = await response.text();
-    return JSON.parse(text);
-  } catch (directError) {
-    // 2. Direct request failed (likely CORS), try proxy
-
-
-    try {
-      const proxyUrl = `https://api.allorigins.win/raw?url=${encodeURIComponent(targetUrl)}`;
-      const response = await fetch(proxyUrl);
-      if (!response.ok) {
-        throw new Error(`Proxy fetch failed with status: ${response.status}`);
-      }
-      text = await response.text();
-      return JSON.parse(text);
-    } catch (proxyError) {
+const groupBy = <T>(items: T[], getKey: (item: T) => string): T[][] => {
+  const groups = new Map<string, T[]>();
+  items.forEach((item) => {
+    const key = getKey(item);
+    const group = groups.get(key);
+    if (group) group.push(item);
+    else groups.set(key, [item]);
+  });
+  return Array.from(groups.values());
+};
 
-      throw proxyError;
-    }
-  }
+// Interleave groups so each one's members are spread evenly over the result:
+// member i of a group of n sits near (i + offset) / n, with a random offset
+// per group and a little jitter that never reorders the group itself
+const spreadGroups = <T>(groups: T[][]): T[] => {
+  const placed: { item: T; position: number }[] = [];
+  groups.forEach((group) => {
+    const n = group.length;
+    const offset = Math.random() / n;
+    group.forEach((item, i) => {
+      const jitter = ((Math.random() - 0.5) * 0.2) / n;
+      placed.push({ item, position: offset + i / n + jitter });
+    });
+  });
+  return placed
+    .sort((a, b) => a.position - b.position)
+    .map(({ item }) => item);
 };
 
-// Proxy configurations for image fetching
-const IMAGE_PROXIES = [
-  (url: string) => `https://images.weserv.nl/?url=${encodeURIComponent(url)}`,
-  (url: string) => `https://corsproxy.io/?${encodeURIComponent(url)}`
-];
+// Shuffle that keeps songs by the same artist apart, and alternates albums
+// within an artist
+export const balancedShuffle = (songs: Song[]): Song[] => {
+  const normalize = (value?: string) => (value ?? "").trim().toLowerCase();
+  const artistGroups = groupBy(songs, (song) => normalize(song.artist)).map(
+    (artistSongs) =>
+      spreadGroups(groupBy(shuffleArray(artistSongs), (song) => normalize(song.album))),
+  );
+  return spreadGroups(shuffleArray(artistGroups));
+};
 
 // Helper to fetch images with CORS handling using reliable proxy
 export const fetchImageViaProxy = async (targetUrl: string): Promise<Blob> => {
@@ -77,23 +135,21 @@ export const fetchImageViaProxy = async (targetUrl: string): Promise<Blob> => {
 
   }
 
-  // For all images that failed direct fetch, try reliable proxies
-
-  
-  for (const proxyFactory of IMAGE_PROXIES) {
-    try {
-      const proxyUrl = proxyFactory(targetUrl);
+  // For all images that failed direct fetch, try the configured proxies
+  try {
+    return await withFailover("imageProxies", async (proxy) => {
+      const proxyUrl = fillTemplate(proxy, { url: encodeURIComponent(targetUrl) });
       const response = await fetch(proxyUrl, {
         mode: 'cors',
         cache: 'force-cache'
       });
-      
-      if (response.ok) {
-        return await response.blob();
+      if (!response.ok) {
+        throw new Error(`Image proxy failed with status: ${response.status}`);
       }
-    } catch (error) {
+      return await response.blob();
+    });
+  } catch (error) {
 
-    }
   }
 
   // Final fallback: Try with Image object and canvas (works for some cases)
@@ -125,139 +181,72 @@ export const fetchImageViaProxy = async (targetUrl: string): Promise<Blob> => {
   });
 };
 
-export const parseMusicLink = (
-  input: string,
-): { platform: string; type: "song" | "playlist"; id: string } | null => {
-  try {
-    const url = new URL(input);
-    const hostname = url.hostname.toLowerCase();
-    const params = new URLSearchParams(url.search);
-    let platform: string;
-    let type: "song" | "playlist";
-    let id: string | null = null;
-
-    // Handle Netease Cloud Music (music.163.com)
-    if (hostname.includes("163.com")) {
-      platform = "netease";
-      // Handle music.163.com/#/song?id=... (Hash router)
-      if (url.hash.includes("/song") || url.hash.includes("/playlist")) {
-        const hashParts = url.hash.split("?");
-        if (hashParts.length > 1) {
-          const hashParams = new URLSearchParams(hashParts[1]);
-          id = hashParams.get("id");
-          if (id) {
-            type = url.hash.includes("/song") ? "song" : "playlist";
-            return { platform, type, id };
-          }
-        }
-      }
-      // Handle standard params
-      id = params.get("id");
-      if (id) {
-        type = url.pathname.includes("song") ? "song" : "playlist";
-        return { platform, type, id };
-      }
-    }
-
-    // Handle QQ Music (y.qq.com)
-    else if (hostname.includes("y.qq.com")) {
-      platform = "tencent";
-      // QQ Music format: y.qq.com/n/ryqq/songDetail/003tRgFf0FCu2W
-      // or y.qq.com/n/ryqq/playlist/8232463538
-      if (url.pathname.includes("songDetail")) {
-        type = "song";
-        const pathParts = url.pathname.split("/");
-        id = pathParts[pathParts.length - 1];
-      } else if (url.pathname.includes("playlist")) {
-        type = "playlist";
-        const pathParts = url.pathname.split("/");
-        id = pathParts[pathParts.length - 1];
-      } else if (url.pathname.includes("song") || url.pathname.includes("album")) {
-        // Alternative format: y.qq.com/song/001J2Hf64A2x9z
-        type = "song";
-        const pathParts = url.pathname.split("/");
-        id = pathParts[pathParts.length - 1];
-      }
-      if (id) {
-        return { platform, type, id };
-      }
-    }
-
-    // Handle Baidu Music (music.baidu.com)
-    else if (hostname.includes("music.baidu.com")) {
-      platform = "baidu";
-      // Baidu Music format: music.baidu.com/song/278744849
-      // or music.baidu.com/playlist/123456789
-      if (url.pathname.includes("/song/")) {
-        type = "song";
-        const pathParts = url.pathname.split("/");
-        id = pathParts[pathParts.length - 1];
-      } else if (url.pathname.includes("/playlist/")) {
-        type = "playlist";
-        const pathParts = url.pathname.split("/");
-        id = pathParts[pathParts.length - 1];
-      }
-      if (id) {
-        return { platform, type, id };
-      }
-    }
+// R128 gains are Q7.8 fixed point relative to -23 LUFS; ReplayGain uses -18
+const R128_TO_REPLAYGAIN_OFFSET = 5;
 
-    // Handle Kugou Music (kugou.com)
-    else if (hostname.includes("kugou.com")) {
-      platform = "kugou";
-      // Kugou format: song.kugou.com/song/#hash=ABC1234567890DEF
-      if (url.hash.includes("hash=")) {
-        type = "song";
-        id = url.hash.split("hash=")[1].split("&")[0];
-      } else if (url.pathname.includes("/share/")) {
-        // Playlist format: kugou.com/share/playList/?id=123456789
-        type = "playlist";
-        id = params.get("id");
-      }
-      if (id) {
-        return { platform, type, id };
-      }
-    }
+const readTagText = (value: any): string | undefined => {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value === "string" || typeof value === "number") return String(value);
+  if (typeof value === "object" && "data" in value) return readTagText(value.data);
+  return undefined;
+};
 
-    // Handle Xiami Music (xiami.com)
-    else if (hostname.includes("xiami.com")) {
-      platform = "xiami";
-      // Xiami format: xiami.com/song/1775614683
-      // or xiami.com/collect/123456789
-      if (url.pathname.includes("/song/")) {
-        type = "song";
-        const pathParts = url.pathname.split("/");
-        id = pathParts[pathParts.length - 1];
-      } else if (url.pathname.includes("/collect/")) {
-        type = "playlist";
-        const pathParts = url.pathname.split("/");
-        id = pathParts[pathParts.length - 1];
-      }
-      if (id) {
-        return { platform, type, id };
-      }
+// Collect ReplayGain / R128 values from ID3 TXXX frames, Vorbis comments and
+// iTunes freeform atoms, whichever the container used
+const parseReplayGainTags = (tags: any): ReplayGainInfo | undefined => {
+  const fields = new Map<string, string>();
+  const collect = (name: string, value: any) => {
+    const text = readTagText(value);
+    if (text !== undefined) fields.set(name.toLowerCase(), text);
+  };
+
+  Object.entries(tags).forEach(([key, value]: [string, any]) => {
+    if (key === "TXXX") {
+      const frames = Array.isArray(value) ? value : [value];
+      frames.forEach((frame) => {
+        const description = frame?.data?.user_description;
+        if (description) collect(description, frame.data.data);
+      });
+    } else {
+      // "----:com.apple.iTunes:replaygain_track_gain" style keys
+      collect(key.split(":").pop() || key, value);
     }
+  });
 
-    // Fallback for unsupported platforms or invalid URLs
-    return null;
-  } catch (e) {
-    return null;
-  }
+  const parseNumber = (name: string) => {
+    const raw = fields.get(name);
+    if (raw === undefined) return undefined;
+    const value = parseFloat(raw);
+    return Number.isFinite(value) ? value : undefined;
+  };
+  const parseR128 = (name: string) => {
+    const value = parseNumber(name);
+    return value === undefined ? undefined : value / 256 + R128_TO_REPLAYGAIN_OFFSET;
+  };
+
+  const info: ReplayGainInfo = {
+    trackGain: parseNumber("replaygain_track_gain") ?? parseR128("r128_track_gain"),
+    trackPeak: parseNumber("replaygain_track_peak"),
+    albumGain: parseNumber("replaygain_album_gain") ?? parseR128("r128_album_gain"),
+    albumPeak: parseNumber("replaygain_album_peak"),
+    source: "tags",
+  };
+
+  return info.trackGain !== undefined || info.albumGain !== undefined
+    ? info
+    : undefined;
 };
 
-// Keep backward compatibility
-export const parseNeteaseLink = parseMusicLink;
-
-
-
 // Metadata Parser using jsmediatags
 export const parseAudioMetadata = (
   file: File,
 ): Promise<{
   title?: string;
   artist?: string;
+  album?: string;
   picture?: string;
   lyrics?: string;
+  replayGain?: ReplayGainInfo;
 }> => {
   return new Promise((resolve) => {
     if (typeof jsmediatags === "undefined") {
@@ -300,8 +289,10 @@ export const parseAudioMetadata = (
             resolve({
               title: tags.title,
               artist: tags.artist,
+              album: tags.album,
               picture: pictureUrl,
               lyrics: lyricsText,
+              replayGain: parseReplayGainTags(tags),
             });
           } catch (innerErr) {
             resolve({});
@@ -317,6 +308,27 @@ export const parseAudioMetadata = (
   });
 };
 
+// Length of an audio file in seconds, read by the browser's decoder
+export const readAudioDuration = (
+  url: string,
+  timeoutMs = 5000,
+): Promise<number | undefined> =>
+  new Promise((resolve) => {
+    const audio = new Audio();
+    const finish = (duration?: number) => {
+      clearTimeout(timer);
+      audio.onloadedmetadata = null;
+      audio.onerror = null;
+      audio.removeAttribute("src");
+      resolve(duration && isFinite(duration) ? duration : undefined);
+    };
+    const timer = setTimeout(() => finish(), timeoutMs);
+    audio.preload = "metadata";
+    audio.onloadedmetadata = () => finish(audio.duration);
+    audio.onerror = () => finish();
+    audio.src = url;
+  });
+
 export const extractColors = async (imageSrc: string): Promise<string[]> => {
   if (typeof ColorThief === "undefined") {
     return ["#4f46e5", "#db2777", "#1f2937"];
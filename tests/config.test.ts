@@ -0,0 +1,115 @@
+import { describe, expect, test } from "bun:test";
+import {
+  DEFAULT_ENDPOINTS,
+  fillTemplate,
+  getEndpointHealth,
+  joinUrl,
+  orderEndpoints,
+  parseEndpointList,
+  withFailover,
+} from "../services/config";
+import { getStreamSources } from "../services/lyricsService";
+
+const [first, second, third, fourth] = DEFAULT_ENDPOINTS.metingApis;
+
+describe("fillTemplate", () => {
+  test("replaces each placeholder with its value", () => {
+    expect(
+      fillTemplate("https://m.example.com/?server=:server&type=:type&id=:id", {
+        server: "netease",
+        type: "url",
+        id: "42",
+      }),
+    ).toBe("https://m.example.com/?server=netease&type=url&id=42");
+  });
+
+  test("inserts values as given and leaves unknown placeholders", () => {
+    expect(
+      fillTemplate("https://proxy.example.com/?url=:url&key=:key", {
+        url: encodeURIComponent("https://a.com/?q=1"),
+      }),
+    ).toBe("https://proxy.example.com/?url=https%3A%2F%2Fa.com%2F%3Fq%3D1&key=:key");
+  });
+});
+
+describe("parseEndpointList", () => {
+  test("accepts arrays and comma or whitespace separated strings", () => {
+    expect(parseEndpointList(["https://a", " https://b ", 3])).toEqual([
+      "https://a",
+      "https://b",
+    ]);
+    expect(parseEndpointList("https://a, https://b\nhttps://a")).toEqual([
+      "https://a",
+      "https://b",
+    ]);
+  });
+
+  test("treats empty input as unset", () => {
+    expect(parseEndpointList("  ,  ")).toBeUndefined();
+    expect(parseEndpointList(undefined)).toBeUndefined();
+  });
+});
+
+test("joinUrl doesn't double slashes", () => {
+  expect(joinUrl("https://api.example.com//", "/search")).toBe(
+    "https://api.example.com/search",
+  );
+});
+
+// Runs in order: failures recorded here affect the tests after them
+describe("failover", () => {
+  test("keeps the configured order while every host works", () => {
+    expect(orderEndpoints("metingApis")).toEqual([first, second, third, fourth]);
+  });
+
+  test("tries the next host when one fails and moves it to the back", async () => {
+    const tried: string[] = [];
+    const result = await withFailover("metingApis", async (endpoint) => {
+      tried.push(endpoint);
+      if (endpoint === first) throw new Error("down");
+      return endpoint;
+    });
+    expect(result).toBe(second);
+    expect(tried).toEqual([first, second]);
+    expect(getEndpointHealth(first)?.ok).toBe(false);
+    expect(getEndpointHealth(second)?.ok).toBe(true);
+    expect(orderEndpoints("metingApis")).toEqual([second, third, fourth, first]);
+  });
+
+  test("streams through the hosts in the same order", () => {
+    const fileUrl = fillTemplate(first, { server: "netease", type: "url", id: "7" });
+    expect(getStreamSources(fileUrl)).toEqual(
+      [second, third, fourth, first].map((endpoint) => ({
+        endpoint,
+        url: fillTemplate(endpoint, { server: "netease", type: "url", id: "7" }),
+      })),
+    );
+  });
+
+  test("leaves URLs that aren't Meting streams alone", () => {
+    expect(getStreamSources("https://cdn.example.com/song.mp3")).toEqual([
+      { url: "https://cdn.example.com/song.mp3" },
+    ]);
+  });
+
+  test("throws the last error when every host fails", async () => {
+    await expect(
+      withFailover("metingApis", async (endpoint) => {
+        throw new Error(`failed ${endpoint}`);
+      }),
+    ).rejects.toThrow(`failed ${first}`);
+  });
+
+  test("an abort stops failover without blaming the host", async () => {
+    const [preferred] = orderEndpoints("neteaseApis");
+    const tried: string[] = [];
+    await expect(
+      withFailover("neteaseApis", async (endpoint) => {
+        tried.push(endpoint);
+        throw new DOMException("Aborted", "AbortError");
+      }),
+    ).rejects.toThrow("Aborted");
+    expect(tried).toEqual([preferred]);
+    expect(getEndpointHealth(preferred)).toBeUndefined();
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, expect, test } from "bun:test";
+import { Song } from "../types";
+import {
+  PlayRecord,
+  computeStats,
+  getPlayedThreshold,
+  getRecentlyPlayed,
+} from "../services/history";
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2024, 5, 30);
+
+const song = (key: string, artist: string): Song => ({
+  id: key,
+  title: `Song ${key}`,
+  artist,
+  fileUrl: `https://example.com/${key}.mp3`,
+});
+
+let counter = 0;
+const record = (
+  key: string,
+  artist: string,
+  daysAgo: number,
+  overrides: Partial<PlayRecord> = {},
+): PlayRecord => ({
+  id: `record-${counter++}`,
+  songKey: key,
+  song: song(key, artist),
+  startedAt: NOW - daysAgo * DAY,
+  listened: 200,
+  played: true,
+  skipped: false,
+  ...overrides,
+});
+
+describe("getPlayedThreshold", () => {
+  test("is half the song, capped at four minutes", () => {
+    expect(getPlayedThreshold(180)).toBe(90);
+    expect(getPlayedThreshold(600)).toBe(240);
+  });
+
+  test("falls back to 30 seconds without a duration", () => {
+    expect(getPlayedThreshold()).toBe(30);
+    expect(getPlayedThreshold(0)).toBe(30);
+  });
+});
+
+describe("computeStats", () => {
+  const records = [
+    record("a", "Alpha", 1),
+    record("a", "Alpha", 2),
+    record("b", "beta", 3),
+    record("c", "Beta ", 4),
+    record("c", "Beta ", 5, { listened: 10, played: false, skipped: true }),
+    record("d", "Delta", 20),
+    record("e", "Epsilon", 40),
+  ];
+
+  test("only counts plays within the range", () => {
+    const week = computeStats(records, "week", NOW);
+    expect(week.plays).toBe(4);
+    expect(week.skips).toBe(1);
+    expect(week.listened).toBe(4 * 200 + 10);
+
+    const month = computeStats(records, "month", NOW);
+    expect(month.plays).toBe(5);
+    expect(month.topTracks.map((track) => track.song.id)).not.toContain("e");
+  });
+
+  test("ranks tracks by plays, then time listened", () => {
+    const { topTracks } = computeStats(records, "week", NOW);
+    expect(topTracks.map((track) => [track.song.id, track.plays])).toEqual([
+      ["a", 2],
+      ["c", 1],
+      ["b", 1],
+    ]);
+    expect(topTracks[1].listened).toBe(210);
+  });
+
+  test("merges artists case- and whitespace-insensitively", () => {
+    const { topArtists } = computeStats(records, "week", NOW);
+    // Tied on plays; beta's skipped listen puts it ahead on time
+    expect(topArtists.map((artist) => [artist.artist, artist.plays])).toEqual([
+      ["beta", 2],
+      ["Alpha", 2],
+    ]);
+    expect(topArtists[0].listened).toBe(410);
+  });
+
+  test("leaves out tracks that were never fully played", () => {
+    const { topTracks, plays } = computeStats(
+      [record("x", "X", 0, { played: false, listened: 20 })],
+      "week",
+      NOW,
+    );
+    expect(plays).toBe(0);
+    expect(topTracks).toEqual([]);
+  });
+});
+
+describe("getRecentlyPlayed", () => {
+  test("lists each song once, most recent first", () => {
+    const records = [
+      record("a", "A", 3),
+      record("b", "B", 2),
+      record("a", "A", 1),
+    ];
+    expect(getRecentlyPlayed(records).map((r) => r.songKey)).toEqual([
+      "a",
+      "b",
+    ]);
+    expect(getRecentlyPlayed(records, 1)).toHaveLength(1);
+  });
+});
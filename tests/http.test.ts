@@ -0,0 +1,201 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import {
+  CircuitOpenError,
+  HttpError,
+  TimeoutError,
+  invalidateCache,
+  requestJson,
+  withCache,
+} from "../services/http";
+
+const realFetch = globalThis.fetch;
+let calls: string[] = [];
+
+// Answer requests in turn with `responses`; the last one repeats. Aborting
+// the request's signal rejects it like the real fetch.
+const mockFetch = (...responses: (() => Response | Promise<Response>)[]) => {
+  calls = [];
+  globalThis.fetch = ((input: string | URL | Request, init?: RequestInit) => {
+    calls.push(String(input));
+    const respond = responses[Math.min(calls.length, responses.length) - 1];
+    return new Promise<Response>((resolve, reject) => {
+      init?.signal?.addEventListener("abort", () =>
+        reject(new DOMException("Aborted", "AbortError")),
+      );
+      Promise.resolve().then(respond).then(resolve, reject);
+    });
+  }) as typeof fetch;
+};
+
+const json = (body: unknown) => () => new Response(JSON.stringify(body));
+const status = (code: number) => () => new Response("", { status: code });
+const networkError = () => {
+  throw new TypeError("Failed to fetch");
+};
+
+// Circuits are kept per host for the whole module, so each test gets its own
+let hostCount = 0;
+let host = "";
+
+beforeEach(() => {
+  host = `https://api-${hostCount++}.example.com`;
+});
+
+afterEach(() => {
+  globalThis.fetch = realFetch;
+});
+
+describe("requestJson", () => {
+  test("retries transient failures with backoff", async () => {
+    mockFetch(networkError, status(503), json({ ok: true }));
+    const startedAt = performance.now();
+    const data = await requestJson<{ ok: boolean }>(`${host}/a`);
+    expect(data).toEqual({ ok: true });
+    expect(calls).toHaveLength(3);
+    // Two waits of at least half the 300 ms and 600 ms backoff steps
+    expect(performance.now() - startedAt).toBeGreaterThanOrEqual(440);
+  });
+
+  test("gives up after the allowed retries", async () => {
+    mockFetch(status(500));
+    await expect(
+      requestJson(`${host}/a`, { retries: 1 }),
+    ).rejects.toBeInstanceOf(HttpError);
+    expect(calls).toHaveLength(2);
+  });
+
+  test("doesn't retry client errors", async () => {
+    mockFetch(status(404));
+    const error = await requestJson(`${host}/a`).catch((e) => e);
+    expect(error).toBeInstanceOf(HttpError);
+    expect((error as HttpError).status).toBe(404);
+    expect(calls).toHaveLength(1);
+  });
+
+  test("times out slow attempts", async () => {
+    mockFetch(() => new Promise<Response>(() => {}));
+    await expect(
+      requestJson(`${host}/a`, { timeoutMs: 20, retries: 0 }),
+    ).rejects.toBeInstanceOf(TimeoutError);
+  });
+
+  test("stops when the caller aborts", async () => {
+    mockFetch(status(503));
+    const controller = new AbortController();
+    const request = requestJson(`${host}/a`, { signal: controller.signal });
+    setTimeout(() => controller.abort(), 10);
+    const error = await request.catch((e) => e);
+    expect((error as DOMException).name).toBe("AbortError");
+    expect(calls).toHaveLength(1);
+  });
+
+  test("skips a host after repeated failures", async () => {
+    mockFetch(status(500));
+    await requestJson(`${host}/a`, { retries: 2 }).catch(() => {});
+    expect(calls).toHaveLength(3);
+
+    await expect(requestJson(`${host}/b`)).rejects.toBeInstanceOf(
+      CircuitOpenError,
+    );
+    expect(calls).toHaveLength(3);
+
+    // Other hosts are unaffected
+    mockFetch(json([1]));
+    expect(await requestJson(`${host}.other/a`)).toEqual([1]);
+  });
+
+  test("a success resets the failure count", async () => {
+    mockFetch(status(500), status(500), json({}), status(500));
+    await requestJson(`${host}/a`, { retries: 2 });
+    await requestJson(`${host}/a`, { retries: 1 }).catch(() => {});
+    // Two failures since the success; the circuit is still closed
+    mockFetch(json({ again: true }));
+    expect(await requestJson(`${host}/a`)).toEqual({ again: true });
+  });
+});
+
+describe("withCache", () => {
+  test("loads once within the TTL", async () => {
+    let loads = 0;
+    const load = async () => ++loads;
+    expect(await withCache("cache:ttl", 60_000, load)).toBe(1);
+    expect(await withCache("cache:ttl", 60_000, load)).toBe(1);
+    expect(loads).toBe(1);
+  });
+
+  test("loads again once expired", async () => {
+    let loads = 0;
+    const load = async () => ++loads;
+    await withCache("cache:expired", 0, load);
+    await new Promise((resolve) => setTimeout(resolve, 2));
+    expect(await withCache("cache:expired", 0, load)).toBe(2);
+  });
+
+  test("shares a load between concurrent callers", async () => {
+    let loads = 0;
+    const load = async () => {
+      loads++;
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      return "value";
+    };
+    const results = await Promise.all([
+      withCache("cache:shared", 60_000, load),
+      withCache("cache:shared", 60_000, load),
+      withCache("cache:shared", 60_000, load),
+    ]);
+    expect(results).toEqual(["value", "value", "value"]);
+    expect(loads).toBe(1);
+  });
+
+  test("loads again for callers sharing a load whose starter aborted", async () => {
+    const controller = new AbortController();
+    const aborted = withCache(
+      "cache:aborted",
+      60_000,
+      () =>
+        new Promise<number>((_, reject) =>
+          controller.signal.addEventListener("abort", () =>
+            reject(new DOMException("Aborted", "AbortError")),
+          ),
+        ),
+    );
+    const joined = withCache("cache:aborted", 60_000, async () => 2);
+    const alsoJoined = withCache("cache:aborted", 60_000, async () => 3);
+    controller.abort();
+
+    await expect(aborted).rejects.toThrow("Aborted");
+    // The first to load again is shared by the rest
+    expect(await joined).toBe(2);
+    expect(await alsoJoined).toBe(2);
+  });
+
+  test("doesn't keep failures or empty results", async () => {
+    let loads = 0;
+    await expect(
+      withCache("cache:failure", 60_000, async () => {
+        loads++;
+        throw new Error("offline");
+      }),
+    ).rejects.toThrow("offline");
+    const retried = await withCache("cache:failure", 60_000, async () => ++loads);
+    expect(retried).toBe(2);
+
+    const empty = async () => {
+      loads++;
+      return [] as number[];
+    };
+    await withCache("cache:empty", 60_000, empty);
+    await withCache("cache:empty", 60_000, empty);
+    expect(loads).toBe(4);
+  });
+
+  test("invalidateCache forgets keys by prefix", async () => {
+    let loads = 0;
+    const load = async () => ++loads;
+    await withCache("cache:lyrics:1", 60_000, load);
+    await withCache("cache:search:1", 60_000, load);
+    invalidateCache("cache:lyrics:");
+    expect(await withCache("cache:lyrics:1", 60_000, load)).toBe(3);
+    expect(await withCache("cache:search:1", 60_000, load)).toBe(2);
+  });
+});
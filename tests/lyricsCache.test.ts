@@ -0,0 +1,129 @@
+import {
+  afterAll,
+  beforeEach,
+  describe,
+  expect,
+  mock,
+  setSystemTime,
+  test,
+} from "bun:test";
+import { STORES } from "../services/db";
+
+// IndexedDB isn't available here; the cache only needs these calls
+const stores = new Map<string, Map<IDBValidKey, unknown>>();
+const storeOf = (name: string) => {
+  if (!stores.has(name)) stores.set(name, new Map());
+  return stores.get(name)!;
+};
+mock.module("../services/db", () => ({
+  STORES,
+  idbGet: async (store: string, key: IDBValidKey) => storeOf(store).get(key),
+  idbGetAll: async (store: string) => Array.from(storeOf(store).values()),
+  idbPut: async (store: string, key: IDBValidKey, value: unknown) => {
+    storeOf(store).set(key, structuredClone(value));
+  },
+  idbDelete: async (store: string, key: IDBValidKey) => {
+    storeOf(store).delete(key);
+  },
+}));
+
+const {
+  deleteCachedLyrics,
+  getLyricsCacheSize,
+  loadCachedLyrics,
+  pinCachedLyrics,
+  saveCachedLyrics,
+} = await import("../services/lyricsCache");
+
+const MB = 1024 * 1024;
+const DAY = 24 * 60 * 60 * 1000;
+let now = Date.UTC(2024, 0, 1);
+
+// Lyrics whose stored size is just under `bytes`
+const lyricsOfSize = (bytes: number) => ({
+  lrc: "x".repeat(bytes - 64),
+  metadata: [],
+});
+
+const save = (key: string, bytes: number, pinned = false) =>
+  saveCachedLyrics(key, lyricsOfSize(bytes), [], pinned);
+
+const storedKeys = () => Array.from(storeOf(STORES.lyrics).keys()).sort();
+
+// Each step happens a second after the last, so use order is unambiguous
+const tick = () => {
+  now += 1000;
+  setSystemTime(now);
+};
+
+beforeEach(() => {
+  stores.clear();
+  tick();
+});
+
+afterAll(() => {
+  setSystemTime();
+});
+
+describe("lyrics cache eviction", () => {
+  test("evicts the least recently used entries beyond 5 MB", async () => {
+    for (const key of ["a", "b", "c", "d", "e"]) {
+      await save(key, MB);
+      tick();
+    }
+    // Reading "a" makes "b" the least recently used
+    expect(await loadCachedLyrics("a")).not.toBeNull();
+    tick();
+    await save("f", MB);
+
+    expect(storedKeys()).toEqual(["a", "c", "d", "e", "f"]);
+    expect((await getLyricsCacheSize()).bytes).toBeLessThanOrEqual(5 * MB);
+  });
+
+  test("never evicts pinned entries or counts them towards the cap", async () => {
+    await save("pinned", 3 * MB, true);
+    tick();
+    for (const key of ["a", "b", "c", "d", "e"]) {
+      await save(key, MB);
+      tick();
+    }
+    expect(storedKeys()).toEqual(["a", "b", "c", "d", "e", "pinned"]);
+    await save("f", MB);
+    expect(storedKeys()).toEqual(["b", "c", "d", "e", "f", "pinned"]);
+    const size = await getLyricsCacheSize();
+    expect(size.pinnedBytes).toBeGreaterThan(3 * MB - 64);
+    expect(size.bytes).toBeLessThanOrEqual(5 * MB);
+  });
+
+  test("unpinned entries become evictable again", async () => {
+    await save("old", 2 * MB, true);
+    tick();
+    await save("a", 2 * MB);
+    tick();
+    await save("b", 2 * MB);
+    tick();
+    expect(storedKeys()).toEqual(["a", "b", "old"]);
+
+    await pinCachedLyrics("old", false);
+    expect(storedKeys()).toEqual(["a", "b"]);
+  });
+
+  test("expires entries after 30 days unless pinned", async () => {
+    await save("stale", 100);
+    await save("kept", 100, true);
+    now += 31 * DAY;
+    setSystemTime(now);
+    expect(await loadCachedLyrics("stale")).toBeNull();
+    expect(await loadCachedLyrics("kept")).not.toBeNull();
+    expect(storedKeys()).toEqual(["kept"]);
+  });
+
+  test("a refetch keeps the pin and deleting leaves pinned lyrics", async () => {
+    await save("song", 100, true);
+    await save("song", 200);
+    await deleteCachedLyrics("song");
+    const entry = await loadCachedLyrics("song");
+    expect(entry?.pinned).toBe(true);
+    expect(entry?.raw.lrc).toHaveLength(200 - 64);
+  });
+});
@@ -0,0 +1,190 @@
+import { describe, expect, test } from "bun:test";
+import { Song } from "../types";
+import {
+  parsePlaylistFile,
+  resolvePlaylistEntries,
+  serializePlaylist,
+} from "../services/playlistFormats";
+
+const song = (overrides: Partial<Song>): Song => ({
+  id: "song",
+  title: "Title",
+  artist: "Artist",
+  fileUrl: "https://example.com/song.mp3",
+  ...overrides,
+});
+
+describe("parsePlaylistFile", () => {
+  test("reads #EXTINF durations and artist - title names", () => {
+    const entries = parsePlaylistFile(
+      "mix.m3u8",
+      [
+        "#EXTM3U",
+        "#EXTINF:215,Daft Punk - One More Time",
+        "music/one-more-time.mp3",
+        "",
+        "#EXTINF:-1,Radio Stream",
+        "https://radio.example.com/live",
+        "# a comment",
+        "bare.flac",
+      ].join("\r\n"),
+    );
+    expect(entries).toEqual([
+      {
+        location: "music/one-more-time.mp3",
+        duration: 215,
+        artist: "Daft Punk",
+        title: "One More Time",
+      },
+      {
+        location: "https://radio.example.com/live",
+        duration: undefined,
+        title: "Radio Stream",
+      },
+      { location: "bare.flac" },
+    ]);
+  });
+
+  test("orders PLS entries by number and treats -1 lengths as unknown", () => {
+    const entries = parsePlaylistFile(
+      "list.pls",
+      [
+        "[playlist]",
+        "File2=b.mp3",
+        "Title2=B",
+        "Length2=-1",
+        "File1=a.mp3",
+        "Title1=Someone - A",
+        "Length1=180",
+        "Title3=No file",
+        "NumberOfEntries=3",
+      ].join("\n"),
+    );
+    expect(entries).toEqual([
+      { location: "a.mp3", artist: "Someone", title: "A", duration: 180 },
+      { location: "b.mp3", title: "B", duration: undefined },
+    ]);
+  });
+});
+
+describe("serializePlaylist", () => {
+  const songs = [
+    song({ id: "1", title: "First", artist: "One", duration: 200.4 }),
+    song({
+      id: "2",
+      title: "Second",
+      artist: "Two",
+      fileUrl: "blob:http://localhost/abc",
+      fileName: "second.flac",
+    }),
+  ];
+
+  test("round-trips through M3U", () => {
+    const text = serializePlaylist(songs, "m3u8", "Mix");
+    expect(text).toContain("#EXTINF:-1,Two - Second");
+    expect(parsePlaylistFile("mix.m3u8", text)).toEqual([
+      {
+        location: "https://example.com/song.mp3",
+        duration: 200,
+        artist: "One",
+        title: "First",
+      },
+      {
+        location: "second.flac",
+        duration: undefined,
+        artist: "Two",
+        title: "Second",
+      },
+    ]);
+  });
+
+  test("round-trips through PLS", () => {
+    const text = serializePlaylist(songs, "pls", "Mix");
+    expect(text).toContain("Length2=-1");
+    expect(text).toContain("NumberOfEntries=2");
+    expect(parsePlaylistFile("mix.pls", text)).toEqual([
+      {
+        location: "https://example.com/song.mp3",
+        artist: "One",
+        title: "First",
+        duration: 200,
+      },
+      {
+        location: "second.flac",
+        artist: "Two",
+        title: "Second",
+        duration: undefined,
+      },
+    ]);
+  });
+
+  test("escapes XML in XSPF and writes durations in milliseconds", () => {
+    const text = serializePlaylist(
+      [
+        song({
+          title: `Rock & "Roll"`,
+          artist: "<Band>",
+          album: "It's",
+          fileUrl: "https://example.com/a?x=1&y=2",
+          duration: 61.5,
+        }),
+      ],
+      "xspf",
+      "Tom & Jerry",
+    );
+    expect(text).toContain("<title>Tom &amp; Jerry</title>");
+    expect(text).toContain(
+      "<location>https://example.com/a?x=1&amp;y=2</location>",
+    );
+    expect(text).toContain("<title>Rock &amp; &quot;Roll&quot;</title>");
+    expect(text).toContain("<creator>&lt;Band&gt;</creator>");
+    expect(text).toContain("<album>It&apos;s</album>");
+    expect(text).toContain("<duration>61500</duration>");
+  });
+
+  test("percent-encodes local file names in XSPF locations", () => {
+    const local = song({
+      id: "local",
+      fileUrl: "blob:http://localhost/abc",
+      fileName: "50% #1 hit.mp3",
+    });
+    const text = serializePlaylist([local], "xspf", "Mix");
+    expect(text).toContain("<location>50%25%20%231%20hit.mp3</location>");
+    const location = text.match(/<location>(.*)<\/location>/)![1];
+    expect(resolvePlaylistEntries([{ location }], [local]).songs[0].id).toBe(
+      "local",
+    );
+  });
+});
+
+describe("resolvePlaylistEntries", () => {
+  test("matches local files by name, streams URLs and counts the rest", () => {
+    const local = [
+      song({ id: "a", fileName: "A Song.mp3", fileUrl: "blob:a" }),
+      song({ id: "b", fileName: "b.mp3", fileUrl: "blob:b", duration: 90 }),
+      song({ id: "c", fileName: "c.mp3", fileUrl: "blob:c" }),
+    ];
+    const { songs, missing } = resolvePlaylistEntries(
+      [
+        { location: "file:///music/b.mp3", duration: 100 },
+        { location: "C:\\music\\A%20Song.mp3", duration: 120 },
+        { location: "https://example.com/stream.mp3", title: "Remote" },
+        { location: "missing.mp3" },
+        { location: "b.mp3" },
+      ],
+      local,
+    );
+    expect(missing).toBe(1);
+    expect(
+      songs.map((s) => (s.id.startsWith("remote-") ? s.title : s.id)),
+    ).toEqual(["b", "a", "Remote", "c"]);
+    // Durations from the playlist only fill in unknown ones
+    expect(songs[0].duration).toBe(90);
+    expect(songs[1].duration).toBe(120);
+    expect(songs[2]).toMatchObject({
+      fileUrl: "https://example.com/stream.mp3",
+      artist: "Unknown Artist",
+      needsLyricsMatch: true,
+    });
+  });
+});
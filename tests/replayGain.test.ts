@@ -0,0 +1,92 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { parseAudioMetadata } from "../services/utils";
+
+// jsmediatags is loaded from a script tag in the app; stand in for it with
+// a reader that reports the given tags
+const withTags = (tags: Record<string, any>) => {
+  (globalThis as any).jsmediatags = {
+    read: (_file: File, callbacks: { onSuccess: (tag: any) => void }) =>
+      callbacks.onSuccess({ tags }),
+  };
+};
+
+const readReplayGain = async (tags: Record<string, any>) => {
+  withTags(tags);
+  const metadata = await parseAudioMetadata(new File([], "song.mp3"));
+  return metadata.replayGain;
+};
+
+afterEach(() => {
+  delete (globalThis as any).jsmediatags;
+});
+
+describe("ReplayGain tags", () => {
+  test("reads ID3 TXXX frames", async () => {
+    const txxx = (description: string, value: string) => ({
+      id: "TXXX",
+      data: { user_description: description, data: value },
+    });
+    expect(
+      await readReplayGain({
+        title: "Song",
+        TXXX: [
+          txxx("REPLAYGAIN_TRACK_GAIN", "-6.50 dB"),
+          txxx("REPLAYGAIN_TRACK_PEAK", "0.988"),
+          txxx("REPLAYGAIN_ALBUM_GAIN", "-7.25 dB"),
+          txxx("REPLAYGAIN_ALBUM_PEAK", "1.000"),
+        ],
+      }),
+    ).toEqual({
+      trackGain: -6.5,
+      trackPeak: 0.988,
+      albumGain: -7.25,
+      albumPeak: 1,
+      source: "tags",
+    });
+  });
+
+  test("reads a single TXXX frame", async () => {
+    expect(
+      await readReplayGain({
+        TXXX: {
+          id: "TXXX",
+          data: { user_description: "replaygain_track_gain", data: "+2.1 dB" },
+        },
+      }),
+    ).toMatchObject({ trackGain: 2.1, albumGain: undefined });
+  });
+
+  test("reads Vorbis comments and iTunes freeform atoms", async () => {
+    expect(
+      await readReplayGain({ REPLAYGAIN_ALBUM_GAIN: { data: "-3.00 dB" } }),
+    ).toMatchObject({ albumGain: -3 });
+    expect(
+      await readReplayGain({
+        "----:com.apple.iTunes:replaygain_track_gain": { data: "-4.2 dB" },
+      }),
+    ).toMatchObject({ trackGain: -4.2 });
+  });
+
+  test("converts R128 gains to the ReplayGain reference", async () => {
+    // Q7.8 fixed point: -1280 / 256 = -5 dB against -23 LUFS
+    expect(
+      await readReplayGain({ R128_TRACK_GAIN: "-1280", R128_ALBUM_GAIN: "512" }),
+    ).toMatchObject({ trackGain: 0, albumGain: 7 });
+  });
+
+  test("prefers ReplayGain over R128 when both are present", async () => {
+    expect(
+      await readReplayGain({
+        REPLAYGAIN_TRACK_GAIN: "-8 dB",
+        R128_TRACK_GAIN: "-1280",
+      }),
+    ).toMatchObject({ trackGain: -8 });
+  });
+
+  test("ignores files without usable gain tags", async () => {
+    expect(await readReplayGain({ title: "Song" })).toBeUndefined();
+    expect(
+      await readReplayGain({ REPLAYGAIN_TRACK_GAIN: "n/a", REPLAYGAIN_TRACK_PEAK: "0.9" }),
+    ).toBeUndefined();
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, expect, test } from "bun:test";
+import { Song } from "../types";
+import { balancedShuffle } from "../services/utils";
+
+const makeSongs = (artists: string[], perArtist: number, albums = 1) =>
+  artists.flatMap((artist) =>
+    Array.from(
+      { length: perArtist },
+      (_, i): Song => ({
+        id: `${artist}-${i}`,
+        title: `Song ${i}`,
+        artist,
+        album: `${artist} album ${i % albums}`,
+        fileUrl: `https://example.com/${artist}/${i}.mp3`,
+      }),
+    ),
+  );
+
+const longestRun = (values: string[]) => {
+  let longest = 0;
+  let run = 0;
+  values.forEach((value, i) => {
+    run = i > 0 && values[i - 1] === value ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  });
+  return longest;
+};
+
+describe("balancedShuffle", () => {
+  test("returns every song exactly once", () => {
+    const songs = makeSongs(["a", "b", "c"], 7);
+    const shuffled = balancedShuffle(songs);
+    expect(shuffled).toHaveLength(songs.length);
+    expect(new Set(shuffled.map((song) => song.id))).toEqual(
+      new Set(songs.map((song) => song.id)),
+    );
+  });
+
+  test("keeps songs by the same artist apart", () => {
+    const songs = makeSongs(["a", "b", "c"], 4);
+    for (let run = 0; run < 200; run++) {
+      const artists = balancedShuffle(songs).map((song) => song.artist);
+      expect(longestRun(artists)).toBeLessThanOrEqual(2);
+    }
+  });
+
+  test("spreads a prolific artist over the whole queue", () => {
+    const songs = [...makeSongs(["big"], 10), ...makeSongs(["x", "y"], 2)];
+    for (let run = 0; run < 100; run++) {
+      const shuffled = balancedShuffle(songs);
+      const firstHalf = shuffled
+        .slice(0, shuffled.length / 2)
+        .filter((song) => song.artist === "big");
+      // 10 of 14 songs; an even spread puts about half in each half
+      expect(firstHalf.length).toBeGreaterThanOrEqual(4);
+      expect(firstHalf.length).toBeLessThanOrEqual(6);
+    }
+  });
+
+  test("alternates albums within an artist", () => {
+    const songs = makeSongs(["solo"], 6, 2);
+    for (let run = 0; run < 100; run++) {
+      const albums = balancedShuffle(songs).map((song) => song.album!);
+      expect(longestRun(albums)).toBeLessThanOrEqual(2);
+    }
+  });
+
+  test("handles an empty queue", () => {
+    expect(balancedShuffle([])).toEqual([]);
+  });
+});
@@ -14,6 +14,16 @@ export interface LyricLine {
   isMetadata?: boolean; // If true, line represents metadata and shouldn't drive playback
 }
 
+// Gains in dB relative to the ReplayGain 2.0 reference (-18 LUFS), peaks as
+// linear sample amplitude
+export interface ReplayGainInfo {
+  trackGain?: number;
+  trackPeak?: number;
+  albumGain?: number;
+  albumPeak?: number;
+  source: "tags" | "analysis";
+}
+
 export interface Song {
   id: string;
   title: string;
@@ -23,10 +33,29 @@ export interface Song {
   lyrics?: LyricLine[];
   colors?: string[]; // Array of dominant colors
   needsLyricsMatch?: boolean; // Flag indicating song needs cloud lyrics matching
+  duration?: number; // Seconds, once known from a playlist file or playback
+  fileName?: string; // Original file name of an imported local file
+  filePath?: string; // Path within the imported folder, e.g. "Album/01 Song.flac"
+  fileHash?: string; // SHA-256 of an imported local file's bytes
+  platform?: string; // Source of a Meting track (tencent, kugou, ...)
+  platformId?: string;
   // Netease specific fields
   isNetease?: boolean;
   neteaseId?: string;
   album?: string;
+  albumId?: string; // Netease album id, for fetching the whole album
+  artistId?: string; // Netease id of the first credited artist
+  replayGain?: ReplayGainInfo;
+  volumeOffset?: number; // dB, remembered per song on top of the global volume
+}
+
+// A named playlist kept in the library, independent of the play queue
+export interface SavedPlaylist {
+  id: string;
+  name: string;
+  songs: Song[];
+  createdAt: number;
+  updatedAt: number;
 }
 
 export enum PlayState {
@@ -34,6 +63,20 @@ export enum PlayState {
   PLAYING,
 }
 
+// A-B repeat points in seconds; the loop is active once both are set
+export interface ABLoop {
+  start: number | null;
+  end: number | null;
+}
+
+// When playback should stop by itself
+export type SleepTimer =
+  | { mode: "duration"; endsAt: number } // Epoch ms
+  | { mode: "endOfSong" }
+  | { mode: "afterSongs"; remaining: number }; // Counting the current song
+
+export type NormalizationMode = "off" | "track" | "album";
+
 export enum PlayMode {
   LOOP_ALL,
   LOOP_ONE,